@@ -0,0 +1,228 @@
+// Routes chat requests to the agent for the active provider.
+// Transient failures are retried with backoff; after that the conversation moves to the
+// next provider in the fallback chain, which stays active until the chat is cleared.
+// A new attempt answers again from the last tool result, so the renderer drops what the failed
+// attempt streamed after it when the retry or fallback event arrives.
+import type { MessageData, ToolSpec } from '@strands-agents/sdk';
+import { AIProvider, PROVIDER_LABELS, getContextBudget } from '../shared/settings';
+import { strandsAgent, AgentConfig, AgentStreamEvent } from './strands-agent';
+import { ollamaAgent, OllamaAgentConfig } from './ollama-agent';
+import { ChatTurn } from './session-store';
+import { toolApprovals } from './tool-approvals';
+
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toOllamaConfig = (config: AgentConfig): OllamaAgentConfig => ({
+  modelId: config.ollamaModelId || 'qwen3:4b',
+  baseUrl: config.ollamaBaseUrl || 'http://localhost:11434',
+  systemPrompt: config.systemPrompt,
+  contextBudget: config.contextBudget,
+});
+
+// Strands and Ollama histories don't share a format, so only the text of each turn moves between them
+const toTextTurns = (messages: { role: string; text: string }[]): ChatTurn[] => {
+  const turns: ChatTurn[] = [];
+  for (const message of messages) {
+    if ((message.role !== 'user' && message.role !== 'assistant') || !message.text) continue;
+
+    const last = turns[turns.length - 1];
+    if (last && last.role === message.role) {
+      last.content += `\n\n${message.text}`;
+    } else {
+      turns.push({ role: message.role, content: message.text });
+    }
+  }
+  return turns;
+};
+
+const strandsHistoryToTurns = (messages: MessageData[]): ChatTurn[] => toTextTurns(messages.map(message => ({
+  role: message.role,
+  text: message.content.map(block => 'text' in block ? block.text : '').filter(Boolean).join('\n'),
+})));
+
+const ollamaHistoryToTurns = (messages: any[]): ChatTurn[] => toTextTurns(messages.map(message => ({
+  role: message.role,
+  text: message.content || '',
+})));
+
+export class AgentRouter {
+  private config: AgentConfig | null = null;
+  private activeProvider: AIProvider = 'bedrock';
+  private aborted = false;
+
+  // Provider currently answering - the primary one unless a fallback took over
+  get provider(): AIProvider {
+    return this.activeProvider;
+  }
+
+  async initialize(config: AgentConfig): Promise<void> {
+    this.config = config;
+    await this.activate(config.provider, false);
+  }
+
+  async *stream(
+    message: string,
+    context?: { workspacePath?: string; currentFile?: string }
+  ): AsyncGenerator<AgentStreamEvent> {
+    if (!this.config) {
+      yield { type: 'error', data: 'Agent not initialized' };
+      return;
+    }
+
+    this.aborted = false;
+    const chain = this.getChain();
+    let lastError = 'Unknown error';
+
+    for (let i = 0; i < chain.length; i++) {
+      const provider = chain[i];
+
+      if (i > 0) {
+        try {
+          await this.activate(provider, true);
+        } catch (error: any) {
+          console.error(`[ROUTER] Could not switch to ${provider}:`, error);
+          lastError = `${PROVIDER_LABELS[provider]}: ${error.message}`;
+          continue;
+        }
+        console.log(`[ROUTER] Failing over from ${chain[i - 1]} to ${provider}`);
+        yield {
+          type: 'fallback',
+          provider,
+          data: `${PROVIDER_LABELS[chain[i - 1]]} failed (${lastError}). ${PROVIDER_LABELS[provider]} is answering for the rest of this chat.`,
+        };
+      }
+
+      for (let attempt = 0; ; attempt++) {
+        const agent = provider === 'ollama' ? ollamaAgent : strandsAgent;
+        let failure: AgentStreamEvent | null = null;
+
+        // Everything after the first attempt continues the turn that is already in the history
+        for await (const event of agent.stream(message, context, i > 0 || attempt > 0)) {
+          if (event.type === 'error') {
+            failure = event;
+            break;
+          }
+          yield event;
+        }
+
+        if (!failure) return;
+        if (this.aborted) {
+          yield { type: 'done', data: 'Cancelled' };
+          return;
+        }
+
+        lastError = failure.data || 'Unknown error';
+        if (!failure.transient || attempt >= MAX_RETRIES) break;
+
+        const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+        console.log(`[ROUTER] ${provider} failed with a transient error, retrying in ${delay}ms:`, lastError);
+        yield {
+          type: 'retry',
+          data: `${PROVIDER_LABELS[provider]}: ${lastError}. Retrying in ${delay / 1000}s (attempt ${attempt + 2} of ${MAX_RETRIES + 1})...`,
+        };
+        await sleep(delay);
+
+        if (this.aborted) {
+          yield { type: 'done', data: 'Cancelled' };
+          return;
+        }
+      }
+    }
+
+    yield { type: 'error', data: lastError };
+  }
+
+  abort() {
+    this.aborted = true;
+    toolApprovals.cancelAll();
+    if (this.activeProvider === 'ollama') {
+      ollamaAgent.abort();
+    } else {
+      strandsAgent.abort();
+    }
+  }
+
+  // One-off completion without tools or chat history, answered by the active provider
+  async complete(prompt: string, systemPrompt?: string, signal?: AbortSignal, maxTokens?: number): Promise<string> {
+    if (!this.config) {
+      throw new Error('Agent not initialized');
+    }
+    return this.activeProvider === 'ollama'
+      ? ollamaAgent.simpleCompletion(prompt, systemPrompt, signal, undefined, maxTokens)
+      : strandsAgent.simpleCompletion(prompt, systemPrompt, signal, maxTokens);
+  }
+
+  // One-off completion that must match toolSpec.inputSchema: forced tool use for the Strands
+  // providers, a response format for Ollama. Ollama returns text, so callers still validate.
+  async completeStructured(prompt: string, systemPrompt: string, toolSpec: ToolSpec, signal?: AbortSignal): Promise<unknown> {
+    if (!this.config) {
+      throw new Error('Agent not initialized');
+    }
+    return this.activeProvider === 'ollama'
+      ? ollamaAgent.simpleCompletion(prompt, systemPrompt, signal, toolSpec.inputSchema)
+      : strandsAgent.structuredCompletion(prompt, systemPrompt, toolSpec, signal);
+  }
+
+  // New chats start on the primary provider again
+  async clearHistory(): Promise<void> {
+    if (this.config && this.activeProvider !== this.config.provider) {
+      await this.activate(this.config.provider, false);
+    }
+
+    if (this.activeProvider === 'ollama') {
+      ollamaAgent.clearHistory();
+    } else {
+      strandsAgent.clearHistory();
+    }
+  }
+
+  // The active provider followed by the fallbacks configured after it
+  private getChain(): AIProvider[] {
+    if (!this.config) return [];
+
+    const chain = [this.config.provider, ...(this.config.fallbackProviders || [])]
+      .filter((provider, index, all) => all.indexOf(provider) === index);
+    return chain.slice(Math.max(0, chain.indexOf(this.activeProvider)));
+  }
+
+  private getConfig(provider: AIProvider): AgentConfig {
+    const config = this.config!;
+    return {
+      ...config,
+      provider,
+      contextBudget: provider === config.provider
+        ? config.contextBudget
+        : getContextBudget({ aiProvider: provider, contextBudgets: config.contextBudgets }),
+    };
+  }
+
+  // Initialize the agent for a provider, optionally carrying over the conversation from the active one
+  private async activate(provider: AIProvider, keepHistory: boolean): Promise<void> {
+    const config = this.getConfig(provider);
+    const previous = this.activeProvider;
+
+    if (provider === 'ollama') {
+      const turns = keepHistory && previous !== 'ollama' ? strandsHistoryToTurns(strandsAgent.getHistory()) : null;
+      await ollamaAgent.initialize(toOllamaConfig(config));
+      if (turns) {
+        ollamaAgent.restoreHistory(turns);
+      }
+    } else if (keepHistory && previous !== 'ollama') {
+      await strandsAgent.switchModel(config);
+    } else {
+      const turns = keepHistory ? ollamaHistoryToTurns(ollamaAgent.getHistory()) : null;
+      await strandsAgent.initialize(config);
+      if (turns) {
+        strandsAgent.restoreHistory(turns.map(turn => ({ role: turn.role, content: [{ text: turn.content }] })));
+      }
+    }
+
+    this.activeProvider = provider;
+  }
+}
+
+// Singleton instance
+export const agentRouter = new AgentRouter();
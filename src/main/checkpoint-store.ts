@@ -0,0 +1,212 @@
+// Snapshots of workspace files taken before the agent writes or deletes them, so a turn can be undone.
+// Checkpoints live next to the chat sessions: <workspace>/.collie/checkpoints/<sessionId>/<turnId>/
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { FileChange, TurnCheckpoint } from '../shared/types';
+
+const CHECKPOINTS_DIR = path.join('.collie', 'checkpoints');
+const MANIFEST_FILE = 'manifest.json';
+const SNAPSHOTS_DIR = 'files';
+
+interface ActiveTurn {
+  root: string; // Real path of the workspace
+  sessionId: string;
+  turnId: string;
+  changes: FileChange[];
+}
+
+const checkId = (kind: string, id: string) => {
+  // Ids become folder names; reject anything that could escape the checkpoints folder
+  if (!/^[\w-]+$/.test(id)) {
+    throw new Error(`Invalid ${kind} id: ${id}`);
+  }
+};
+
+const exists = async (target: string): Promise<boolean> => {
+  try {
+    await fs.lstat(target);
+    return true;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return false;
+    throw error;
+  }
+};
+
+// Hash of a file, or of a folder's names and contents; null when the path doesn't exist
+const hashPath = async (target: string): Promise<string | null> => {
+  let stats;
+  try {
+    stats = await fs.lstat(target);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+
+  const hash = createHash('sha256');
+  if (stats.isDirectory()) {
+    for (const entry of (await fs.readdir(target)).sort()) {
+      hash.update(`${entry}\0${await hashPath(path.join(target, entry))}\0`);
+    }
+  } else {
+    hash.update(await fs.readFile(target));
+  }
+  return hash.digest('hex');
+};
+
+// Raised when reverting would overwrite changes made after the turn; paths are workspace-relative
+export class CheckpointConflictError extends Error {
+  constructor(public paths: string[]) {
+    super(`Changed after this turn: ${paths.join(', ')}. Reverting would discard those changes.`);
+    this.name = 'CheckpointConflictError';
+  }
+}
+
+export class CheckpointStore {
+  private activeTurns = new Map<string, ActiveTurn>();
+  // Turn the running code belongs to, so streams that overlap record into their own checkpoints
+  private currentTurn = new AsyncLocalStorage<string>();
+
+  // Start recording changes for an agent turn; without a session nothing is recorded
+  async beginTurn(workspacePath: string | undefined, sessionId: string | undefined, turnId: string): Promise<void> {
+    this.activeTurns.delete(turnId);
+    if (!workspacePath || !sessionId) return;
+
+    checkId('session', sessionId);
+    checkId('turn', turnId);
+    this.activeTurns.set(turnId, {
+      root: await fs.realpath(workspacePath),
+      sessionId,
+      turnId,
+      changes: [],
+    });
+  }
+
+  // Run the work of a turn; files changed anywhere inside it are recorded under that turn
+  runInTurn<T>(turnId: string, task: () => T): T {
+    return this.currentTurn.run(turnId, task);
+  }
+
+  // Stop recording and return what the turn changed, noting how each path was left
+  async endTurn(turnId: string): Promise<TurnCheckpoint | null> {
+    const turn = this.activeTurns.get(turnId);
+    this.activeTurns.delete(turnId);
+    if (!turn || turn.changes.length === 0) return null;
+
+    for (const change of turn.changes) {
+      change.afterHash = await hashPath(path.join(turn.root, change.path));
+    }
+    await this.writeManifest(this.getTurnDir(turn.root, turn.sessionId, turn.turnId), turn);
+    return { sessionId: turn.sessionId, turnId: turn.turnId, changes: turn.changes };
+  }
+
+  // Copy a file or folder aside before the agent changes it. Only the first change to a
+  // path in a turn is snapshotted, so reverting restores the state from before the turn.
+  async snapshot(fullPath: string, action: FileChange['action']): Promise<void> {
+    const turnId = this.currentTurn.getStore();
+    const turn = turnId && this.activeTurns.get(turnId);
+    if (!turn) return;
+
+    const relativePath = path.relative(turn.root, fullPath);
+    if (!relativePath || turn.changes.some(change => change.path === relativePath)) return;
+
+    const change: FileChange = {
+      id: `${turn.changes.length + 1}`,
+      path: relativePath,
+      action,
+      existed: await exists(fullPath),
+    };
+
+    const turnDir = this.getTurnDir(turn.root, turn.sessionId, turn.turnId);
+    if (change.existed) {
+      await fs.mkdir(path.join(turnDir, SNAPSHOTS_DIR), { recursive: true });
+      await fs.cp(fullPath, path.join(turnDir, SNAPSHOTS_DIR, change.id), { recursive: true });
+    }
+
+    turn.changes.push(change);
+    await this.writeManifest(turnDir, turn);
+  }
+
+  // Restore one change, or every change of the turn (newest first), and return the updated list.
+  // Paths edited after the turn are only overwritten with force.
+  async revert(workspacePath: string, sessionId: string, turnId: string, changeId?: string, force = false): Promise<FileChange[]> {
+    const root = await fs.realpath(workspacePath);
+    const turnDir = this.getTurnDir(root, sessionId, turnId);
+    const checkpoint = await this.load(turnDir);
+    if (!checkpoint) {
+      throw new Error('No checkpoint found for this turn. It may have been deleted with its chat session.');
+    }
+
+    const targets = checkpoint.changes
+      .filter(change => !change.reverted && (!changeId || change.id === changeId))
+      .reverse();
+
+    const resolved = targets.map(change => {
+      const fullPath = path.resolve(root, change.path);
+      if (path.relative(root, fullPath).split(path.sep)[0] === '..') {
+        throw new Error(`Checkpoint path is outside the workspace: ${change.path}`);
+      }
+      return { change, fullPath };
+    });
+
+    // Checkpoints from before hashes were recorded can't be checked
+    if (!force) {
+      const conflicts: string[] = [];
+      for (const { change, fullPath } of resolved) {
+        if (change.afterHash !== undefined && await hashPath(fullPath) !== change.afterHash) {
+          conflicts.push(change.path);
+        }
+      }
+      if (conflicts.length > 0) {
+        throw new CheckpointConflictError(conflicts);
+      }
+    }
+
+    for (const { change, fullPath } of resolved) {
+      await fs.rm(fullPath, { recursive: true, force: true });
+      if (change.existed) {
+        await fs.mkdir(path.dirname(fullPath), { recursive: true });
+        await fs.cp(path.join(turnDir, SNAPSHOTS_DIR, change.id), fullPath, { recursive: true });
+      }
+      change.reverted = true;
+    }
+
+    await this.writeManifest(turnDir, checkpoint);
+    return checkpoint.changes;
+  }
+
+  async deleteSession(workspacePath: string, sessionId: string): Promise<void> {
+    checkId('session', sessionId);
+    await fs.rm(path.join(workspacePath, CHECKPOINTS_DIR, sessionId), { recursive: true, force: true });
+  }
+
+  private getTurnDir(root: string, sessionId: string, turnId: string): string {
+    checkId('session', sessionId);
+    checkId('turn', turnId);
+    return path.join(root, CHECKPOINTS_DIR, sessionId, turnId);
+  }
+
+  private async load(turnDir: string): Promise<TurnCheckpoint | null> {
+    try {
+      const content = await fs.readFile(path.join(turnDir, MANIFEST_FILE), 'utf-8');
+      return JSON.parse(content);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async writeManifest(turnDir: string, checkpoint: TurnCheckpoint): Promise<void> {
+    const { sessionId, turnId, changes } = checkpoint;
+    await fs.mkdir(turnDir, { recursive: true });
+    await fs.writeFile(
+      path.join(turnDir, MANIFEST_FILE),
+      JSON.stringify({ sessionId, turnId, changes }, null, 2),
+      'utf-8'
+    );
+  }
+}
+
+// Singleton instance
+export const checkpointStore = new CheckpointStore();
@@ -0,0 +1,95 @@
+// Shared history budgeting for the Strands and Ollama agents.
+// Once the history passes COMPACT_THRESHOLD of the budget, older turns are
+// summarized and replaced while the most recent turns are kept verbatim.
+
+const COMPACT_THRESHOLD = 0.75;
+// Share of the budget reserved for recent turns that are kept as-is
+const RECENT_TURNS_SHARE = 0.35;
+// Long tool results are clipped in the summarization transcript
+const MAX_ENTRY_CHARS = 2000;
+
+export const SUMMARY_SYSTEM_PROMPT = 'You summarize conversations between a product manager and an AI assistant. Respond with the summary only.';
+
+export const SUMMARY_PREFIX = '[Summary of earlier conversation]';
+
+// Rough token estimate (~4 characters per token) - good enough for budgeting
+export const estimateTokens = (value: unknown): number => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value ?? '');
+  return Math.ceil(text.length / 4);
+};
+
+export const clipText = (text: string, maxChars: number = MAX_ENTRY_CHARS): string => {
+  return text.length > maxChars ? `${text.substring(0, maxChars)}... [truncated]` : text;
+};
+
+const buildSummaryPrompt = (transcript: string): string => `Summarize the earlier part of this conversation so the assistant can continue the work without it.
+Keep: the user's goals and decisions, requirements and constraints, files that were read, created or changed (with paths), open questions and the current state of any task.
+Drop: greetings, repeated content and full file contents.
+
+Conversation:
+${transcript}`;
+
+export interface CompactionOptions<T> {
+  budget: number;
+  // True for messages that start a new user turn (not tool results)
+  isTurnStart: (message: T) => boolean;
+  toText: (message: T) => string;
+  summarize: (prompt: string, systemPrompt: string) => Promise<string>;
+}
+
+export interface CompactionResult {
+  // Index of the first message kept verbatim
+  keepFrom: number;
+  summary: string;
+  summarizedCount: number;
+}
+
+// Summarize older turns when the history exceeds the budget, or return null if no compaction is needed
+export const compactHistory = async <T>(
+  messages: T[],
+  options: CompactionOptions<T>
+): Promise<CompactionResult | null> => {
+  if (estimateTokens(messages) <= options.budget * COMPACT_THRESHOLD) {
+    return null;
+  }
+
+  const turnStarts = messages
+    .map((message, index) => options.isTurnStart(message) ? index : -1)
+    .filter(index => index >= 0);
+
+  // Walk back from the newest turn, always keeping at least one
+  let keepFrom = -1;
+  let keptTokens = 0;
+  for (let t = turnStarts.length - 1; t >= 0; t--) {
+    const end = t + 1 < turnStarts.length ? turnStarts[t + 1] : messages.length;
+    const turnTokens = estimateTokens(messages.slice(turnStarts[t], end));
+    if (keepFrom !== -1 && keptTokens + turnTokens > options.budget * RECENT_TURNS_SHARE) {
+      break;
+    }
+    keepFrom = turnStarts[t];
+    keptTokens += turnTokens;
+  }
+
+  if (keepFrom <= 0) {
+    return null;
+  }
+
+  const transcript = messages
+    .slice(0, keepFrom)
+    .map(options.toText)
+    .filter(Boolean)
+    .join('\n\n');
+
+  let summary = '';
+  try {
+    summary = (await options.summarize(buildSummaryPrompt(transcript), SUMMARY_SYSTEM_PROMPT)).trim();
+  } catch (error: any) {
+    console.error('[CONTEXT] Summarization failed, dropping older turns instead:', error.message);
+  }
+
+  return {
+    keepFrom,
+    summary: summary || '(Earlier messages were removed to fit the context window.)',
+    summarizedCount: keepFrom,
+  };
+};
@@ -0,0 +1,157 @@
+// Text embeddings for semantic search, from the selected provider's embedding model or a local Ollama model.
+// Anthropic has no embeddings API, so it always uses Ollama.
+import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { AgentConfig } from './strands-agent';
+import { ensureOk } from './provider-service';
+
+const BEDROCK_EMBEDDING_MODEL = 'amazon.titan-embed-text-v2:0';
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+const DEFAULT_OLLAMA_EMBEDDING_MODEL = 'nomic-embed-text';
+const BATCH_SIZE = 32;
+
+export interface Embedder {
+  // Provider and model, e.g. "openai:text-embedding-3-small"; vectors from different embedders can't be compared
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Import ollama dynamically to avoid webpack issues
+let Ollama: any = null;
+const loadOllama = async () => {
+  if (Ollama) return Ollama;
+  const ollamaModule = await import(/* webpackIgnore: true */ 'ollama');
+  Ollama = ollamaModule.Ollama;
+  return Ollama;
+};
+
+// Send texts in batches so large documents don't exceed request limits
+const inBatches = (embedBatch: (texts: string[]) => Promise<number[][]>) => async (texts: string[]): Promise<number[][]> => {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    vectors.push(...await embedBatch(texts.slice(i, i + BATCH_SIZE)));
+  }
+  return vectors;
+};
+
+const createOllamaEmbedder = (config: AgentConfig): Embedder => {
+  const model = config.ollamaEmbeddingModel || DEFAULT_OLLAMA_EMBEDDING_MODEL;
+  return {
+    id: `ollama:${model}`,
+    embed: inBatches(async (texts) => {
+      const OllamaClass = await loadOllama();
+      const client = new OllamaClass({ host: config.ollamaBaseUrl || 'http://localhost:11434' });
+      try {
+        const response = await client.embed({ model, input: texts });
+        return response.embeddings;
+      } catch (error: any) {
+        if (/not found/i.test(error.message || '')) {
+          throw new Error(`The Ollama embedding model "${model}" is not installed. Run "ollama pull ${model}" or pick another model in Settings.`);
+        }
+        if (error.cause?.code === 'ECONNREFUSED' || /fetch failed/i.test(error.message || '')) {
+          throw new Error(`Could not reach Ollama at ${config.ollamaBaseUrl || 'http://localhost:11434'} for embeddings. Is it running?`);
+        }
+        throw error;
+      }
+    }),
+  };
+};
+
+const createBedrockEmbedder = (config: AgentConfig): Embedder => {
+  const client = new BedrockRuntimeClient({
+    region: config.region || 'us-east-1',
+    credentials: {
+      accessKeyId: config.accessKeyId || '',
+      secretAccessKey: config.secretAccessKey || '',
+    },
+  });
+  return {
+    id: `bedrock:${BEDROCK_EMBEDDING_MODEL}`,
+    // Titan embeds one text per request
+    embed: async (texts) => {
+      const vectors: number[][] = [];
+      for (const text of texts) {
+        const response = await client.send(new InvokeModelCommand({
+          modelId: BEDROCK_EMBEDDING_MODEL,
+          contentType: 'application/json',
+          accept: 'application/json',
+          body: JSON.stringify({ inputText: text, normalize: true }),
+        }));
+        vectors.push(JSON.parse(new TextDecoder().decode(response.body)).embedding);
+      }
+      return vectors;
+    },
+  };
+};
+
+const createOpenAIEmbedder = (config: AgentConfig): Embedder => {
+  const baseUrl = (config.openaiBaseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  return {
+    id: `openai:${OPENAI_EMBEDDING_MODEL}`,
+    embed: inBatches(async (texts) => {
+      const data = await ensureOk(await fetch(`${baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${config.openaiApiKey}`,
+        },
+        body: JSON.stringify({ model: OPENAI_EMBEDDING_MODEL, input: texts }),
+      }));
+      return data.data.map((item: any) => item.embedding);
+    }),
+  };
+};
+
+const createAzureEmbedder = (config: AgentConfig): Embedder => {
+  const deployment = config.azureEmbeddingDeployment || '';
+  return {
+    id: `azure:${deployment}`,
+    embed: inBatches(async (texts) => {
+      if (!deployment) {
+        throw new Error('Semantic search with Azure OpenAI needs an embedding deployment. Enter it in Settings, or use Ollama for embeddings.');
+      }
+      const endpoint = (config.azureEndpoint || '').replace(/\/+$/, '');
+      const data = await ensureOk(await fetch(
+        `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}/embeddings?api-version=${config.azureApiVersion}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'api-key': config.azureApiKey || '',
+          },
+          body: JSON.stringify({ input: texts }),
+        }
+      ));
+      return data.data.map((item: any) => item.embedding);
+    }),
+  };
+};
+
+export const createEmbedder = (config: AgentConfig): Embedder => {
+  if (config.embeddingSource === 'ollama') {
+    return createOllamaEmbedder(config);
+  }
+
+  switch (config.provider) {
+    case 'bedrock':
+      return createBedrockEmbedder(config);
+    case 'openai':
+      return createOpenAIEmbedder(config);
+    case 'azure':
+      return createAzureEmbedder(config);
+    default:
+      return createOllamaEmbedder(config);
+  }
+};
+
+// Cosine similarity; vectors from the same embedder always have the same length
+export const cosineSimilarity = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
@@ -0,0 +1,117 @@
+// Ghost-text suggestions for the editor. A local Ollama model is preferred because suggestions are
+// requested on every pause in typing; otherwise the active chat provider answers, capped to a short reply.
+import { InlineCompletionRequest } from '../shared/types';
+import { AgentConfig } from './strands-agent';
+import { agentRouter } from './agent-router';
+import { abortableFetch, supportsThinking } from './ollama-agent';
+
+const MAX_PREFIX_LENGTH = 3000;
+const MAX_SUFFIX_LENGTH = 1000;
+const MAX_COMPLETION_LENGTH = 300;
+const MAX_COMPLETION_TOKENS = 60;
+
+const SYSTEM_PROMPT = `You are an autocomplete engine for product documents (PRDs, specs, user stories) written in Markdown.
+Continue the text at <cursor> with a short, natural continuation: finish the current sentence or list item, or write the next one.
+Reply with the continuation only - never repeat the text before the cursor, no quotes and no explanation.
+If nothing useful can be added, reply with nothing.`;
+
+// Import ollama dynamically to avoid webpack issues
+let Ollama: any = null;
+const loadOllama = async () => {
+  if (Ollama) return Ollama;
+  const ollamaModule = await import(/* webpackIgnore: true */ 'ollama');
+  Ollama = ollamaModule.Ollama;
+  return Ollama;
+};
+
+const buildPrompt = (request: InlineCompletionRequest): string => {
+  const prefix = request.prefix.slice(-MAX_PREFIX_LENGTH);
+  const suffix = request.suffix.slice(0, MAX_SUFFIX_LENGTH);
+  const location = request.headingPath ? `${request.fileName}, section "${request.headingPath}"` : request.fileName;
+  return `Document: ${location}\n\n<document>\n${prefix}<cursor>${suffix}\n</document>`;
+};
+
+// Keep one paragraph of plain continuation text
+const cleanCompletion = (response: string): string => {
+  let text = response.replace(/<think>[\s\S]*?<\/think>/g, '').replace(/<\/?cursor>/g, '');
+  text = text.replace(/^\n+/, '\n').split(/\n\s*\n/)[0].replace(/\s+$/, '');
+  return text.length > MAX_COMPLETION_LENGTH ? text.substring(0, MAX_COMPLETION_LENGTH) : text;
+};
+
+export class InlineCompletionService {
+  private config: AgentConfig | null = null;
+  private active = new Map<number, { abort: () => void }>();
+
+  configure(config: AgentConfig) {
+    this.config = config;
+  }
+
+  // An empty string means no suggestion, including when the request was cancelled
+  async complete(requestId: number, request: InlineCompletionRequest): Promise<string> {
+    if (!this.config) {
+      throw new Error('Agent not initialized');
+    }
+
+    const prompt = buildPrompt(request);
+    const ollamaModel = this.config.inlineCompletionModel
+      || (this.config.provider === 'ollama' ? this.config.ollamaModelId : '');
+
+    if (!ollamaModel) {
+      // Capped like the local model: each pause in typing is a paid request
+      const controller = new AbortController();
+      this.active.set(requestId, controller);
+      try {
+        const response = await agentRouter.complete(prompt, SYSTEM_PROMPT, controller.signal, MAX_COMPLETION_TOKENS);
+        return controller.signal.aborted ? '' : cleanCompletion(response);
+      } catch (error) {
+        if (controller.signal.aborted) return '';
+        throw error;
+      } finally {
+        this.active.delete(requestId);
+      }
+    }
+
+    // Registered before the first await, so a cancel while the model loads still stops the request
+    const controller = new AbortController();
+    this.active.set(requestId, controller);
+
+    let response = '';
+    try {
+      const OllamaClass = await loadOllama();
+      const client = new OllamaClass({
+        host: this.config.ollamaBaseUrl || 'http://localhost:11434',
+        fetch: abortableFetch(controller.signal),
+      });
+      const stream = await client.generate({
+        model: ollamaModel,
+        system: SYSTEM_PROMPT,
+        prompt,
+        stream: true,
+        ...(supportsThinking(ollamaModel) ? { think: false } : {}),
+        options: { num_predict: MAX_COMPLETION_TOKENS, temperature: 0.2 },
+      });
+      for await (const part of stream) {
+        response += part.response;
+        // One paragraph is all the editor shows
+        if (/\S\n\s*\n/.test(response)) {
+          stream.abort();
+          break;
+        }
+      }
+    } catch (error: any) {
+      if (controller.signal.aborted || error.name === 'AbortError') return '';
+      throw error;
+    } finally {
+      this.active.delete(requestId);
+    }
+    return cleanCompletion(response);
+  }
+
+  cancel(requestId: number) {
+    this.active.get(requestId)?.abort();
+    this.active.delete(requestId);
+  }
+}
+
+// Singleton instance
+export const inlineCompletions = new InlineCompletionService();
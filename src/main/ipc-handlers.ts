@@ -2,12 +2,31 @@ import { ipcMain, dialog, app, BrowserWindow } from 'electron';
 import * as fs from 'fs/promises';
 import * as fss from 'fs';
 import * as path from 'path';
-import { FileItem } from '../shared/types';
+import { FileItem, AgentHistory, ChatSession, MonthlyUsage, WorkspaceSearchOptions, InlineCompletionRequest, Stakeholder } from '../shared/types';
+import { SimulationRun } from '../shared/simulation-history';
 import { strandsAgent, AgentConfig, AgentStreamEvent, TodoItem } from './strands-agent';
-import { ollamaAgent, OllamaAgentConfig } from './ollama-agent';
-
-// Track current provider for routing
-let currentProvider: 'bedrock' | 'openai' | 'ollama' = 'bedrock';
+import { ollamaAgent } from './ollama-agent';
+import { agentRouter } from './agent-router';
+import { workspaceFiles } from './workspace-files';
+import { workspaceSearch } from './workspace-search';
+import { semanticIndex } from './semantic-index';
+import { inlineCompletions } from './inline-completion';
+import { simulationRunner } from './simulation-runner';
+import { simulationHistory, hashContent } from './simulation-history';
+import { mcpManager, formatMCPToolResult, MCPLogEntry, MCPStatusSummary, MCPServerResult } from './mcp-manager';
+import { sessionStore, getTranscriptTurns } from './session-store';
+import { checkpointStore, CheckpointConflictError } from './checkpoint-store';
+import { toolApprovals, ToolApproval } from './tool-approvals';
+import { usageTracker } from './usage-tracker';
+import { AppSettings, DEFAULT_DENIED_PATHS } from '../shared/settings';
+import { testProviderConnection, listProviderModels } from './provider-service';
+import {
+  SelectionContext,
+  getSelectionAction,
+  buildSelectionActionPrompt,
+  cleanSelectionActionResult,
+  SELECTION_ACTION_SYSTEM_PROMPT,
+} from '../shared/selection-actions';
 
 // Get settings file path in user data directory
 const getSettingsPath = () => {
@@ -68,6 +87,26 @@ export function setupIpcHandlers(mainWindow?: BrowserWindow) {
     }
   });
 
+  // Forward MCP server lifecycle to renderer (status badges + terminal logs)
+  mcpManager.on('statusChanged', (summary: MCPStatusSummary, servers: MCPServerResult[]) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('mcp:statusChanged', { summary, servers });
+    }
+  });
+
+  mcpManager.on('log', (entry: MCPLogEntry) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('mcp:log', entry);
+    }
+  });
+
+  // Forward monthly usage totals to the status bar and chat panel
+  usageTracker.on('usageUpdated', (usage: MonthlyUsage) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('usage:updated', usage);
+    }
+  });
+
   // ============================================
   // STRANDS AGENT HANDLERS
   // ============================================
@@ -80,23 +119,17 @@ export function setupIpcHandlers(mainWindow?: BrowserWindow) {
         ollamaModelId: config.ollamaModelId,
         ollamaBaseUrl: config.ollamaBaseUrl,
         openaiModelId: config.openaiModelId,
+        anthropicModelId: config.anthropicModelId,
+        azureDeployment: config.azureDeployment,
         bedrockModelId: config.bedrockModelId,
       }, null, 2));
       
-      currentProvider = config.provider;
-      
-      if (config.provider === 'ollama') {
-        // Use native Ollama agent for proper tool calling support
-        const ollamaConfig: OllamaAgentConfig = {
-          modelId: config.ollamaModelId || 'qwen3:4b',
-          baseUrl: config.ollamaBaseUrl || 'http://localhost:11434',
-          systemPrompt: config.systemPrompt,
-        };
-        await ollamaAgent.initialize(ollamaConfig);
-      } else {
-        // Use Strands agent for Bedrock/OpenAI
-        await strandsAgent.initialize(config);
-      }
+      workspaceFiles.setDeniedPaths(config.deniedPaths ?? DEFAULT_DENIED_PATHS);
+      semanticIndex.configure(config);
+      inlineCompletions.configure(config);
+
+      // Native Ollama agent for Ollama (proper tool calling support), Strands agent for the cloud providers
+      await agentRouter.initialize(config);
       
       return { success: true };
     } catch (error: any) {
@@ -113,21 +146,44 @@ export function setupIpcHandlers(mainWindow?: BrowserWindow) {
   });
 
   // Stream agent response - returns a stream ID and sends events via IPC
-  ipcMain.handle('agent:stream', async (event, message: string, context?: { workspacePath?: string; currentFile?: string }) => {
+  ipcMain.handle('agent:stream', async (
+    event,
+    message: string,
+    context?: { workspacePath?: string; currentFile?: string; sessionId?: string }
+  ) => {
     const streamId = Date.now().toString();
 
+    // Report the turn's file changes; sent before the event that ends the turn
+    const sendFileChanges = async () => {
+      const checkpoint = await checkpointStore.endTurn(streamId);
+      if (checkpoint && mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('agent:streamEvent', {
+          streamId,
+          event: { type: 'file_changes', checkpoint },
+        });
+      }
+    };
+
     // Run streaming in background and send events to renderer
-    (async () => {
+    checkpointStore.runInTurn(streamId, async () => {
       try {
-        // Route to appropriate agent based on current provider
-        const agent = currentProvider === 'ollama' ? ollamaAgent : strandsAgent;
-        
-        for await (const streamEvent of agent.stream(message, context)) {
+        // Files the agent writes or deletes during this turn are snapshotted under the chat session
+        await checkpointStore.beginTurn(context?.workspacePath, context?.sessionId, streamId);
+
+        // The router picks the agent for the active provider and fails over when it keeps failing
+        for await (const streamEvent of agentRouter.stream(message, context)) {
+          if (streamEvent.type === 'usage' && streamEvent.usage) {
+            usageTracker.record(streamEvent.usage).catch(console.error);
+          }
+          if (streamEvent.type === 'done' || streamEvent.type === 'error') {
+            await sendFileChanges();
+          }
           if (mainWindow && !mainWindow.isDestroyed()) {
             mainWindow.webContents.send('agent:streamEvent', { streamId, event: streamEvent });
           }
         }
       } catch (error: any) {
+        await sendFileChanges().catch(console.error);
         if (mainWindow && !mainWindow.isDestroyed()) {
           mainWindow.webContents.send('agent:streamEvent', {
             streamId,
@@ -135,38 +191,66 @@ export function setupIpcHandlers(mainWindow?: BrowserWindow) {
           });
         }
       }
-    })();
+    });
 
     return { streamId };
   });
 
+  // The user's decision on a tool call that is waiting for confirmation
+  ipcMain.handle('agent:resolveToolCall', async (event, toolUseId: string, approval: ToolApproval) => {
+    toolApprovals.resolve(toolUseId, approval);
+    return { success: true };
+  });
+
+  // On-disk content of the file a write or edit tool targets, so the confirmation can show a diff
+  ipcMain.handle('agent:readToolTarget', async (event, workspacePath: string, filePath: string) => {
+    try {
+      const content = await workspaceFiles.readExisting(workspacePath, filePath);
+      return { success: true, exists: content !== null, content: content ?? '' };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Files and folders that can be attached to a message with a #mention
+  ipcMain.handle('attachments:list', async (event, workspacePath: string) => {
+    try {
+      return { success: true, items: await workspaceFiles.listAttachable(workspacePath) };
+    } catch (error: any) {
+      return { success: false, items: [], error: error.message };
+    }
+  });
+
+  // Content of #mentioned files and folders, checked against the same deny-list as the agent's file tools
+  ipcMain.handle('attachments:read', async (event, workspacePath: string, paths: string[]) => {
+    return await Promise.all(paths.map(attachmentPath => workspaceFiles.readAttachment(workspacePath, attachmentPath)));
+  });
+
   // Abort current agent request
   ipcMain.handle('agent:abort', async () => {
-    if (currentProvider !== 'ollama') {
-      strandsAgent.abort();
-    }
-    // Ollama agent doesn't have abort yet
+    agentRouter.abort();
     return { success: true };
   });
 
+  // Token usage and spend for the current month
+  ipcMain.handle('usage:getMonthly', async () => {
+    return await usageTracker.getMonthlyUsage();
+  });
+
   // Clear agent history
   ipcMain.handle('agent:clearHistory', async () => {
-    if (currentProvider === 'ollama') {
-      ollamaAgent.clearHistory();
-    } else {
-      strandsAgent.clearHistory();
-    }
+    await agentRouter.clearHistory();
     return { success: true };
   });
 
   // Get current todos
   ipcMain.handle('agent:getTodos', async () => {
-    return currentProvider === 'ollama' ? ollamaAgent.getTodos() : strandsAgent.getTodos();
+    return agentRouter.provider === 'ollama' ? ollamaAgent.getTodos() : strandsAgent.getTodos();
   });
 
   // Clear todos
   ipcMain.handle('agent:clearTodos', async () => {
-    if (currentProvider === 'ollama') {
+    if (agentRouter.provider === 'ollama') {
       ollamaAgent.clearTodos();
     } else {
       strandsAgent.clearTodos();
@@ -175,7 +259,111 @@ export function setupIpcHandlers(mainWindow?: BrowserWindow) {
   });
 
   // ============================================
-  // MCP HANDLERS (using Strands McpClient)
+  // CHAT SESSION HANDLERS
+  // ============================================
+
+  // List saved chat sessions for a workspace (newest first)
+  ipcMain.handle('session:list', async (event, workspacePath: string) => {
+    try {
+      return await sessionStore.list(workspacePath);
+    } catch (error: any) {
+      console.error('[SESSIONS] Error listing sessions:', error);
+      return [];
+    }
+  });
+
+  // Save the chat transcript together with the active agent's history
+  ipcMain.handle('session:save', async (
+    event,
+    workspacePath: string,
+    session: Pick<ChatSession, 'id' | 'messages'>
+  ) => {
+    try {
+      const agentHistory: AgentHistory = agentRouter.provider === 'ollama'
+        ? { format: 'ollama', messages: ollamaAgent.getHistory() }
+        : { format: 'strands', messages: strandsAgent.getHistory() };
+      const summary = await sessionStore.save(workspacePath, { ...session, agentHistory });
+      return { success: true, session: summary };
+    } catch (error: any) {
+      console.error('[SESSIONS] Error saving session:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Load a session and restore its history into the active agent
+  ipcMain.handle('session:resume', async (event, workspacePath: string, id: string) => {
+    try {
+      const session = await sessionStore.load(workspacePath, id);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      // Native history only fits the agent that produced it; otherwise rebuild from the transcript
+      const turns = getTranscriptTurns(session.messages);
+      if (agentRouter.provider === 'ollama') {
+        ollamaAgent.restoreHistory(session.agentHistory?.format === 'ollama'
+          ? session.agentHistory.messages
+          : turns);
+      } else {
+        strandsAgent.restoreHistory(session.agentHistory?.format === 'strands'
+          ? session.agentHistory.messages
+          : turns.map(turn => ({ role: turn.role, content: [{ text: turn.content }] })));
+      }
+
+      return { success: true, session };
+    } catch (error: any) {
+      console.error('[SESSIONS] Error resuming session:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle('session:rename', async (event, workspacePath: string, id: string, title: string) => {
+    try {
+      const summary = await sessionStore.rename(workspacePath, id, title);
+      return { success: true, session: summary };
+    } catch (error: any) {
+      console.error('[SESSIONS] Error renaming session:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle('session:delete', async (event, workspacePath: string, id: string) => {
+    try {
+      await sessionStore.delete(workspacePath, id);
+      await checkpointStore.deleteSession(workspacePath, id);
+      return { success: true };
+    } catch (error: any) {
+      console.error('[SESSIONS] Error deleting session:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Restore files from a turn's checkpoint - a single change, or the whole turn when changeId is omitted
+  ipcMain.handle('checkpoint:revert', async (
+    event,
+    workspacePath: string,
+    sessionId: string,
+    turnId: string,
+    changeId?: string,
+    force?: boolean
+  ) => {
+    try {
+      const changes = await checkpointStore.revert(workspacePath, sessionId, turnId, changeId, force);
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('fs:changed');
+      }
+      return { success: true, changes };
+    } catch (error: any) {
+      if (error instanceof CheckpointConflictError) {
+        return { success: false, error: error.message, conflicts: error.paths };
+      }
+      console.error('[CHECKPOINTS] Error reverting changes:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // ============================================
+  // MCP HANDLERS (shared MCP manager)
   // ============================================
 
   // Connect to MCP servers from workspace config
@@ -184,15 +372,14 @@ export function setupIpcHandlers(mainWindow?: BrowserWindow) {
       const mcpPath = path.join(workspacePath, '.mcp.json');
       const content = await fs.readFile(mcpPath, 'utf-8');
       const config = JSON.parse(content);
+      mcpManager.applyToolPolicy(config);
       
-      if (config?.mcpServers) {
-        const results = await strandsAgent.connectMCPServers(config.mcpServers);
-        return results;
-      }
-      
-      return {};
+      // Always go through connectMCPServers so servers from a previous workspace are closed
+      return await strandsAgent.connectMCPServers(config?.mcpServers || {}, workspacePath);
     } catch (error: any) {
       if (error.code === 'ENOENT') {
+        mcpManager.applyToolPolicy(null);
+        await strandsAgent.connectMCPServers({}, workspacePath);
         return {}; // No config file
       }
       console.error('Error connecting to MCP servers:', error);
@@ -200,21 +387,15 @@ export function setupIpcHandlers(mainWindow?: BrowserWindow) {
     }
   });
 
-  // Disconnect MCP servers (handled by agent reinitialization)
+  // Disconnect all MCP servers
   ipcMain.handle('mcp:disconnect', async () => {
-    // MCP clients are managed by the agent
+    await mcpManager.disconnectAll();
     return true;
   });
 
   // Get MCP connection status
   ipcMain.handle('mcp:getStatus', async () => {
-    // This will be updated when we have better MCP status tracking
-    return {
-      total: 0,
-      connected: 0,
-      hasErrors: false,
-      status: 'disconnected'
-    };
+    return mcpManager.getStatus();
   });
 
   // Open folder dialog
@@ -240,6 +421,39 @@ export function setupIpcHandlers(mainWindow?: BrowserWindow) {
     }
   });
 
+  // Full-text search for the search panel (the agent goes through workspaceFiles, which applies its deny-list)
+  ipcMain.handle('search:workspace', async (event, workspacePath: string, options: WorkspaceSearchOptions) => {
+    try {
+      const results = await workspaceSearch.search(workspacePath, options);
+      return { success: true, results };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Passages related to a chat message, for auto-attached context. Protected paths are left out
+  // because the passages are sent to the model.
+  ipcMain.handle('semantic:search', async (event, workspacePath: string, query: string, maxResults?: number) => {
+    try {
+      const results = await semanticIndex.search(workspacePath, query, maxResults, relativePath => workspaceFiles.isProtected(relativePath));
+      return { success: true, results };
+    } catch (error: any) {
+      console.error('[SEMANTIC] Search failed:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Embed every document in the workspace again
+  ipcMain.handle('semantic:rebuild', async (event, workspacePath: string) => {
+    try {
+      const status = await semanticIndex.rebuild(workspacePath, relativePath => workspaceFiles.isProtected(relativePath));
+      return { success: true, status };
+    } catch (error: any) {
+      console.error('[SEMANTIC] Rebuild failed:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
   // Read file content
   ipcMain.handle('fs:readFile', async (event, filePath: string) => {
     try {
@@ -502,7 +716,7 @@ export function setupIpcHandlers(mainWindow?: BrowserWindow) {
   };
 
   // List available Ollama models (filtered to tool-capable only)
-  ipcMain.handle('ollama:list-models', async (event, baseUrl?: string) => {
+  const listOllamaModels = async (baseUrl?: string) => {
     try {
       const ollama = await createOllamaClient(baseUrl);
       const response = await ollama.list();
@@ -525,10 +739,9 @@ export function setupIpcHandlers(mainWindow?: BrowserWindow) {
       console.error('Error listing Ollama models:', error);
       return { success: false, error: error.message, models: [] };
     }
-  });
+  };
 
-  // Check Ollama connection status
-  ipcMain.handle('ollama:check-connection', async (event, baseUrl?: string) => {
+  const checkOllamaConnection = async (baseUrl?: string) => {
     try {
       const ollama = await createOllamaClient(baseUrl);
       // Use list() to verify connection - will throw if Ollama not running
@@ -537,6 +750,28 @@ export function setupIpcHandlers(mainWindow?: BrowserWindow) {
     } catch (error: any) {
       return { success: false, error: error.message };
     }
+  };
+
+  ipcMain.handle('ollama:list-models', async (event, baseUrl?: string) => listOllamaModels(baseUrl));
+
+  // Check Ollama connection status
+  ipcMain.handle('ollama:check-connection', async (event, baseUrl?: string) => checkOllamaConnection(baseUrl));
+
+  // Validate credentials and model access for the selected provider (settings may be unsaved)
+  ipcMain.handle('provider:test', async (event, settings: AppSettings) => {
+    if (settings.aiProvider === 'ollama') {
+      const result = await checkOllamaConnection(settings.ollamaBaseUrl);
+      return result.success ? { success: true, message: 'Ollama is running.' } : result;
+    }
+    return testProviderConnection(settings);
+  });
+
+  // List the models available to the selected provider's credentials
+  ipcMain.handle('provider:listModels', async (event, settings: AppSettings) => {
+    if (settings.aiProvider === 'ollama') {
+      return listOllamaModels(settings.ollamaBaseUrl);
+    }
+    return listProviderModels(settings);
   });
 
   // Open Ollama download page
@@ -589,122 +824,160 @@ export function setupIpcHandlers(mainWindow?: BrowserWindow) {
     }
   });
 
+  // ============================================
+  // EDITOR AI ACTIONS
+  // ============================================
+
+  // Rewrite the editor selection; the editor shows the result as a diff for the user to accept
+  ipcMain.handle('editor:selectionAction', async (event, actionId: string, context: SelectionContext) => {
+    try {
+      const action = getSelectionAction(actionId);
+      if (!action) {
+        throw new Error(`Unknown editor action: ${actionId}`);
+      }
+
+      console.log(`[EDITOR] ${action.label}: ${context.text.length} chars in ${context.fileName}`);
+      const response = await agentRouter.complete(buildSelectionActionPrompt(action, context), SELECTION_ACTION_SYSTEM_PROMPT);
+      const text = cleanSelectionActionResult(response, context.text);
+      if (!text.trim()) {
+        throw new Error('The model returned an empty response');
+      }
+      return { success: true, text };
+    } catch (error: any) {
+      console.error('Error running editor action:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Ghost-text suggestion at the editor cursor
+  ipcMain.handle('editor:inlineCompletion', async (event, requestId: number, request: InlineCompletionRequest) => {
+    try {
+      return { success: true, text: await inlineCompletions.complete(requestId, request) };
+    } catch (error: any) {
+      console.error('Error getting inline completion:', error.message);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // The editor moved on (more typing, cursor moved) before the suggestion arrived
+  ipcMain.handle('editor:cancelInlineCompletion', async (event, requestId: number) => {
+    inlineCompletions.cancel(requestId);
+    return { success: true };
+  });
+
   // ============================================
   // STAKEHOLDER SIMULATOR
   // ============================================
   
-  // Simulate stakeholder review of a PRD using Strands Agent
+  // Simulate stakeholder review of a PRD; each review is sent to the renderer as soon as it is done
   ipcMain.handle('simulator:run', async (
     event,
+    runId: string,
     prdContent: string,
-    stakeholders: { id: string; name: string; role: string }[]
+    stakeholders: Stakeholder[],
+    concurrency?: number
   ) => {
     try {
-      const { buildSimulationPrompt, getStakeholderPrompt } = await import('../shared/stakeholder-simulator');
+      const { result, cancelled } = await simulationRunner.run(runId, prdContent, stakeholders, {
+        onFeedback: (feedback) => {
+          if (mainWindow && !mainWindow.isDestroyed()) {
+            mainWindow.webContents.send('simulator:feedback', { runId, feedback });
+          }
+        },
+        onProgress: (progress) => {
+          if (mainWindow && !mainWindow.isDestroyed()) {
+            mainWindow.webContents.send('simulator:progress', progress);
+          }
+        },
+      }, concurrency);
 
-      const feedback: any[] = [];
+      return { success: true, result, cancelled };
+    } catch (error: any) {
+      console.error('Error running simulation:', error);
+      return { success: false, error: error.message };
+    }
+  });
 
-      for (let i = 0; i < stakeholders.length; i++) {
-        const stakeholder = stakeholders[i];
+  // Simulate a review meeting: opening reviews, discussion rounds and a moderator's summary.
+  // Reviews and each stakeholder's turn are sent to the renderer as they come in.
+  ipcMain.handle('simulator:meeting', async (
+    event,
+    runId: string,
+    prdContent: string,
+    stakeholders: Stakeholder[],
+    rounds: number,
+    concurrency?: number
+  ) => {
+    const send = (channel: string, data: any) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send(channel, data);
+      }
+    };
 
-        // Send progress update
-        if (mainWindow && !mainWindow.isDestroyed()) {
-          mainWindow.webContents.send('simulator:progress', {
-            current: i + 1,
-            total: stakeholders.length,
-            stakeholder: stakeholder.name,
-            status: 'reviewing'
-          });
-        }
+    try {
+      const { result, cancelled } = await simulationRunner.runMeeting(runId, prdContent, stakeholders, rounds, {
+        onFeedback: (feedback) => send('simulator:feedback', { runId, feedback }),
+        onTurn: (turn) => send('simulator:turn', { runId, turn }),
+        onProgress: (progress) => send('simulator:progress', progress),
+      }, concurrency);
 
-        try {
-          const prompt = buildSimulationPrompt(stakeholder, prdContent);
-          
-          // Use Strands agent for consistent AI calls across all providers
-          const responseContent = await strandsAgent.simpleCompletion(prompt);
-
-          // Parse JSON response - try to extract JSON from response
-          let parsed;
-          try {
-            // Try direct parse first
-            parsed = JSON.parse(responseContent);
-          } catch {
-            // Try to find JSON in the response
-            const jsonMatch = responseContent.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-              try {
-                parsed = JSON.parse(jsonMatch[0]);
-              } catch {
-                parsed = null;
-              }
-            }
-          }
+      return { success: true, result, cancelled };
+    } catch (error: any) {
+      console.error('Error running review meeting:', error);
+      return { success: false, error: error.message };
+    }
+  });
 
-          if (!parsed) {
-            parsed = {
-              blockers: [],
-              concerns: [`Could not parse response from ${stakeholder.name}`],
-              questions: [],
-              suggestions: [],
-              verdict: 'concerns'
-            };
-          }
+  // Stop a running simulation; the reviews received so far are kept
+  ipcMain.handle('simulator:cancel', async (event, runId: string) => {
+    simulationRunner.cancel(runId);
+    return { success: true };
+  });
 
-          // Get emoji for this role
-          const { emoji } = getStakeholderPrompt(stakeholder);
-
-          feedback.push({
-            stakeholderId: stakeholder.id,
-            stakeholderName: stakeholder.name,
-            stakeholderRole: stakeholder.role,
-            emoji,
-            blockers: parsed.blockers || [],
-            concerns: parsed.concerns || [],
-            questions: parsed.questions || [],
-            suggestions: parsed.suggestions || [],
-            verdict: parsed.verdict || 'concerns'
-          });
+  // Saved simulation runs of a document (newest first), with the hash of its current text
+  // so the panel can tell which runs reviewed the version that is open
+  ipcMain.handle('simulationHistory:list', async (event, workspacePath: string, documentPath: string, content: string) => {
+    try {
+      const runs = await simulationHistory.list(workspacePath, documentPath);
+      return { success: true, runs, currentHash: hashContent(content) };
+    } catch (error: any) {
+      console.error('[SIMULATOR] Error listing saved runs:', error);
+      return { success: false, error: error.message };
+    }
+  });
 
-        } catch (error: any) {
-          console.error(`Error simulating ${stakeholder.name}:`, error);
-          feedback.push({
-            stakeholderId: stakeholder.id,
-            stakeholderName: stakeholder.name,
-            stakeholderRole: stakeholder.role,
-            emoji: '❌',
-            blockers: [],
-            concerns: [`Simulation failed: ${error.message}`],
-            questions: [],
-            suggestions: [],
-            verdict: 'concerns'
-          });
-        }
-      }
+  ipcMain.handle('simulationHistory:load', async (event, workspacePath: string, documentPath: string, id: string) => {
+    try {
+      const run = await simulationHistory.load(workspacePath, documentPath, id);
+      return run ? { success: true, run } : { success: false, error: 'Run not found' };
+    } catch (error: any) {
+      console.error('[SIMULATOR] Error loading saved run:', error);
+      return { success: false, error: error.message };
+    }
+  });
 
-      // Calculate summary
-      const totalBlockers = feedback.reduce((sum, f) => sum + f.blockers.length, 0);
-      const totalConcerns = feedback.reduce((sum, f) => sum + f.concerns.length, 0);
-      const hasBlocker = feedback.some(f => f.verdict === 'block');
-
-      let riskLevel: 'low' | 'medium' | 'high' = 'low';
-      if (hasBlocker || totalBlockers > 0) riskLevel = 'high';
-      else if (totalConcerns > 3) riskLevel = 'medium';
-
-      return {
-        success: true,
-        result: {
-          feedback,
-          summary: {
-            totalBlockers,
-            totalConcerns,
-            readyForReview: totalBlockers === 0 && !hasBlocker,
-            riskLevel
-          }
-        }
-      };
-      
+  ipcMain.handle('simulationHistory:save', async (
+    event,
+    workspacePath: string,
+    documentPath: string,
+    prdContent: string,
+    run: Pick<SimulationRun, 'id' | 'stakeholders' | 'result' | 'cancelled'>
+  ) => {
+    try {
+      const summary = await simulationHistory.save(workspacePath, documentPath, prdContent, run);
+      return { success: true, run: summary };
     } catch (error: any) {
-      console.error('Error running simulation:', error);
+      console.error('[SIMULATOR] Error saving run:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle('simulationHistory:delete', async (event, workspacePath: string, documentPath: string, id: string) => {
+    try {
+      await simulationHistory.delete(workspacePath, documentPath, id);
+      return { success: true };
+    } catch (error: any) {
+      console.error('[SIMULATOR] Error deleting saved run:', error);
       return { success: false, error: error.message };
     }
   });
@@ -764,6 +1037,9 @@ export function setupIpcHandlers(mainWindow?: BrowserWindow) {
         console.log(`[WATCHER] File ${eventType}: ${filename}`);
         console.log(`[WATCHER] Sending fs:changed event to renderer`);
         notifyFileChange(mainWindow || null);
+        if (filename) {
+          semanticIndex.notifyChanged(dirPath, filename);
+        }
       });
 
       currentWatcher.on('error', (error) => {
@@ -920,6 +1196,8 @@ export function setupIpcHandlers(mainWindow?: BrowserWindow) {
     try {
       const mcpPath = path.join(workspacePath, '.mcp.json');
       await fs.writeFile(mcpPath, JSON.stringify(config, null, 2), 'utf-8');
+      // Tool policy (autoApprove/disabledTools) takes effect immediately
+      mcpManager.applyToolPolicy(config);
       return true;
     } catch (error) {
       console.error('Error writing MCP config:', error);
@@ -927,41 +1205,42 @@ export function setupIpcHandlers(mainWindow?: BrowserWindow) {
     }
   });
 
-  // Get all connected MCP servers and their tools (stub for compatibility)
+  // Get all MCP servers and their tools
   ipcMain.handle('mcp:getConnections', async () => {
-    // MCP connections are now managed by the Strands agent
-    return [];
+    return mcpManager.getConnections();
   });
 
   // Reconnect a single MCP server
   ipcMain.handle('mcp:reconnect', async (event, workspacePath: string, serverName: string) => {
-    // Reconnect all servers via the agent
     try {
       const mcpPath = path.join(workspacePath, '.mcp.json');
       const content = await fs.readFile(mcpPath, 'utf-8');
       const config = JSON.parse(content);
+      const serverConfig = config?.mcpServers?.[serverName];
       
-      if (config?.mcpServers) {
-        const results = await strandsAgent.connectMCPServers(config.mcpServers);
-        return results[serverName] || { name: serverName, status: 'error', tools: [], error: 'Server not found' };
+      if (serverConfig) {
+        return await strandsAgent.reconnectMCPServer(serverName, serverConfig);
       }
       
-      return { name: serverName, status: 'error', tools: [], error: 'No MCP config found' };
+      return { name: serverName, status: 'error', tools: [], error: 'Server not found' };
     } catch (error: any) {
       return { name: serverName, status: 'error', tools: [], error: error.message };
     }
   });
 
-  // Get all available tools from all connected servers (stub for compatibility)
+  // Get all available tools from all connected servers
   ipcMain.handle('mcp:getTools', async () => {
-    // Tools are now managed by the Strands agent internally
-    return [];
+    return mcpManager.getTools();
   });
 
-  // Call an MCP tool (stub - tools are called automatically by the agent)
+  // Call an MCP tool directly
   ipcMain.handle('mcp:callTool', async (event, serverName: string, toolName: string, args: Record<string, any>) => {
-    // MCP tools are now called automatically by the Strands agent during streaming
-    return { success: false, error: 'MCP tools are now called automatically by the agent' };
+    try {
+      const result = await mcpManager.callTool(serverName, toolName, args);
+      return { success: !result.isError, result: formatMCPToolResult(result), raw: result };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
   });
 }
 
@@ -3,6 +3,7 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { setupIpcHandlers } from './ipc-handlers';
 import { createMenu } from './menu';
+import { mcpManager } from './mcp-manager';
 
 let mainWindow: BrowserWindow | null = null;
 
@@ -100,6 +101,11 @@ app.whenReady().then(() => {
   });
 });
 
+// Stop MCP server processes so they don't outlive the app
+app.on('before-quit', () => {
+  mcpManager.disconnectAll().catch(console.error);
+});
+
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit();
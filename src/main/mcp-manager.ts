@@ -0,0 +1,463 @@
+import { EventEmitter } from 'events';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ToolPolicy,
+  DEFAULT_AUTO_APPROVE_TOOLS,
+  isToolAutoApproved,
+  isToolDisabled,
+} from '../shared/tool-policy';
+
+// Server entry as written in the workspace .mcp.json
+export interface MCPServerConfig extends ToolPolicy {
+  type?: 'stdio' | 'sse' | 'http' | 'streamable-http';
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+  headers?: Record<string, string>;
+  disabled?: boolean;
+}
+
+// Whole .mcp.json file
+export interface MCPConfigFile {
+  mcpServers?: Record<string, MCPServerConfig>;
+  builtInTools?: ToolPolicy;
+}
+
+export interface MCPToolInfo {
+  serverName: string;
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>;
+}
+
+export type MCPServerStatus = 'starting' | 'connected' | 'crashed' | 'disabled' | 'error';
+
+export interface MCPServerResult {
+  name: string;
+  status: MCPServerStatus;
+  tools: MCPToolInfo[];
+  error?: string;
+  restartAttempts?: number;
+}
+
+// Aggregate status used by the sidebar badge and status bar
+export interface MCPStatusSummary {
+  total: number;
+  connected: number;
+  hasErrors: boolean;
+  status: 'connected' | 'disconnected' | 'error' | 'loading';
+}
+
+// Log line forwarded to the terminal panel on the mcp:log channel
+export interface MCPLogEntry {
+  serverName: string;
+  type: 'stdout' | 'stderr' | 'info' | 'error';
+  message: string;
+}
+
+interface MCPConnection {
+  name: string;
+  config: MCPServerConfig;
+  client: Client | null;
+  status: MCPServerStatus;
+  tools: MCPToolInfo[];
+  error?: string;
+  // True once we asked the server to stop, so onclose isn't treated as a crash
+  closing: boolean;
+  restartAttempts: number;
+  restartTimer: NodeJS.Timeout | null;
+}
+
+// Prefix used for MCP tools exposed to the agents (mcp_<server>_<tool>)
+export const MCP_TOOL_PREFIX = 'mcp_';
+
+// Crashed stdio servers are restarted with exponential backoff
+const MAX_RESTART_ATTEMPTS = 5;
+const RESTART_BASE_DELAY_MS = 1000;
+const RESTART_MAX_DELAY_MS = 30000;
+
+// Build the agent-facing tool name. Server names are sanitized so the
+// first "_" after the prefix always separates server from tool, and the
+// result stays within the 64 char limit enforced by Bedrock/OpenAI.
+export const getMCPToolName = (serverName: string, toolName: string): string => {
+  const safeServer = serverName.replace(/[^a-zA-Z0-9-]/g, '-');
+  const safeTool = toolName.replace(/[^a-zA-Z0-9_-]/g, '_');
+  return `${MCP_TOOL_PREFIX}${safeServer}_${safeTool}`.substring(0, 64);
+};
+
+// Flatten an MCP CallToolResult into plain text for the model
+export const formatMCPToolResult = (result: any): string => {
+  const content: any[] = Array.isArray(result?.content) ? result.content : [];
+  const text = content.map(item => {
+    if (item.type === 'text') return item.text;
+    if (item.type === 'resource' && item.resource?.text) return item.resource.text;
+    return JSON.stringify(item);
+  }).join('\n');
+
+  if (result?.isError) {
+    return `Error: ${text || 'MCP tool returned an error'}`;
+  }
+  return text || 'Tool execution completed successfully with no output.';
+};
+
+const isStdio = (config: MCPServerConfig) => (config.type || (config.url ? undefined : 'stdio')) === 'stdio';
+
+export class MCPManager extends EventEmitter {
+  private connections = new Map<string, MCPConnection>();
+  private workspacePath: string | null = null;
+  private builtInPolicy: ToolPolicy = {};
+  // Serializes connect/disconnect so overlapping calls never orphan a server process
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Connect every server in the config, replacing any previous connections
+  connectAll(
+    mcpConfigs: Record<string, MCPServerConfig>,
+    workspacePath?: string | null
+  ): Promise<Record<string, MCPServerResult>> {
+    return this.enqueue(async () => {
+      if (workspacePath !== undefined) {
+        this.workspacePath = workspacePath;
+      }
+
+      await this.closeAll();
+
+      const entries = Object.entries(mcpConfigs || {});
+      for (const [name, config] of entries) {
+        this.connections.set(name, this.createConnection(name, config));
+      }
+      this.emitStatus();
+
+      await Promise.all(entries.map(([name]) => this.startServer(this.connections.get(name)!)));
+
+      const results: Record<string, MCPServerResult> = {};
+      for (const [name] of entries) {
+        results[name] = this.toResult(this.connections.get(name)!);
+      }
+
+      this.emit('toolsChanged', this.getTools());
+      return results;
+    });
+  }
+
+  // Reconnect a single server with (possibly updated) config
+  reconnect(name: string, config: MCPServerConfig): Promise<MCPServerResult> {
+    return this.enqueue(async () => {
+      await this.disconnectServer(name);
+      const connection = this.createConnection(name, config);
+      this.connections.set(name, connection);
+      await this.startServer(connection);
+      this.emit('toolsChanged', this.getTools());
+      return this.toResult(connection);
+    });
+  }
+
+  disconnectAll(): Promise<void> {
+    return this.enqueue(async () => {
+      await this.closeAll();
+      this.emitStatus();
+      this.emit('toolsChanged', this.getTools());
+    });
+  }
+
+  getConnections(): MCPServerResult[] {
+    return Array.from(this.connections.values()).map(c => this.toResult(c));
+  }
+
+  getStatus(): MCPStatusSummary {
+    const active = Array.from(this.connections.values()).filter(c => c.status !== 'disabled');
+    const connected = active.filter(c => c.status === 'connected').length;
+    const hasErrors = active.some(c => c.status === 'error' || c.status === 'crashed');
+
+    let status: MCPStatusSummary['status'] = 'disconnected';
+    if (active.some(c => c.status === 'starting')) status = 'loading';
+    else if (hasErrors) status = 'error';
+    else if (connected > 0) status = 'connected';
+
+    return { total: active.length, connected, hasErrors, status };
+  }
+
+  // Apply autoApprove/disabledTools from .mcp.json without reconnecting servers
+  applyToolPolicy(config: MCPConfigFile | null) {
+    this.builtInPolicy = config?.builtInTools || {};
+    for (const [name, serverConfig] of Object.entries(config?.mcpServers || {})) {
+      const connection = this.connections.get(name);
+      if (connection) {
+        connection.config = {
+          ...connection.config,
+          autoApprove: serverConfig.autoApprove,
+          disabledTools: serverConfig.disabledTools,
+        };
+      }
+    }
+    this.emit('toolsChanged', this.getTools());
+  }
+
+  isBuiltInToolEnabled(toolName: string): boolean {
+    return !isToolDisabled(this.builtInPolicy, toolName);
+  }
+
+  // Whether a built-in or MCP tool (by agent-facing name) needs user confirmation
+  requiresConfirmation(agentToolName: string): boolean {
+    const mcpTool = this.findTool(agentToolName);
+    if (mcpTool) {
+      const connection = this.connections.get(mcpTool.serverName);
+      return !isToolAutoApproved(connection?.config, mcpTool.name);
+    }
+    return !isToolAutoApproved(this.builtInPolicy, agentToolName, DEFAULT_AUTO_APPROVE_TOOLS);
+  }
+
+  // All enabled tools from connected servers
+  getTools(): MCPToolInfo[] {
+    const tools: MCPToolInfo[] = [];
+    for (const connection of this.connections.values()) {
+      if (connection.status === 'connected') {
+        tools.push(...connection.tools.filter(t => !isToolDisabled(connection.config, t.name)));
+      }
+    }
+    return tools;
+  }
+
+  // Find a tool by its agent-facing name (mcp_<server>_<tool>)
+  findTool(agentToolName: string): MCPToolInfo | undefined {
+    return this.getTools().find(t => getMCPToolName(t.serverName, t.name) === agentToolName);
+  }
+
+  async callTool(serverName: string, toolName: string, args: Record<string, any>): Promise<any> {
+    const connection = this.connections.get(serverName);
+    if (!connection || !connection.client || connection.status !== 'connected') {
+      throw new Error(`MCP server "${serverName}" is not connected`);
+    }
+
+    console.log(`[MCP] Calling ${serverName}/${toolName}`);
+    return await connection.client.callTool({ name: toolName, arguments: args || {} });
+  }
+
+  private createConnection(name: string, config: MCPServerConfig): MCPConnection {
+    return {
+      name,
+      config,
+      client: null,
+      status: config.disabled ? 'disabled' : 'starting',
+      tools: [],
+      closing: false,
+      restartAttempts: 0,
+      restartTimer: null,
+    };
+  }
+
+  private async startServer(connection: MCPConnection): Promise<void> {
+    if (connection.config.disabled) {
+      this.setStatus(connection, 'disabled');
+      return;
+    }
+
+    this.setStatus(connection, 'starting');
+    this.log(connection.name, 'info', 'Starting server...');
+
+    let client: Client | null = null;
+    try {
+      client = await this.openClient(connection.name, connection.config);
+
+      // A disconnect may have happened while we were connecting
+      if (connection.closing) {
+        await client.close().catch(() => {});
+        return;
+      }
+
+      const { tools } = await client.listTools();
+      connection.client = client;
+      connection.tools = tools.map(t => ({
+        serverName: connection.name,
+        name: t.name,
+        description: t.description || '',
+        inputSchema: (t.inputSchema as Record<string, any>) || { type: 'object', properties: {} },
+      }));
+      connection.error = undefined;
+      connection.restartAttempts = 0;
+      client.onclose = () => this.handleClose(connection, client!);
+
+      this.setStatus(connection, 'connected');
+      this.log(connection.name, 'info', `Connected (${connection.tools.length} tools)`);
+    } catch (error: any) {
+      console.error(`[MCP] Failed to connect to ${connection.name}:`, error);
+      connection.client = null;
+      connection.error = error.message || String(error);
+      if (client) {
+        await client.close().catch(() => {});
+      }
+      this.log(connection.name, 'error', `Failed to connect: ${connection.error}`);
+
+      // A failed restart of a crashed server keeps backing off
+      if (connection.restartAttempts > 0) {
+        this.scheduleRestart(connection);
+      } else {
+        this.setStatus(connection, 'error');
+      }
+    }
+  }
+
+  // Transport closed without us asking: the server died or the connection dropped
+  private handleClose(connection: MCPConnection, client: Client) {
+    if (connection.closing || connection.client !== client) return;
+
+    connection.client = null;
+    connection.tools = [];
+    connection.error = 'Server process exited unexpectedly';
+    this.log(connection.name, 'error', 'Connection closed unexpectedly');
+    this.emit('toolsChanged', this.getTools());
+
+    if (isStdio(connection.config)) {
+      this.scheduleRestart(connection);
+    } else {
+      connection.error = 'Connection closed';
+      this.setStatus(connection, 'error');
+    }
+  }
+
+  private scheduleRestart(connection: MCPConnection) {
+    if (connection.restartAttempts >= MAX_RESTART_ATTEMPTS) {
+      connection.error = `Server crashed and failed to restart after ${MAX_RESTART_ATTEMPTS} attempts`;
+      this.setStatus(connection, 'crashed');
+      this.log(connection.name, 'error', connection.error);
+      return;
+    }
+
+    const delay = Math.min(RESTART_BASE_DELAY_MS * 2 ** connection.restartAttempts, RESTART_MAX_DELAY_MS);
+    connection.restartAttempts++;
+    this.setStatus(connection, 'crashed');
+    this.log(
+      connection.name,
+      'info',
+      `Restarting in ${Math.round(delay / 1000)}s (attempt ${connection.restartAttempts}/${MAX_RESTART_ATTEMPTS})`
+    );
+
+    connection.restartTimer = setTimeout(() => {
+      connection.restartTimer = null;
+      this.enqueue(async () => {
+        // Skip if the server was removed or replaced in the meantime
+        if (connection.closing || this.connections.get(connection.name) !== connection) return;
+        await this.startServer(connection);
+        this.emit('toolsChanged', this.getTools());
+      });
+    }, delay);
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private async closeAll(): Promise<void> {
+    const names = Array.from(this.connections.keys());
+    await Promise.all(names.map(name => this.disconnectServer(name)));
+  }
+
+  private async disconnectServer(name: string): Promise<void> {
+    const connection = this.connections.get(name);
+    if (!connection) return;
+
+    connection.closing = true;
+    if (connection.restartTimer) {
+      clearTimeout(connection.restartTimer);
+      connection.restartTimer = null;
+    }
+
+    this.connections.delete(name);
+    if (connection.client) {
+      try {
+        await connection.client.close();
+        this.log(name, 'info', 'Stopped');
+      } catch (error) {
+        console.error(`[MCP] Error closing ${name}:`, error);
+      }
+      connection.client = null;
+    }
+  }
+
+  // Create a client and connect it over the transport matching the config
+  private async openClient(name: string, config: MCPServerConfig): Promise<Client> {
+    const type = config.type || (config.url ? undefined : 'stdio');
+
+    if (type === 'stdio') {
+      if (!config.command) {
+        throw new Error('stdio server requires a "command"');
+      }
+      const transport = new StdioClientTransport({
+        command: config.command,
+        args: config.args || [],
+        env: { ...getDefaultEnvironment(), ...(config.env || {}) },
+        cwd: config.cwd || this.workspacePath || undefined,
+        stderr: 'pipe',
+      });
+      transport.stderr?.on('data', (chunk: Buffer) => {
+        for (const line of chunk.toString().split(/\r?\n/)) {
+          if (line.trim()) this.log(name, 'stderr', line);
+        }
+      });
+      return await this.connectClient(transport);
+    }
+
+    if (!config.url) {
+      throw new Error(`${type} server requires a "url"`);
+    }
+
+    const url = new URL(config.url);
+    const requestInit = config.headers ? { headers: config.headers } : undefined;
+
+    if (type === 'sse') {
+      return await this.connectClient(new SSEClientTransport(url, { requestInit }));
+    }
+
+    if (type === 'http' || type === 'streamable-http') {
+      return await this.connectClient(new StreamableHTTPClientTransport(url, { requestInit }));
+    }
+
+    // No explicit type: try Streamable HTTP first, then fall back to legacy SSE
+    try {
+      return await this.connectClient(new StreamableHTTPClientTransport(url, { requestInit }));
+    } catch (error) {
+      this.log(name, 'info', 'Streamable HTTP failed, falling back to SSE');
+      return await this.connectClient(new SSEClientTransport(url, { requestInit }));
+    }
+  }
+
+  private async connectClient(transport: Transport): Promise<Client> {
+    const client = new Client({ name: 'collie', version: '0.1.0' });
+    await client.connect(transport);
+    return client;
+  }
+
+  private setStatus(connection: MCPConnection, status: MCPServerStatus) {
+    connection.status = status;
+    this.emitStatus();
+  }
+
+  private emitStatus() {
+    this.emit('statusChanged', this.getStatus(), this.getConnections());
+  }
+
+  private log(serverName: string, type: MCPLogEntry['type'], message: string) {
+    console.log(`[MCP:${serverName}] ${message}`);
+    this.emit('log', { serverName, type, message } as MCPLogEntry);
+  }
+
+  private toResult(connection: MCPConnection): MCPServerResult {
+    return {
+      name: connection.name,
+      status: connection.status,
+      tools: connection.tools,
+      error: connection.error,
+      restartAttempts: connection.restartAttempts,
+    };
+  }
+}
+
+// Singleton instance shared by both agent services
+export const mcpManager = new MCPManager();
@@ -1,8 +1,12 @@
 import { EventEmitter } from 'events';
-import * as fs from 'fs/promises';
-import * as path from 'path';
 import { app } from 'electron';
-import { TodoItem } from '../shared/types';
+import { randomUUID } from 'crypto';
+import { TodoItem, TokenUsage } from '../shared/types';
+import { mcpManager, MCPToolInfo, getMCPToolName, formatMCPToolResult } from './mcp-manager';
+import { compactHistory, clipText, CompactionResult, SUMMARY_PREFIX } from './context-manager';
+import { isTransientError } from './provider-service';
+import { workspaceFiles } from './workspace-files';
+import { toolApprovals, FILE_CHANGE_TOOLS, REJECTED_CHANGE_MESSAGE, REJECTED_DELETE_MESSAGE, REJECTED_TOOL_MESSAGE } from './tool-approvals';
 
 // Import ollama dynamically to avoid webpack issues
 let Ollama: any = null;
@@ -17,14 +21,18 @@ export interface OllamaAgentConfig {
   modelId: string;
   baseUrl: string;
   systemPrompt: string;
+  contextBudget?: number; // Also used as the model context window (num_ctx)
 }
 
 export interface OllamaStreamEvent {
-  type: 'text' | 'thinking' | 'tool_use' | 'tool_result' | 'error' | 'done';
+  type: 'text' | 'thinking' | 'tool_use' | 'tool_result' | 'context_compacted' | 'usage' | 'error' | 'done';
   data?: string;
   toolName?: string;
   toolInput?: Record<string, any>;
   toolUseId?: string;
+  requiresConfirmation?: boolean;
+  usage?: TokenUsage;
+  transient?: boolean; // Error is worth retrying
 }
 
 // Models that support the 'think' parameter for extended reasoning
@@ -35,11 +43,17 @@ const THINKING_CAPABLE_MODELS = [
 ];
 
 // Check if a model supports thinking mode
-const supportsThinking = (modelId: string): boolean => {
+export const supportsThinking = (modelId: string): boolean => {
   const lowerModel = modelId.toLowerCase();
   return THINKING_CAPABLE_MODELS.some(pattern => lowerModel.startsWith(pattern));
 };
 
+// Fetch for an Ollama client whose requests stop when the signal aborts. The client's own
+// abort() only reaches streams that have started, not requests still waiting for a response.
+export const abortableFetch = (signal: AbortSignal) =>
+  (input: RequestInfo | URL, init?: RequestInit) =>
+    fetch(input, { ...init, signal: init?.signal ? AbortSignal.any([init.signal, signal]) : signal });
+
 // Define tools in Ollama format - using simple parameter names for better model compatibility
 const OLLAMA_TOOLS = [
   {
@@ -69,6 +83,39 @@ const OLLAMA_TOOLS = [
       }
     }
   },
+  {
+    type: 'function',
+    function: {
+      name: 'search_workspace',
+      description: 'Search the text of all workspace files (like grep). Use it to find which files mention something.',
+      parameters: {
+        type: 'object',
+        required: ['query'],
+        properties: {
+          query: { type: 'string', description: 'Text to find (or a regex if is_regex is true)' },
+          is_regex: { type: 'boolean', description: 'Treat query as a regular expression' },
+          include: { type: 'string', description: 'Comma-separated file globs to search, e.g. "*.md,docs/**"' },
+          max_results: { type: 'number', description: 'Maximum matching lines (default 100)' },
+          context_lines: { type: 'number', description: 'Lines of context around each match (0-5)' }
+        }
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'semantic_search',
+      description: 'Find document sections related in meaning to a topic, even with different wording. Returns file, heading and text.',
+      parameters: {
+        type: 'object',
+        required: ['query'],
+        properties: {
+          query: { type: 'string', description: 'What to look for, in natural language' },
+          max_results: { type: 'number', description: 'Number of passages (default 5)' }
+        }
+      }
+    }
+  },
   {
     type: 'function',
     function: {
@@ -84,6 +131,40 @@ const OLLAMA_TOOLS = [
       }
     }
   },
+  {
+    type: 'function',
+    function: {
+      name: 'edit_file',
+      description: 'Change part of an existing file by replacing exact text. Use this instead of write_file for small changes. old_text must match exactly once.',
+      parameters: {
+        type: 'object',
+        required: ['path', 'old_text', 'new_text'],
+        properties: {
+          path: { type: 'string', description: 'File path to edit' },
+          old_text: { type: 'string', description: 'Exact text from the file to replace' },
+          new_text: { type: 'string', description: 'Replacement text (empty to delete)' },
+          replace_all: { type: 'boolean', description: 'Replace every match instead of exactly one' }
+        }
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'edit_markdown_section',
+      description: 'Change one section of a markdown file by its heading. mode "replace" swaps the section body, "insert" adds under the heading, "append" adds at the end of the section.',
+      parameters: {
+        type: 'object',
+        required: ['path', 'heading', 'mode', 'content'],
+        properties: {
+          path: { type: 'string', description: 'Markdown file path' },
+          heading: { type: 'string', description: 'Heading text without #, nested as "Parent > Child"' },
+          mode: { type: 'string', enum: ['replace', 'insert', 'append'], description: 'How to apply the content' },
+          content: { type: 'string', description: 'Markdown for the section, without the heading line' }
+        }
+      }
+    }
+  },
   {
     type: 'function',
     function: {
@@ -114,12 +195,31 @@ const OLLAMA_TOOLS = [
   }
 ];
 
+// Convert an MCP tool into an Ollama function schema
+const toOllamaTool = (mcpTool: MCPToolInfo) => ({
+  type: 'function',
+  function: {
+    name: getMCPToolName(mcpTool.serverName, mcpTool.name),
+    description: `[MCP: ${mcpTool.serverName}] ${mcpTool.description}`,
+    parameters: {
+      type: 'object',
+      properties: {},
+      ...mcpTool.inputSchema,
+    }
+  }
+});
+
 export class OllamaAgentService extends EventEmitter {
   private client: any = null;
   private config: OllamaAgentConfig | null = null;
   private workspacePath: string | null = null;
   private messages: any[] = [];
   private todos: TodoItem[] = [];
+  // Aborts the current request's chat calls, including one still waiting for the model to load
+  private streamController: AbortController | null = null;
+  private aborted = false;
+  // History length when the current attempt started, so a retry only drops what that attempt added
+  private attemptStart = 0;
 
   setWorkspacePath(workspacePath: string | null) {
     this.workspacePath = workspacePath;
@@ -141,9 +241,11 @@ export class OllamaAgentService extends EventEmitter {
     console.log('[OLLAMA-AGENT] Initialized successfully');
   }
 
+  // With resume, a turn that failed after the user message was added is continued instead of sent again
   async *stream(
     message: string,
-    context?: { workspacePath?: string; currentFile?: string }
+    context?: { workspacePath?: string; currentFile?: string },
+    resume: boolean = false
   ): AsyncGenerator<OllamaStreamEvent> {
     if (!this.client || !this.config) {
       yield { type: 'error', data: 'Ollama agent not initialized' };
@@ -167,15 +269,37 @@ export class OllamaAgentService extends EventEmitter {
     }
 
     const fullMessage = contextPrefix + message;
-    this.messages.push({ role: 'user', content: fullMessage });
+    this.aborted = false;
+    this.streamController = new AbortController();
 
     try {
+      // A client of its own per request, so aborting it can't cut off other calls on the shared client
+      const client = new (await loadOllama())({ host: this.config.baseUrl, fetch: abortableFetch(this.streamController.signal) });
+
+      if (resume) {
+        // A failed attempt can leave a reply whose tools never ran; answer again from the last user or tool message
+        while (this.messages.length > this.attemptStart && this.messages[this.messages.length - 1].role === 'assistant') {
+          this.messages.pop();
+        }
+      }
+
+      const compaction = await this.compactHistory();
+      if (compaction) {
+        yield { type: 'context_compacted', data: `Summarized ${compaction.summarizedCount} earlier messages to stay within the context budget` };
+      }
+      this.attemptStart = this.messages.length;
+
+      const lastRole = this.messages[this.messages.length - 1]?.role;
+      if (!resume || (lastRole !== 'user' && lastRole !== 'tool')) {
+        this.messages.push({ role: 'user', content: fullMessage });
+      }
+
       // Agent loop - keep going until no more tool calls
       let iterations = 0;
       const MAX_ITERATIONS = 100; // Prevent infinite loops
       let thinkingOnlyCount = 0; // Track consecutive thinking-only responses
       
-      while (iterations < MAX_ITERATIONS) {
+      while (iterations < MAX_ITERATIONS && !this.aborted) {
         iterations++;
         console.log('[OLLAMA-AGENT] Iteration', iterations, 'of', MAX_ITERATIONS);
         console.log('[OLLAMA-AGENT] Sending chat request with', this.messages.length, 'messages');
@@ -185,9 +309,14 @@ export class OllamaAgentService extends EventEmitter {
         const chatOptions: any = {
           model: this.config.modelId,
           messages: this.messages,
-          tools: OLLAMA_TOOLS,
-          stream: false, // Use non-streaming for simpler tool handling
+          tools: this.getTools(),
+          stream: true,
         };
+
+        // Ollama silently truncates prompts beyond num_ctx, so size the window to the budget
+        if (this.config.contextBudget) {
+          chatOptions.options = { num_ctx: this.config.contextBudget };
+        }
         
         // Only add think option for models that support it
         if (supportsThinking(this.config.modelId)) {
@@ -195,47 +324,61 @@ export class OllamaAgentService extends EventEmitter {
           console.log('[OLLAMA-AGENT] Thinking mode enabled for', this.config.modelId);
         }
         
-        const response = await this.client.chat(chatOptions);
+        const response = await client.chat(chatOptions);
+
+        // Stream thinking/text deltas while assembling the full assistant message
+        let content = '';
+        let thinking = '';
+        const toolCalls: any[] = [];
+        for await (const chunk of response) {
+          if (chunk.message?.thinking) {
+            thinking += chunk.message.thinking;
+            yield { type: 'thinking', data: chunk.message.thinking };
+          }
+          if (chunk.message?.content) {
+            content += chunk.message.content;
+            yield { type: 'text', data: chunk.message.content };
+          }
+          if (chunk.message?.tool_calls?.length) {
+            toolCalls.push(...chunk.message.tool_calls);
+          }
+          // The final chunk carries the token counts (local models are free)
+          if (chunk.done && (chunk.prompt_eval_count || chunk.eval_count)) {
+            yield {
+              type: 'usage',
+              usage: { inputTokens: chunk.prompt_eval_count || 0, outputTokens: chunk.eval_count || 0, cost: 0 },
+            };
+          }
+        }
 
-        console.log('[OLLAMA-AGENT] Full response:', JSON.stringify(response, null, 2));
         console.log('[OLLAMA-AGENT] Response received:', JSON.stringify({
-          hasContent: !!response.message.content,
-          hasThinking: !!response.message.thinking,
-          hasToolCalls: !!response.message.tool_calls?.length,
-          toolCalls: response.message.tool_calls?.map((tc: any) => tc.function.name),
-          content: response.message.content?.substring(0, 200),
-          thinking: response.message.thinking?.substring(0, 200),
+          hasContent: !!content,
+          hasThinking: !!thinking,
+          hasToolCalls: toolCalls.length > 0,
+          toolCalls: toolCalls.map((tc: any) => tc.function.name),
+          content: content.substring(0, 200),
+          thinking: thinking.substring(0, 200),
         }));
 
         // Add assistant message to history
-        this.messages.push(response.message);
-
-        // Yield any thinking content
-        if (response.message.thinking) {
-          console.log('[OLLAMA-AGENT] Yielding thinking:', response.message.thinking.substring(0, 100));
-          yield { type: 'thinking', data: response.message.thinking };
-        }
-
-        // Yield text content
-        if (response.message.content) {
-          console.log('[OLLAMA-AGENT] Yielding content:', response.message.content.substring(0, 100));
-          yield { type: 'text', data: response.message.content };
-        }
+        const assistantMessage: any = { role: 'assistant', content };
+        if (thinking) assistantMessage.thinking = thinking;
+        if (toolCalls.length > 0) assistantMessage.tool_calls = toolCalls;
+        this.messages.push(assistantMessage);
 
         // Check for tool calls
-        const toolCalls = response.message.tool_calls || [];
         console.log('[OLLAMA-AGENT] Tool calls count:', toolCalls.length);
         
         if (toolCalls.length === 0) {
           // No tool calls - check if we should continue or stop
           
-          if (response.message.content) {
+          if (content) {
             // Has content, we're done
             console.log('[OLLAMA-AGENT] Response has content, finishing');
             break;
           }
           
-          if (response.message.thinking && !response.message.content) {
+          if (thinking && !content) {
             // Model only produced thinking but no action - prompt it to continue
             thinkingOnlyCount++;
             console.log('[OLLAMA-AGENT] Thinking-only response #', thinkingOnlyCount);
@@ -255,7 +398,7 @@ export class OllamaAgentService extends EventEmitter {
             continue; // Loop again to get actual action
           }
           
-          if (!response.message.content && !response.message.thinking) {
+          if (!content && !thinking) {
             console.log('[OLLAMA-AGENT] WARNING: No content, no thinking, no tool calls');
             yield { type: 'text', data: '(Model returned empty response. Try rephrasing your question.)' };
             break;
@@ -269,22 +412,26 @@ export class OllamaAgentService extends EventEmitter {
 
         // Process each tool call
         for (const call of toolCalls) {
+          if (this.aborted) break;
+
           const toolName = call.function.name;
           const toolArgs = call.function.arguments || {};
+          const toolUseId = `tool-${randomUUID()}`;
 
           yield {
             type: 'tool_use',
             toolName,
             toolInput: toolArgs,
-            toolUseId: `tool-${Date.now()}`
+            toolUseId,
+            requiresConfirmation: toolApprovals.announce(toolName, toolUseId),
           };
 
           // Execute the tool
-          const result = await this.executeTool(toolName, toolArgs);
+          const result = await this.executeTool(toolName, toolArgs, toolUseId);
           
           yield {
             type: 'tool_result',
-            toolUseId: `tool-${Date.now()}`,
+            toolUseId,
             data: result
           };
 
@@ -301,37 +448,117 @@ export class OllamaAgentService extends EventEmitter {
         yield { type: 'text', data: '\n\n(Reached maximum steps. The task may be incomplete.)' };
       }
 
-      yield { type: 'done' };
+      yield this.aborted ? { type: 'done', data: 'Cancelled' } : { type: 'done' };
     } catch (error: any) {
-      console.error('[OLLAMA-AGENT] Error:', error);
-      yield { type: 'error', data: error.message };
+      if (this.aborted || error.name === 'AbortError') {
+        yield { type: 'done', data: 'Cancelled' };
+      } else {
+        console.error('[OLLAMA-AGENT] Error:', error);
+        yield { type: 'error', data: error.message, transient: isTransientError(error) };
+      }
     }
   }
 
-  private async executeTool(toolName: string, args: Record<string, any>): Promise<string> {
+  // Abort the current request, including a chat stream that is mid-response
+  abort() {
+    this.aborted = true;
+    this.streamController?.abort();
+    this.streamController = null;
+  }
+
+  // Built-in tools plus tools from connected MCP servers
+  private getTools(): any[] {
+    const builtInTools = OLLAMA_TOOLS.filter(t => mcpManager.isBuiltInToolEnabled(t.function.name));
+    return [...builtInTools, ...mcpManager.getTools().map(toOllamaTool)];
+  }
+
+  private async executeTool(toolName: string, args: Record<string, any>, toolUseId: string): Promise<string> {
     console.log(`[OLLAMA-AGENT] Executing tool: ${toolName}`, args);
     
+    // Dispatch MCP tools back to their server
+    const mcpTool = mcpManager.findTool(toolName);
+    if (mcpTool) {
+      const approval = await toolApprovals.approve(toolName, toolUseId);
+      if (!approval.approved) {
+        return REJECTED_TOOL_MESSAGE;
+      }
+      try {
+        const result = await mcpManager.callTool(mcpTool.serverName, mcpTool.name, args);
+        return formatMCPToolResult(result);
+      } catch (error: any) {
+        return `Error calling MCP tool ${mcpTool.name}: ${error.message}`;
+      }
+    }
+    
+    if (!mcpManager.isBuiltInToolEnabled(toolName)) {
+      return `Tool ${toolName} is disabled in this workspace.`;
+    }
+
+    // File changes ask in their own case, where the decision carries the content the user reviewed
+    if (!FILE_CHANGE_TOOLS.has(toolName) && !(await toolApprovals.approve(toolName, toolUseId)).approved) {
+      return REJECTED_TOOL_MESSAGE;
+    }
+
     // Normalize path parameter - model might use 'path', 'file_path', or 'dir_path'
     const filePath = args.path || args.file_path || args.dir_path || '';
     
     try {
       switch (toolName) {
         case 'list_directory':
-          return await this.listDirectory(filePath);
+          return await workspaceFiles.listDirectory(this.workspacePath, filePath);
         case 'read_file':
-          return await this.readFile(filePath);
-        case 'write_file':
+          return await workspaceFiles.readFile(this.workspacePath, filePath);
+        case 'search_workspace':
+          return await workspaceFiles.search(this.workspacePath, {
+            query: args.query || '',
+            isRegex: args.is_regex === true,
+            caseSensitive: args.case_sensitive === true,
+            include: typeof args.include === 'string' ? args.include.split(',') : args.include,
+            maxResults: Number(args.max_results) || undefined,
+            contextLines: Number(args.context_lines) || undefined,
+          });
+        case 'semantic_search':
+          return await workspaceFiles.semanticSearch(this.workspacePath, args.query || '', Number(args.max_results) || undefined);
+        case 'write_file': {
           if (!filePath) {
             return 'Error: path is required for write_file';
           }
           if (!args.content && args.content !== '') {
             return 'Error: content is required for write_file. Please provide the file content.';
           }
-          return await this.writeFile(filePath, args.content);
+          // Wait for the user to review the diff; they may accept only part of it or edit it
+          const approval = await toolApprovals.approve(toolName, toolUseId);
+          if (!approval.approved) {
+            return REJECTED_CHANGE_MESSAGE;
+          }
+          return await workspaceFiles.writeFile(this.workspacePath, filePath, approval.content ?? args.content);
+        }
+        case 'edit_file':
+        case 'edit_markdown_section': {
+          if (!filePath) {
+            return `Error: path is required for ${toolName}`;
+          }
+          // The user reviews the edited file as a diff and may change it before it is written
+          const approval = await toolApprovals.approve(toolName, toolUseId);
+          if (!approval.approved) {
+            return REJECTED_CHANGE_MESSAGE;
+          }
+          if (approval.content !== undefined) {
+            return await workspaceFiles.writeFile(this.workspacePath, filePath, approval.content);
+          }
+          return toolName === 'edit_file'
+            ? await workspaceFiles.editFile(this.workspacePath, filePath, args.old_text, args.new_text, args.replace_all === true)
+            : await workspaceFiles.editMarkdownSection(this.workspacePath, filePath, args.heading, args.mode || 'replace', args.content);
+        }
         case 'create_directory':
-          return await this.createDirectory(filePath);
-        case 'delete_file':
-          return await this.deleteFile(filePath);
+          return await workspaceFiles.createDirectory(this.workspacePath, filePath);
+        case 'delete_file': {
+          const approval = await toolApprovals.approve(toolName, toolUseId);
+          if (!approval.approved) {
+            return REJECTED_DELETE_MESSAGE;
+          }
+          return await workspaceFiles.deletePath(this.workspacePath, filePath);
+        }
         default:
           return `Unknown tool: ${toolName}`;
       }
@@ -340,96 +567,100 @@ export class OllamaAgentService extends EventEmitter {
     }
   }
 
-  private resolvePath(filePath: string): string {
-    if (path.isAbsolute(filePath)) {
-      return filePath;
-    }
-    if (this.workspacePath) {
-      return path.join(this.workspacePath, filePath);
+  clearHistory() {
+    this.messages = [];
+    if (this.config?.systemPrompt) {
+      this.messages.push({ role: 'system', content: this.config.systemPrompt });
     }
-    return path.resolve(filePath);
+    this.todos = [];
+    this.emit('todosUpdated', this.todos);
   }
 
-  private async listDirectory(dirPath?: string): Promise<string> {
-    try {
-      let targetPath: string;
-      const normalizedPath = dirPath?.trim() || '';
-      
-      if (!normalizedPath || normalizedPath === '.' || normalizedPath === './') {
-        targetPath = this.workspacePath || process.cwd();
-      } else {
-        targetPath = this.resolvePath(normalizedPath);
-      }
-
-      const entries = await fs.readdir(targetPath, { withFileTypes: true });
-      const items = entries
-        .filter(e => !e.name.startsWith('.') && e.name !== 'node_modules')
-        .map(e => `${e.isDirectory() ? '📁' : '📄'} ${e.name}`)
-        .join('\n');
+  // Conversation history without the system prompt (for session persistence)
+  getHistory(): any[] {
+    return this.messages.filter(m => m.role !== 'system');
+  }
 
-      return `Directory: ${targetPath}\n\n${items || '(empty)'}`;
-    } catch (error: any) {
-      return `Error listing directory: ${error.message}`;
-    }
+  // Replace the conversation history, e.g. when resuming a saved session
+  restoreHistory(messages: any[]) {
+    this.clearHistory();
+    this.messages.push(...messages);
   }
 
-  private async readFile(filePath: string): Promise<string> {
-    try {
-      const fullPath = this.resolvePath(filePath);
-      const content = await fs.readFile(fullPath, 'utf-8');
-      return `Content of ${filePath}:\n\n${content}`;
-    } catch (error: any) {
-      return `Error reading file: ${error.message}`;
+  // Summarize older turns once the history approaches the context budget
+  private async compactHistory(): Promise<CompactionResult | null> {
+    if (!this.config?.contextBudget) return null;
+
+    const history = this.getHistory();
+    const result = await compactHistory(history, {
+      budget: this.config.contextBudget,
+      isTurnStart: message => message.role === 'user',
+      toText: message => {
+        if (message.role === 'tool') return `[Tool result: ${clipText(message.content || '')}]`;
+        const toolCalls = (message.tool_calls || [])
+          .map((call: any) => `[Tool call: ${call.function.name} ${JSON.stringify(call.function.arguments)}]`)
+          .join('\n');
+        const text = [message.content, toolCalls].filter(Boolean).join('\n');
+        return text ? `${message.role === 'user' ? 'User' : 'Assistant'}: ${clipText(text)}` : '';
+      },
+      summarize: (prompt, systemPrompt) => this.simpleCompletion(prompt, systemPrompt),
+    });
+
+    if (result) {
+      const recent = history.slice(result.keepFrom);
+      this.messages = this.messages.filter(m => m.role === 'system');
+      this.messages.push(
+        { role: 'user', content: `${SUMMARY_PREFIX}\n${result.summary}` },
+        { role: 'assistant', content: 'Understood. I will continue from this summary.' },
+        ...recent
+      );
     }
+    return result;
   }
 
-  private async writeFile(filePath: string, content: string): Promise<string> {
-    try {
-      if (!filePath) return 'Error: file_path is required';
-      
-      const fullPath = this.resolvePath(filePath);
-      const dir = path.dirname(fullPath);
-      await fs.mkdir(dir, { recursive: true });
-      await fs.writeFile(fullPath, content || '', 'utf-8');
-      return `File created/updated successfully: ${filePath}`;
-    } catch (error: any) {
-      return `Error writing file: ${error.message}`;
+  // Simple completion without tools - for history summaries
+  // format is a JSON schema the response must follow (Ollama's structured outputs)
+  async simpleCompletion(prompt: string, systemPrompt?: string, signal?: AbortSignal, format?: object, maxTokens?: number): Promise<string> {
+    if (!this.client || !this.config) {
+      throw new Error('Ollama agent not initialized');
     }
-  }
 
-  private async createDirectory(dirPath: string): Promise<string> {
-    try {
-      const fullPath = this.resolvePath(dirPath);
-      await fs.mkdir(fullPath, { recursive: true });
-      return `Directory created: ${dirPath}`;
-    } catch (error: any) {
-      return `Error creating directory: ${error.message}`;
+    const messages: any[] = [];
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
     }
-  }
+    messages.push({ role: 'user', content: prompt });
+
+    const chatOptions: any = {
+      model: this.config.modelId,
+      messages,
+      stream: false,
+    };
+    chatOptions.options = {
+      ...(this.config.contextBudget ? { num_ctx: this.config.contextBudget } : {}),
+      ...(maxTokens ? { num_predict: maxTokens } : {}),
+    };
+    if (supportsThinking(this.config.modelId)) {
+      chatOptions.think = false;
+    }
+    if (format) {
+      chatOptions.format = format;
+    }
+
+    // A client of its own when the call can be cancelled, so aborting it leaves the chat's requests alone
+    const client = signal
+      ? new (await loadOllama())({ host: this.config.baseUrl, fetch: abortableFetch(signal) })
+      : this.client;
 
-  private async deleteFile(filePath: string): Promise<string> {
     try {
-      const fullPath = this.resolvePath(filePath);
-      const stats = await fs.stat(fullPath);
-      
-      if (stats.isDirectory()) {
-        await fs.rm(fullPath, { recursive: true });
-      } else {
-        await fs.unlink(fullPath);
+      const response = await client.chat(chatOptions);
+      return response.message?.content || '';
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new Error('Cancelled');
       }
-      return `Deleted: ${filePath}`;
-    } catch (error: any) {
-      return `Error deleting: ${error.message}`;
-    }
-  }
-
-  clearHistory() {
-    this.messages = [];
-    if (this.config?.systemPrompt) {
-      this.messages.push({ role: 'system', content: this.config.systemPrompt });
+      throw error;
     }
-    this.todos = [];
-    this.emit('todosUpdated', this.todos);
   }
 
   getTodos(): TodoItem[] {
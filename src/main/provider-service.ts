@@ -0,0 +1,265 @@
+// Connection tests, model discovery and error classification for the cloud AI providers.
+// Ollama is handled by the ollama:* handlers, which also know about tool-capable models.
+import { BedrockClient, ListFoundationModelsCommand, ListInferenceProfilesCommand } from '@aws-sdk/client-bedrock';
+import { BedrockRuntimeClient, ConverseCommand } from '@aws-sdk/client-bedrock-runtime';
+import { AppSettings, validateProviderSettings } from '../shared/settings';
+import { ProviderModel } from '../shared/types';
+
+const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// /models on OpenAI also returns embedding, audio and image models that can't be used for chat
+const NON_CHAT_MODEL_PATTERN = /embedding|tts|whisper|dall-e|moderation|transcribe|realtime|audio|image|search/i;
+
+export interface ProviderTestResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+export interface ProviderModelsResult {
+  success: boolean;
+  models: ProviderModel[];
+  notice?: string; // Models were listed, but some may be missing
+  error?: string;
+}
+
+const getBedrockConfig = (settings: AppSettings) => ({
+  region: settings.awsRegion,
+  credentials: {
+    accessKeyId: settings.awsAccessKeyId,
+    secretAccessKey: settings.awsSecretAccessKey,
+  },
+});
+
+const getOpenAIBaseUrl = (settings: AppSettings): string => {
+  return (settings.openaiBaseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '');
+};
+
+// OpenAI's own API and current Azure API versions take max_completion_tokens (required by reasoning
+// models); OpenAI-compatible servers at a custom base URL and older Azure API versions only know max_tokens
+const getTestTokenLimit = (legacy: boolean) => legacy ? { max_tokens: 10 } : { max_completion_tokens: 10 };
+
+const getAnthropicHeaders = (settings: AppSettings): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  'x-api-key': settings.anthropicApiKey,
+  'anthropic-version': ANTHROPIC_VERSION,
+});
+
+// Throw an error that carries the HTTP status and the provider's own message
+export const ensureOk = async (response: Response): Promise<any> => {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const error: any = new Error(data.error?.message || data.message || response.statusText || `HTTP ${response.status}`);
+    error.status = response.status;
+    throw error;
+  }
+  return data;
+};
+
+// Turn SDK and HTTP errors into something a user can act on
+const describeError = (error: any, settings: AppSettings): string => {
+  const status = error.status || error.$metadata?.httpStatusCode;
+  const name = error.name || '';
+
+  if (status === 401 || status === 403 || name === 'UnrecognizedClientException' || name === 'AccessDeniedException') {
+    return settings.aiProvider === 'bedrock'
+      ? `Access denied. Check your AWS credentials and that the IAM user has Bedrock permissions. (${error.message})`
+      : `Invalid credentials. Check your API key. (${error.message})`;
+  }
+  if (status === 404 || name === 'ResourceNotFoundException') {
+    return settings.aiProvider === 'azure'
+      ? `Deployment not found. Check the endpoint, deployment name and API version. (${error.message})`
+      : `Model not found. Check the model ID. (${error.message})`;
+  }
+  if (status === 429 || name === 'ThrottlingException') {
+    return 'Rate limited. Please try again later.';
+  }
+  if (name === 'ValidationException' && /model/i.test(error.message)) {
+    return `Model not available in ${settings.awsRegion}. Check your model selection and model access. (${error.message})`;
+  }
+  return error.message || 'Unknown error occurred.';
+};
+
+// Throttling, overload, server and network errors that are worth retrying on the same provider.
+// Quota, auth and validation errors are not - retrying won't help, so the caller fails over instead.
+export const isTransientError = (error: any): boolean => {
+  const status = error?.status || error?.$metadata?.httpStatusCode;
+  const name = error?.name || '';
+  const code = error?.code || error?.cause?.code || '';
+  const message = String(error?.message || '');
+
+  if (/insufficient_quota|quota/i.test(`${code} ${message}`)) return false;
+  if (status === 408 || status === 429 || status === 529 || (status >= 500 && status < 600)) return true;
+  if (['ThrottlingException', 'ServiceUnavailableException', 'ModelNotReadyException', 'InternalServerException', 'ModelStreamErrorException'].includes(name)) return true;
+  if (['ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'].includes(code)) return true;
+  return /rate limit|too many requests|overloaded|temporarily unavailable|timed? ?out/i.test(message);
+};
+
+// Send a tiny request to the selected model to check credentials and model access together
+export const testProviderConnection = async (settings: AppSettings): Promise<ProviderTestResult> => {
+  const configError = validateProviderSettings(settings);
+  if (configError) {
+    return { success: false, error: configError };
+  }
+
+  try {
+    switch (settings.aiProvider) {
+      case 'bedrock': {
+        const client = new BedrockRuntimeClient(getBedrockConfig(settings));
+        await client.send(new ConverseCommand({
+          modelId: settings.bedrockModel,
+          messages: [{ role: 'user', content: [{ text: 'Hi' }] }],
+          inferenceConfig: { maxTokens: 10 },
+        }));
+        return { success: true, message: 'Your AWS Bedrock credentials are working.' };
+      }
+      case 'openai': {
+        await ensureOk(await fetch(`${getOpenAIBaseUrl(settings)}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${settings.openaiApiKey}`,
+          },
+          body: JSON.stringify({
+            model: settings.openaiModel,
+            messages: [{ role: 'user', content: 'Hi' }],
+            ...getTestTokenLimit(!!settings.openaiBaseUrl && getOpenAIBaseUrl(settings) !== OPENAI_DEFAULT_BASE_URL),
+          }),
+        }));
+        return { success: true, message: 'Your OpenAI API key is working.' };
+      }
+      case 'anthropic': {
+        await ensureOk(await fetch(`${ANTHROPIC_API_URL}/messages`, {
+          method: 'POST',
+          headers: getAnthropicHeaders(settings),
+          body: JSON.stringify({
+            model: settings.anthropicModel,
+            messages: [{ role: 'user', content: 'Hi' }],
+            max_tokens: 10,
+          }),
+        }));
+        return { success: true, message: 'Your Anthropic API key is working.' };
+      }
+      case 'azure': {
+        const endpoint = settings.azureEndpoint.replace(/\/+$/, '');
+        const deployment = encodeURIComponent(settings.azureDeployment);
+        await ensureOk(await fetch(
+          `${endpoint}/openai/deployments/${deployment}/chat/completions?api-version=${settings.azureApiVersion}`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'api-key': settings.azureApiKey,
+            },
+            body: JSON.stringify({
+              messages: [{ role: 'user', content: 'Hi' }],
+              ...getTestTokenLimit(settings.azureApiVersion < '2024-09-01'),
+            }),
+          }
+        ));
+        return { success: true, message: 'Your Azure OpenAI deployment is working.' };
+      }
+      default:
+        return { success: false, error: `Connection test is not supported for ${settings.aiProvider}.` };
+    }
+  } catch (error: any) {
+    console.error(`[PROVIDER] Connection test failed for ${settings.aiProvider}:`, error);
+    return { success: false, error: describeError(error, settings) };
+  }
+};
+
+const listBedrockModels = async (settings: AppSettings): Promise<Omit<ProviderModelsResult, 'success'>> => {
+  const client = new BedrockClient(getBedrockConfig(settings));
+
+  // Newer models (e.g. Claude 4.5) can only be invoked through inference profiles. Listing them needs its
+  // own permission (bedrock:ListInferenceProfiles), so a failure here still returns the foundation models.
+  const profiles: ProviderModel[] = [];
+  let notice: string | undefined;
+  try {
+    let nextToken: string | undefined;
+    do {
+      const response = await client.send(new ListInferenceProfilesCommand({ nextToken, maxResults: 100 }));
+      for (const profile of response.inferenceProfileSummaries || []) {
+        if (profile.status === 'ACTIVE' && profile.inferenceProfileId) {
+          profiles.push({
+            id: profile.inferenceProfileId,
+            name: profile.inferenceProfileName || profile.inferenceProfileId,
+            group: 'Inference profiles',
+          });
+        }
+      }
+      nextToken = response.nextToken;
+    } while (nextToken);
+  } catch (error: any) {
+    console.warn('[PROVIDER] Listing Bedrock inference profiles failed:', error);
+    profiles.length = 0;
+    notice = `Inference profiles could not be listed, so models that need one (such as Claude 4.5) are not shown. Grant bedrock:ListInferenceProfiles to see them. (${error.message})`;
+  }
+
+  const response = await client.send(new ListFoundationModelsCommand({
+    byOutputModality: 'TEXT',
+    byInferenceType: 'ON_DEMAND',
+  }));
+  const foundationModels: ProviderModel[] = (response.modelSummaries || [])
+    .filter(model => model.modelId && model.modelLifecycle?.status !== 'LEGACY')
+    .map(model => ({
+      id: model.modelId!,
+      name: `${model.providerName} ${model.modelName}`,
+      group: 'Foundation models',
+    }));
+
+  return { models: [...profiles, ...foundationModels], notice };
+};
+
+const listOpenAIModels = async (settings: AppSettings): Promise<ProviderModel[]> => {
+  const data = await ensureOk(await fetch(`${getOpenAIBaseUrl(settings)}/models`, {
+    headers: { 'Authorization': `Bearer ${settings.openaiApiKey}` },
+  }));
+
+  return (data.data || [])
+    .filter((model: any) => !NON_CHAT_MODEL_PATTERN.test(model.id))
+    .map((model: any) => ({ id: model.id, name: model.id }))
+    .sort((a: ProviderModel, b: ProviderModel) => a.id.localeCompare(b.id));
+};
+
+const listAnthropicModels = async (settings: AppSettings): Promise<ProviderModel[]> => {
+  const data = await ensureOk(await fetch(`${ANTHROPIC_API_URL}/models?limit=100`, {
+    headers: getAnthropicHeaders(settings),
+  }));
+
+  return (data.data || []).map((model: any) => ({
+    id: model.id,
+    name: model.display_name || model.id,
+  }));
+};
+
+// Enumerate the models the configured credentials can use
+export const listProviderModels = async (settings: AppSettings): Promise<ProviderModelsResult> => {
+  try {
+    switch (settings.aiProvider) {
+      case 'bedrock':
+        if (!settings.awsAccessKeyId || !settings.awsSecretAccessKey) {
+          return { success: false, models: [], error: 'Enter your AWS credentials.' };
+        }
+        return { success: true, ...await listBedrockModels(settings) };
+      case 'openai':
+        if (!settings.openaiApiKey) {
+          return { success: false, models: [], error: 'Enter your OpenAI API key.' };
+        }
+        return { success: true, models: await listOpenAIModels(settings) };
+      case 'anthropic':
+        if (!settings.anthropicApiKey) {
+          return { success: false, models: [], error: 'Enter your Anthropic API key.' };
+        }
+        return { success: true, models: await listAnthropicModels(settings) };
+      default:
+        // Azure deployments can only be listed through the Azure management API
+        return { success: false, models: [], error: `Model discovery is not supported for ${settings.aiProvider}.` };
+    }
+  } catch (error: any) {
+    console.error(`[PROVIDER] Listing models failed for ${settings.aiProvider}:`, error);
+    return { success: false, models: [], error: describeError(error, settings) };
+  }
+};
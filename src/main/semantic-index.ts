@@ -0,0 +1,365 @@
+// Local vector index over the workspace documents, stored in <workspace>/.collie/index/.
+// Markdown is split into chunks by heading, and a document is only embedded again when it changes.
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SemanticIndexStatus, SemanticSearchResult } from '../shared/types';
+import { getHeadingPaths, parseHeadings } from '../shared/text-edits';
+import { AgentConfig } from './strands-agent';
+import { Embedder, createEmbedder, cosineSimilarity } from './embedding-service';
+import { listWorkspaceFiles } from './workspace-search';
+
+const INDEX_VERSION = 1;
+const INDEXED_EXTENSIONS = ['.md', '.markdown', '.prd', '.txt'];
+const MAX_FILE_SIZE = 512 * 1024;
+const MAX_CHUNK_LENGTH = 2000;
+const MAX_EMBEDDING_INPUT = 6000;
+const DEFAULT_MAX_RESULTS = 5;
+const MAX_RESULTS_LIMIT = 20;
+const UPDATE_DELAY_MS = 2000;
+const SAVE_EVERY_FILES = 20;
+
+interface Chunk {
+  heading: string;
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+interface IndexedChunk extends Chunk {
+  vector: Float32Array;
+}
+
+interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  chunks: IndexedChunk[];
+}
+
+interface IndexData {
+  embedder: string;
+  updatedAt: number;
+  files: Record<string, IndexedFile>;
+}
+
+// On disk, vectors are base64-encoded Float32 arrays
+interface StoredIndex {
+  version: number;
+  embedder: string;
+  updatedAt: number;
+  files: Record<string, { mtimeMs: number; size: number; chunks: (Chunk & { vector: string })[] }>;
+}
+
+const getIndexPath = (workspacePath: string) => path.join(workspacePath, '.collie', 'index', 'semantic-index.json');
+
+const encodeVector = (vector: Float32Array) => Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+
+const decodeVector = (encoded: string) => {
+  const buffer = Buffer.from(encoded, 'base64');
+  return new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+};
+
+const isIndexable = (relativePath: string) => INDEXED_EXTENSIONS.includes(path.extname(relativePath).toLowerCase());
+
+// Same folders the workspace search skips
+const isSkipped = (relativePath: string) => relativePath.split('/').some(part => part.startsWith('.') || part === 'node_modules');
+
+// Split a section's lines into chunks of at most MAX_CHUNK_LENGTH, preferring to break at blank lines
+const splitSection = (heading: string, startLine: number, lines: string[]): Chunk[] => {
+  const chunks: Chunk[] = [];
+  let piece: string[] = [];
+  let pieceStart = startLine;
+  let length = 0;
+
+  const push = () => {
+    while (piece.length > 0 && !piece[piece.length - 1].trim()) {
+      piece.pop();
+    }
+    const text = piece.join('\n').trim();
+    if (text) {
+      chunks.push({ heading, startLine: pieceStart, endLine: pieceStart + piece.length - 1, text });
+    }
+  };
+
+  lines.forEach((line, i) => {
+    if (length > 0 && (length + line.length > MAX_CHUNK_LENGTH || (length > MAX_CHUNK_LENGTH / 2 && !line.trim()))) {
+      push();
+      piece = [];
+      pieceStart = startLine + i;
+      length = 0;
+    }
+    piece.push(line);
+    length += line.length + 1;
+  });
+  push();
+  return chunks;
+};
+
+// One chunk per heading section (headings inside code fences don't count); long sections are split further
+// Uses the same heading parsing as the section edits, so a chunk's heading path can be passed to edit_markdown_section
+const chunkDocument = (content: string): Chunk[] => {
+  const lines = content.split(/\r?\n/);
+  const headings = parseHeadings(lines);
+  const paths = getHeadingPaths(headings);
+  const chunks: Chunk[] = [];
+
+  // Text before the first heading, then each heading up to the next one of any level
+  const sections = [{ heading: '', start: 0 }, ...headings.map((h, i) => ({ heading: paths[i], start: h.line }))];
+  sections.forEach((section, i) => {
+    const end = i + 1 < sections.length ? sections[i + 1].start : lines.length;
+    const sectionLines = lines.slice(section.start, end);
+    // Sections that are only a heading (e.g. a parent of subsections) add nothing
+    const body = section.heading ? sectionLines.slice(1) : sectionLines;
+    if (body.some(line => line.trim())) {
+      chunks.push(...splitSection(section.heading, section.start + 1, sectionLines));
+    }
+  });
+  return chunks;
+};
+
+// The file and heading are embedded with the text so a chunk can match on where it lives
+const toEmbeddingInput = (relativePath: string, chunk: Chunk) =>
+  `${relativePath}${chunk.heading ? ` > ${chunk.heading}` : ''}\n\n${chunk.text}`.substring(0, MAX_EMBEDDING_INPUT);
+
+export class SemanticIndex {
+  private embedder: Embedder | null = null;
+  private workspacePath: string | null = null;
+  private data: IndexData | null = null;
+  // Whether the index was compared with the whole workspace since it was loaded; the watcher keeps it current after that
+  private synced = false;
+  private isExcluded: (relativePath: string) => boolean = () => false;
+  private changedPaths = new Set<string>();
+  private updateTimer: NodeJS.Timeout | null = null;
+  // Index updates run one at a time
+  private queue: Promise<void> = Promise.resolve();
+
+  configure(config: AgentConfig) {
+    this.embedder = createEmbedder(config);
+  }
+
+  // Passages most similar in meaning to the query. The index is brought up to date first,
+  // which embeds every document the first time and only changed documents after that.
+  async search(
+    workspacePath: string,
+    query: string,
+    maxResults: number = DEFAULT_MAX_RESULTS,
+    isExcluded: (relativePath: string) => boolean = () => false
+  ): Promise<SemanticSearchResult[]> {
+    const embedder = this.requireEmbedder();
+    await this.enqueue(() => this.sync(workspacePath, isExcluded));
+
+    const [queryVector] = await embedder.embed([query]);
+    const limit = Math.min(Math.max(1, maxResults || DEFAULT_MAX_RESULTS), MAX_RESULTS_LIMIT);
+    const results: SemanticSearchResult[] = [];
+
+    for (const [relativePath, file] of Object.entries(this.data!.files)) {
+      if (isExcluded(relativePath)) continue;
+      for (const chunk of file.chunks) {
+        results.push({
+          path: relativePath,
+          heading: chunk.heading,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          text: chunk.text,
+          score: cosineSimilarity(queryVector, chunk.vector),
+        });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  // Drop the stored index and embed every document again
+  async rebuild(workspacePath: string, isExcluded: (relativePath: string) => boolean = () => false): Promise<SemanticIndexStatus> {
+    const embedder = this.requireEmbedder();
+    await this.enqueue(async () => {
+      this.workspacePath = workspacePath;
+      this.data = { embedder: embedder.id, updatedAt: Date.now(), files: {} };
+      this.synced = false;
+      await this.sync(workspacePath, isExcluded);
+    });
+    return this.getStatus(workspacePath);
+  }
+
+  getStatus(workspacePath: string): SemanticIndexStatus {
+    if (this.workspacePath !== workspacePath || !this.data) {
+      return { fileCount: 0, chunkCount: 0, embedder: null, updatedAt: null };
+    }
+    const files = Object.values(this.data.files);
+    return {
+      fileCount: files.length,
+      chunkCount: files.reduce((count, file) => count + file.chunks.length, 0),
+      embedder: this.data.embedder,
+      updatedAt: this.data.updatedAt,
+    };
+  }
+
+  // Called for fs:watch events. Only a loaded index is updated; one that isn't loaded catches up on its next search.
+  notifyChanged(workspacePath: string, filename: string) {
+    if (this.workspacePath !== workspacePath || !this.data) return;
+
+    const relativePath = filename.split(path.sep).join('/');
+    if (isSkipped(relativePath)) return;
+
+    if (isIndexable(relativePath)) {
+      this.changedPaths.add(relativePath);
+    } else {
+      // A renamed or deleted folder only reports the folder itself
+      Object.keys(this.data.files)
+        .filter(indexedPath => indexedPath.startsWith(`${relativePath}/`))
+        .forEach(indexedPath => this.changedPaths.add(indexedPath));
+    }
+    if (this.changedPaths.size === 0) return;
+
+    if (this.updateTimer) {
+      clearTimeout(this.updateTimer);
+    }
+    this.updateTimer = setTimeout(() => {
+      const changed = [...this.changedPaths];
+      this.changedPaths.clear();
+      this.enqueue(() => this.updateFiles(workspacePath, changed)).catch(error => {
+        console.error('[SEMANTIC] Error updating index:', error);
+      });
+    }, UPDATE_DELAY_MS);
+  }
+
+  private requireEmbedder(): Embedder {
+    if (!this.embedder) {
+      throw new Error('Semantic search needs a configured AI provider. Set one up in Settings first.');
+    }
+    return this.embedder;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  // Embed new and changed documents and drop the ones that are gone
+  private async sync(workspacePath: string, isExcluded: (relativePath: string) => boolean) {
+    await this.load(workspacePath);
+    this.isExcluded = isExcluded;
+    if (this.synced) return;
+
+    const documents = (await listWorkspaceFiles(workspacePath, isExcluded)).filter(isIndexable);
+    const current = new Set(documents);
+    const removed = Object.keys(this.data!.files).filter(relativePath => !current.has(relativePath));
+    await this.updateFiles(workspacePath, [...removed, ...documents]);
+    this.synced = true;
+  }
+
+  private async load(workspacePath: string) {
+    const embedder = this.requireEmbedder();
+    if (this.workspacePath === workspacePath && this.data?.embedder === embedder.id) return;
+
+    this.workspacePath = workspacePath;
+    this.synced = false;
+    this.data = { embedder: embedder.id, updatedAt: Date.now(), files: {} };
+
+    try {
+      const stored: StoredIndex = JSON.parse(await fs.readFile(getIndexPath(workspacePath), 'utf-8'));
+      // Vectors from another model can't be compared with the query, so those documents are embedded again
+      if (stored.version !== INDEX_VERSION || stored.embedder !== embedder.id) {
+        console.log(`[SEMANTIC] Index was built with ${stored.embedder}, rebuilding with ${embedder.id}`);
+        return;
+      }
+      for (const [relativePath, file] of Object.entries(stored.files)) {
+        this.data.files[relativePath] = {
+          mtimeMs: file.mtimeMs,
+          size: file.size,
+          chunks: file.chunks.map(chunk => ({ ...chunk, vector: decodeVector(chunk.vector) })),
+        };
+      }
+      this.data.updatedAt = stored.updatedAt;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error('[SEMANTIC] Could not read the index, rebuilding:', error);
+      }
+    }
+  }
+
+  private async updateFiles(workspacePath: string, relativePaths: string[]) {
+    await this.load(workspacePath);
+    const data = this.data!;
+    const embedder = this.requireEmbedder();
+    let changed = 0;
+
+    try {
+      for (const relativePath of relativePaths) {
+        const fullPath = path.join(workspacePath, relativePath);
+        const stats = await fs.stat(fullPath).catch(() => null);
+
+        if (!stats || !stats.isFile() || stats.size > MAX_FILE_SIZE || this.isExcluded(relativePath)) {
+          if (data.files[relativePath]) {
+            delete data.files[relativePath];
+            changed++;
+          }
+          continue;
+        }
+
+        const existing = data.files[relativePath];
+        if (existing && existing.mtimeMs === stats.mtimeMs && existing.size === stats.size) continue;
+
+        const chunks = chunkDocument(await fs.readFile(fullPath, 'utf-8'));
+        const vectors = chunks.length > 0 ? await embedder.embed(chunks.map(chunk => toEmbeddingInput(relativePath, chunk))) : [];
+        data.files[relativePath] = {
+          mtimeMs: stats.mtimeMs,
+          size: stats.size,
+          chunks: chunks.map((chunk, i) => ({ ...chunk, vector: Float32Array.from(vectors[i]) })),
+        };
+        changed++;
+
+        // Keep progress if indexing a large workspace is interrupted
+        if (changed % SAVE_EVERY_FILES === 0) {
+          await this.save(workspacePath);
+        }
+      }
+    } finally {
+      if (changed > 0) {
+        data.updatedAt = Date.now();
+        await this.save(workspacePath);
+        console.log(`[SEMANTIC] Updated ${changed} document(s) in the index`);
+      }
+    }
+  }
+
+  private async save(workspacePath: string) {
+    if (!this.data || this.workspacePath !== workspacePath) return;
+
+    const stored: StoredIndex = {
+      version: INDEX_VERSION,
+      embedder: this.data.embedder,
+      updatedAt: this.data.updatedAt,
+      files: {},
+    };
+    for (const [relativePath, file] of Object.entries(this.data.files)) {
+      stored.files[relativePath] = {
+        mtimeMs: file.mtimeMs,
+        size: file.size,
+        chunks: file.chunks.map(chunk => ({ ...chunk, vector: encodeVector(chunk.vector) })),
+      };
+    }
+
+    const indexPath = getIndexPath(workspacePath);
+    await fs.mkdir(path.dirname(indexPath), { recursive: true });
+    // Write to a temporary file first so an interrupted save can't leave a corrupt index
+    await fs.writeFile(`${indexPath}.tmp`, JSON.stringify(stored), 'utf-8');
+    await fs.rename(`${indexPath}.tmp`, indexPath);
+  }
+}
+
+// Format results for the agent: each passage with its file, heading path and lines
+export const formatSemanticResults = (query: string, results: SemanticSearchResult[]): string => {
+  if (results.length === 0) {
+    return `No indexed documents match "${query}". Only Markdown and text files are indexed; try search_workspace for exact text.`;
+  }
+
+  const passages = results.map(result => {
+    const location = `${result.path}${result.heading ? ` > ${result.heading}` : ''} (lines ${result.startLine}-${result.endLine}, relevance ${result.score.toFixed(2)})`;
+    return `${location}\n${result.text}`;
+  });
+  return `Found ${results.length} relevant passage${results.length === 1 ? '' : 's'} for "${query}":\n\n${passages.join('\n\n---\n\n')}`;
+};
+
+// Singleton instance
+export const semanticIndex = new SemanticIndex();
@@ -0,0 +1,127 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ChatSession, ChatSessionSummary } from '../shared/types';
+import { ChatMessage } from '../shared/settings';
+
+// Sessions live inside the workspace so they travel with the project
+const SESSIONS_DIR = path.join('.collie', 'sessions');
+const TITLE_MAX_LENGTH = 60;
+
+// Plain user/assistant turn, used to rebuild agent history across providers
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Collapse a UI transcript into alternating user/assistant turns starting with the user
+export const getTranscriptTurns = (messages: ChatMessage[]): ChatTurn[] => {
+  const turns: ChatTurn[] = [];
+  for (const message of messages) {
+    if (message.role === 'system' || !message.content) continue;
+    if (turns.length === 0 && message.role !== 'user') continue;
+
+    const last = turns[turns.length - 1];
+    if (last && last.role === message.role) {
+      last.content += `\n\n${message.content}`;
+    } else {
+      turns.push({ role: message.role, content: message.content });
+    }
+  }
+  return turns;
+};
+
+const getDefaultTitle = (messages: ChatMessage[]): string => {
+  const firstUserMessage = messages.find(m => m.role === 'user');
+  const text = firstUserMessage?.content.replace(/\s+/g, ' ').trim() || 'New chat';
+  return text.length > TITLE_MAX_LENGTH ? `${text.substring(0, TITLE_MAX_LENGTH)}...` : text;
+};
+
+const toSummary = (session: ChatSession): ChatSessionSummary => ({
+  id: session.id,
+  title: session.title,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+  messageCount: session.messageCount,
+});
+
+export class SessionStore {
+  async list(workspacePath: string): Promise<ChatSessionSummary[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.getSessionsDir(workspacePath));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const summaries: ChatSessionSummary[] = [];
+    for (const entry of entries.filter(e => e.endsWith('.json'))) {
+      const session = await this.load(workspacePath, path.basename(entry, '.json'));
+      if (session) {
+        summaries.push(toSummary(session));
+      }
+    }
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async load(workspacePath: string, id: string): Promise<ChatSession | null> {
+    try {
+      const content = await fs.readFile(this.getSessionPath(workspacePath, id), 'utf-8');
+      return JSON.parse(content);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      console.error(`[SESSIONS] Failed to read session ${id}:`, error.message);
+      return null;
+    }
+  }
+
+  // Save the transcript, keeping the title and creation time of an existing session
+  async save(
+    workspacePath: string,
+    session: Pick<ChatSession, 'id' | 'messages' | 'agentHistory'>
+  ): Promise<ChatSessionSummary> {
+    const existing = await this.load(workspacePath, session.id);
+    const now = Date.now();
+    const saved: ChatSession = {
+      id: session.id,
+      title: existing?.title || getDefaultTitle(session.messages),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      messageCount: session.messages.filter(m => m.role === 'user').length,
+      messages: session.messages,
+      agentHistory: session.agentHistory,
+    };
+
+    await fs.mkdir(this.getSessionsDir(workspacePath), { recursive: true });
+    await fs.writeFile(this.getSessionPath(workspacePath, session.id), JSON.stringify(saved, null, 2), 'utf-8');
+    return toSummary(saved);
+  }
+
+  async rename(workspacePath: string, id: string, title: string): Promise<ChatSessionSummary> {
+    const session = await this.load(workspacePath, id);
+    if (!session) {
+      throw new Error(`Session not found: ${id}`);
+    }
+    session.title = title.trim() || session.title;
+    await fs.writeFile(this.getSessionPath(workspacePath, id), JSON.stringify(session, null, 2), 'utf-8');
+    return toSummary(session);
+  }
+
+  async delete(workspacePath: string, id: string): Promise<void> {
+    await fs.rm(this.getSessionPath(workspacePath, id), { force: true });
+  }
+
+  private getSessionsDir(workspacePath: string): string {
+    return path.join(workspacePath, SESSIONS_DIR);
+  }
+
+  private getSessionPath(workspacePath: string, id: string): string {
+    // Session ids are generated by the chat panel; reject anything that could escape the folder
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`Invalid session id: ${id}`);
+    }
+    return path.join(this.getSessionsDir(workspacePath), `${id}.json`);
+  }
+}
+
+export const sessionStore = new SessionStore();
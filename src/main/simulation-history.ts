@@ -0,0 +1,93 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { SimulationRun, SimulationRunSummary, toRunSummary } from '../shared/simulation-history';
+
+// Runs live inside the workspace next to the chat sessions, one folder per document:
+// <workspace>/.collie/simulations/<document key>/<run id>.json
+const SIMULATIONS_DIR = path.join('.collie', 'simulations');
+
+export const hashContent = (content: string): string => createHash('sha256').update(content).digest('hex');
+
+const toRelativePath = (workspacePath: string, documentPath: string): string =>
+  path.relative(workspacePath, documentPath).split(path.sep).join('/');
+
+export class SimulationHistoryStore {
+  // Runs of one document, newest first
+  async list(workspacePath: string, documentPath: string): Promise<SimulationRunSummary[]> {
+    const dir = this.getDocumentDir(workspacePath, documentPath);
+    let entries: string[];
+    try {
+      entries = await fs.readdir(dir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const summaries: SimulationRunSummary[] = [];
+    for (const entry of entries.filter(e => e.endsWith('.json'))) {
+      const run = await this.read(path.join(dir, entry));
+      if (run) {
+        summaries.push(toRunSummary(run));
+      }
+    }
+    return summaries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async load(workspacePath: string, documentPath: string, id: string): Promise<SimulationRun | null> {
+    return this.read(this.getRunPath(workspacePath, documentPath, id));
+  }
+
+  // Save a run, or update it after a review was retried; the time and the reviewed text stay those of the first save
+  async save(
+    workspacePath: string,
+    documentPath: string,
+    prdContent: string,
+    run: Pick<SimulationRun, 'id' | 'stakeholders' | 'result' | 'cancelled'>
+  ): Promise<SimulationRunSummary> {
+    const existing = await this.load(workspacePath, documentPath, run.id);
+    const saved: SimulationRun = {
+      id: run.id,
+      createdAt: existing?.createdAt || Date.now(),
+      documentPath: toRelativePath(workspacePath, documentPath),
+      contentHash: existing?.contentHash || hashContent(prdContent),
+      stakeholders: run.stakeholders.map(({ id, name, role }) => ({ id, name, role })),
+      result: run.result,
+      cancelled: run.cancelled,
+    };
+
+    await fs.mkdir(this.getDocumentDir(workspacePath, documentPath), { recursive: true });
+    await fs.writeFile(this.getRunPath(workspacePath, documentPath, run.id), JSON.stringify(saved, null, 2), 'utf-8');
+    return toRunSummary(saved);
+  }
+
+  async delete(workspacePath: string, documentPath: string, id: string): Promise<void> {
+    await fs.rm(this.getRunPath(workspacePath, documentPath, id), { force: true });
+  }
+
+  private async read(filePath: string): Promise<SimulationRun | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      console.error(`[SIMULATOR] Failed to read saved run ${filePath}:`, error.message);
+      return null;
+    }
+  }
+
+  // Named after the document's path, so a renamed document starts a new history
+  private getDocumentDir(workspacePath: string, documentPath: string): string {
+    const key = createHash('sha1').update(toRelativePath(workspacePath, documentPath)).digest('hex').substring(0, 16);
+    return path.join(workspacePath, SIMULATIONS_DIR, key);
+  }
+
+  private getRunPath(workspacePath: string, documentPath: string, id: string): string {
+    // Run ids are generated by the simulator panel; reject anything that could escape the folder
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`Invalid run id: ${id}`);
+    }
+    return path.join(this.getDocumentDir(workspacePath, documentPath), `${id}.json`);
+  }
+}
+
+export const simulationHistory = new SimulationHistoryStore();
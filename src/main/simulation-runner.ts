@@ -0,0 +1,368 @@
+// Runs the stakeholder reviews of a PRD several at a time and reports each review as soon as it is done,
+// as well as review meetings (see shared/review-meeting.ts).
+// Cancelling stops new reviews from starting and aborts the requests in flight: Ollama requests at once,
+// cloud requests when their next streamed chunk arrives, which closes the connection.
+import { z } from 'zod';
+import { Stakeholder } from '../shared/types';
+import {
+  StakeholderFeedback,
+  SimulationResult,
+  SimulationProgress,
+  StructuredOutputTool,
+  STAKEHOLDER_REVIEW_TOOL,
+  StakeholderReviewSchema,
+  buildRepairPrompt,
+  buildSimulationPrompt,
+  getStakeholderPrompt,
+  parseStructuredResponse,
+  summarizeFeedback,
+} from '../shared/stakeholder-simulator';
+import {
+  MeetingResult,
+  MeetingTurn,
+  MEETING_OUTCOME_TOOL,
+  MEETING_TURN_TOOL,
+  MODERATOR_SYSTEM_PROMPT,
+  MAX_MEETING_ROUNDS,
+  MeetingOutcomeSchema,
+  MeetingTurnSchema,
+  buildMeetingTurnPrompt,
+  buildModeratorPrompt,
+  findStakeholderByName,
+  formatTranscript,
+} from '../shared/review-meeting';
+import { DEFAULT_SIMULATION_CONCURRENCY, MAX_SIMULATION_CONCURRENCY } from '../shared/settings';
+import { agentRouter } from './agent-router';
+
+const SYSTEM_PROMPT = 'You are a helpful assistant. Respond only with valid JSON as requested.';
+
+export interface SimulationHandlers {
+  onFeedback: (feedback: StakeholderFeedback) => void;
+  onProgress: (progress: SimulationProgress) => void;
+}
+
+export interface MeetingHandlers extends SimulationHandlers {
+  onTurn: (turn: MeetingTurn) => void;
+}
+
+type StructuredResponse<T> = { data: T } | { error: string; rawResponse: string };
+
+// Counts finished steps and who is working right now, for the progress events
+class ProgressTracker {
+  completed = 0;
+  stage?: string;
+  private active = new Map<string, string>();
+
+  constructor(private runId: string, private total: number, private report: (progress: SimulationProgress) => void) {}
+
+  start(id: string, name: string) {
+    this.active.set(id, name);
+    this.send();
+  }
+
+  finish(id: string, counted: boolean) {
+    this.active.delete(id);
+    if (counted) this.completed++;
+    this.send();
+  }
+
+  private send() {
+    this.report({
+      runId: this.runId,
+      completed: this.completed,
+      total: this.total,
+      reviewing: [...this.active.values()],
+      stage: this.stage,
+    });
+  }
+}
+
+const clampConcurrency = (concurrency: number) =>
+  Math.min(Math.max(1, Math.floor(concurrency) || 1), MAX_SIMULATION_CONCURRENCY);
+
+export class SimulationRunner {
+  private runs = new Map<string, AbortController>();
+
+  async run(
+    runId: string,
+    prdContent: string,
+    stakeholders: Stakeholder[],
+    handlers: SimulationHandlers,
+    concurrency: number = DEFAULT_SIMULATION_CONCURRENCY
+  ): Promise<{ result: SimulationResult; cancelled: boolean }> {
+    const controller = new AbortController();
+    this.runs.set(runId, controller);
+    const limit = clampConcurrency(concurrency);
+    const progress = new ProgressTracker(runId, stakeholders.length, handlers.onProgress);
+
+    console.log(`[SIMULATOR] Reviewing with ${stakeholders.length} stakeholders, ${limit} at a time`);
+    try {
+      const feedback = await this.reviewAll(prdContent, stakeholders, handlers, progress, limit, controller.signal);
+      return {
+        result: { feedback, summary: summarizeFeedback(feedback) },
+        cancelled: controller.signal.aborted,
+      };
+    } finally {
+      this.runs.delete(runId);
+    }
+  }
+
+  // Opening reviews, then discussion rounds where everyone replies to the transcript so far,
+  // then a moderator pass. Cancelling keeps whatever the meeting got through.
+  async runMeeting(
+    runId: string,
+    prdContent: string,
+    stakeholders: Stakeholder[],
+    rounds: number,
+    handlers: MeetingHandlers,
+    concurrency: number = DEFAULT_SIMULATION_CONCURRENCY
+  ): Promise<{ result: MeetingResult; cancelled: boolean }> {
+    const controller = new AbortController();
+    const signal = controller.signal;
+    this.runs.set(runId, controller);
+    const limit = clampConcurrency(concurrency);
+    const discussionRounds = Math.min(Math.max(1, Math.floor(rounds) || 1), MAX_MEETING_ROUNDS);
+    const progress = new ProgressTracker(runId, stakeholders.length * (discussionRounds + 1) + 1, handlers.onProgress);
+
+    console.log(`[SIMULATOR] Review meeting with ${stakeholders.length} stakeholders, ${discussionRounds} discussion rounds`);
+    try {
+      progress.stage = 'Opening reviews';
+      const feedback = await this.reviewAll(prdContent, stakeholders, handlers, progress, limit, signal);
+      const result: MeetingResult = {
+        feedback,
+        summary: summarizeFeedback(feedback),
+        rounds: discussionRounds,
+        turns: [],
+        outcome: null,
+      };
+
+      // Only stakeholders whose opening review came back take part in the discussion
+      const participants = stakeholders.filter(s => feedback.some(fb => fb.stakeholderId === s.id && !fb.error));
+      if (participants.length < 2) {
+        if (!signal.aborted) {
+          result.outcomeError = 'A meeting needs at least two stakeholders with a valid opening review.';
+        }
+        return { result, cancelled: signal.aborted };
+      }
+
+      for (let round = 2; round <= discussionRounds + 1 && !signal.aborted; round++) {
+        progress.stage = `Round ${round} of ${discussionRounds + 1}`;
+        // Everyone in a round replies to the same transcript, so they can speak at the same time
+        const transcript = formatTranscript(feedback, result.turns);
+        const roundTurns: (MeetingTurn | undefined)[] = new Array(participants.length);
+
+        await this.forEachLimited(participants, limit, signal, async (stakeholder, index) => {
+          progress.start(stakeholder.id, stakeholder.name);
+          const turn = await this.meetingTurn(stakeholder, participants, prdContent, transcript, round, discussionRounds, signal);
+          progress.finish(stakeholder.id, !signal.aborted);
+          if (signal.aborted || !turn) return;
+
+          roundTurns[index] = turn;
+          handlers.onTurn(turn);
+        });
+        result.turns.push(...roundTurns.filter((turn): turn is MeetingTurn => turn !== undefined));
+      }
+
+      if (!signal.aborted) {
+        progress.stage = 'Moderator is summing up';
+        progress.start('moderator', 'Moderator');
+        try {
+          const response = await this.requestStructured(
+            buildModeratorPrompt(prdContent, formatTranscript(feedback, result.turns)),
+            MODERATOR_SYSTEM_PROMPT,
+            MEETING_OUTCOME_TOOL,
+            MeetingOutcomeSchema,
+            'the moderator',
+            signal
+          );
+          if ('data' in response) {
+            result.outcome = response.data;
+          } else {
+            result.outcomeError = `The moderator's summary did not match the expected format: ${response.error}`;
+          }
+        } catch (error: any) {
+          if (!signal.aborted) {
+            console.error('[SIMULATOR] Moderator pass failed:', error);
+            result.outcomeError = `The moderator's summary failed: ${error.message}`;
+          }
+        }
+        progress.finish('moderator', !signal.aborted);
+      }
+
+      return { result, cancelled: signal.aborted };
+    } finally {
+      this.runs.delete(runId);
+    }
+  }
+
+  cancel(runId: string) {
+    this.runs.get(runId)?.abort();
+  }
+
+  // Run a task for each item, at most limit at a time, until the items run out or the signal aborts
+  private async forEachLimited<T>(
+    items: T[],
+    limit: number,
+    signal: AbortSignal,
+    task: (item: T, index: number) => Promise<void>
+  ): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+      while (next < items.length && !signal.aborted) {
+        const index = next++;
+        await task(items[index], index);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  }
+
+  // Individual reviews, returned in the order the stakeholders were selected in
+  private async reviewAll(
+    prdContent: string,
+    stakeholders: Stakeholder[],
+    handlers: SimulationHandlers,
+    progress: ProgressTracker,
+    limit: number,
+    signal: AbortSignal
+  ): Promise<StakeholderFeedback[]> {
+    const feedback: (StakeholderFeedback | undefined)[] = new Array(stakeholders.length);
+
+    await this.forEachLimited(stakeholders, limit, signal, async (stakeholder, index) => {
+      progress.start(stakeholder.id, stakeholder.name);
+      const review = await this.review(stakeholder, prdContent, signal);
+      progress.finish(stakeholder.id, !signal.aborted);
+      if (signal.aborted) return;
+
+      feedback[index] = review;
+      handlers.onFeedback(review);
+    });
+
+    return feedback.filter((item): item is StakeholderFeedback => item !== undefined);
+  }
+
+  // Ask for output matching the tool's schema; an invalid answer gets one repair pass.
+  // Request errors are thrown, answers that are still invalid are returned with the error.
+  private async requestStructured<T>(
+    prompt: string,
+    systemPrompt: string,
+    tool: StructuredOutputTool,
+    schema: z.ZodType<T>,
+    label: string,
+    signal: AbortSignal
+  ): Promise<StructuredResponse<T>> {
+    let response: unknown;
+    try {
+      response = await agentRouter.completeStructured(prompt, systemPrompt, tool, signal);
+    } catch (error: any) {
+      if (signal.aborted) throw error;
+      // Not every model supports forced tool use; the prompt asks for JSON anyway
+      console.warn(`[SIMULATOR] Structured output failed for ${label}, using plain text:`, error.message);
+      response = await agentRouter.complete(prompt, systemPrompt, signal);
+    }
+
+    let parsed = parseStructuredResponse(response, schema);
+    let rawResponse = typeof response === 'string' ? response : JSON.stringify(response, null, 2);
+
+    if (!parsed.success) {
+      console.warn(`[SIMULATOR] Invalid response from ${label}, asking for a corrected one:`, parsed.error);
+      rawResponse = await agentRouter.complete(buildRepairPrompt(rawResponse, parsed.error, tool), systemPrompt, signal);
+      parsed = parseStructuredResponse(rawResponse, schema);
+    }
+
+    return parsed.success ? { data: parsed.data } : { error: parsed.error, rawResponse };
+  }
+
+  private async review(stakeholder: Stakeholder, prdContent: string, signal: AbortSignal): Promise<StakeholderFeedback> {
+    const base = {
+      stakeholderId: stakeholder.id,
+      stakeholderName: stakeholder.name,
+      stakeholderRole: stakeholder.role,
+      // Get emoji for this role
+      emoji: getStakeholderPrompt(stakeholder).emoji,
+    };
+    const empty = { blockers: [], concerns: [], questions: [], suggestions: [], verdict: 'concerns' as const };
+
+    try {
+      const response = await this.requestStructured(
+        buildSimulationPrompt(stakeholder, prdContent),
+        SYSTEM_PROMPT,
+        STAKEHOLDER_REVIEW_TOOL,
+        StakeholderReviewSchema,
+        stakeholder.name,
+        signal
+      );
+
+      if ('error' in response) {
+        return {
+          ...base,
+          ...empty,
+          error: { kind: 'parse', message: response.error, rawResponse: response.rawResponse },
+        };
+      }
+
+      return { ...base, ...response.data };
+    } catch (error: any) {
+      if (!signal.aborted) {
+        console.error(`Error simulating ${stakeholder.name}:`, error);
+      }
+      return {
+        ...base,
+        ...empty,
+        error: { kind: 'request', message: error.message },
+      };
+    }
+  }
+
+  // A stakeholder's replies in one discussion round; a failed turn is left out of the meeting
+  private async meetingTurn(
+    stakeholder: Stakeholder,
+    participants: Stakeholder[],
+    prdContent: string,
+    transcript: string,
+    round: number,
+    rounds: number,
+    signal: AbortSignal
+  ): Promise<MeetingTurn | null> {
+    const others = participants.filter(s => s.id !== stakeholder.id);
+    try {
+      const response = await this.requestStructured(
+        buildMeetingTurnPrompt(stakeholder, prdContent, transcript, round, rounds, others.map(s => `${s.name} (${s.role})`)),
+        SYSTEM_PROMPT,
+        MEETING_TURN_TOOL,
+        MeetingTurnSchema,
+        `${stakeholder.name} (round ${round})`,
+        signal
+      );
+      if ('error' in response) {
+        console.warn(`[SIMULATOR] Dropping ${stakeholder.name}'s turn in round ${round}:`, response.error);
+        return null;
+      }
+
+      return {
+        round,
+        stakeholderId: stakeholder.id,
+        stakeholderName: stakeholder.name,
+        stakeholderRole: stakeholder.role,
+        emoji: getStakeholderPrompt(stakeholder).emoji,
+        verdict: response.data.verdict,
+        replies: response.data.replies.map(reply => {
+          const target = findStakeholderByName(others, reply.to);
+          return {
+            toId: target?.id ?? null,
+            toName: target?.name ?? reply.to,
+            stance: reply.stance,
+            message: reply.message,
+          };
+        }),
+      };
+    } catch (error: any) {
+      if (!signal.aborted) {
+        console.error(`Error in ${stakeholder.name}'s meeting turn:`, error);
+      }
+      return null;
+    }
+  }
+}
+
+// Singleton instance
+export const simulationRunner = new SimulationRunner();
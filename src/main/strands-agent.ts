@@ -1,11 +1,18 @@
-import { Agent, tool, BedrockModel } from '@strands-agents/sdk';
+import { Agent, tool, BedrockModel, FunctionTool, Message, TextBlock } from '@strands-agents/sdk';
+import type { ContentBlockData, MessageData, ToolSpec } from '@strands-agents/sdk';
 import { z } from 'zod';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { app } from 'electron';
 import { EventEmitter } from 'events';
-import { TodoItem } from '../shared/types';
-import { AIProvider } from '../shared/settings';
+import { TodoItem, TokenUsage } from '../shared/types';
+import { AIProvider, EmbeddingSource, calculateCost } from '../shared/settings';
+import { mcpManager, MCPServerConfig, MCPServerResult, getMCPToolName, formatMCPToolResult } from './mcp-manager';
+import { compactHistory, clipText, CompactionResult, SUMMARY_PREFIX } from './context-manager';
+import { usageTracker } from './usage-tracker';
+import { isTransientError } from './provider-service';
+import { workspaceFiles } from './workspace-files';
+import { toolApprovals, REJECTED_CHANGE_MESSAGE, REJECTED_DELETE_MESSAGE, REJECTED_TOOL_MESSAGE } from './tool-approvals';
 
 // Dynamic import for OpenAI model
 // Note: SDK v0.1.2 exports './openai' in package.json
@@ -23,6 +30,61 @@ const loadOpenAIModel = async (): Promise<any> => {
   }
 };
 
+// Azure OpenAI needs the AzureOpenAI client from the openai package, loaded the same way
+let AzureOpenAIClass: any = null;
+const loadAzureOpenAIClient = async (): Promise<any> => {
+  if (AzureOpenAIClass) return AzureOpenAIClass;
+  try {
+    const openaiModule = await import(/* webpackIgnore: true */ 'openai');
+    AzureOpenAIClass = openaiModule.AzureOpenAI;
+    return AzureOpenAIClass;
+  } catch (e) {
+    console.warn('Azure OpenAI client not available:', e);
+    return null;
+  }
+};
+
+// Anthropic's OpenAI-compatible endpoint, so the Claude API can use the SDK's OpenAI model
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1/';
+
+const createAnthropicModel = async (config: AgentConfig): Promise<any> => {
+  const OpenAIModelClass = await loadOpenAIModel();
+  if (!OpenAIModelClass) {
+    throw new Error('OpenAI model provider is not available. Please check your installation.');
+  }
+
+  return new OpenAIModelClass({
+    apiKey: config.anthropicApiKey,
+    modelId: config.anthropicModelId || 'claude-sonnet-4-5',
+    maxTokens: 4096,
+    clientConfig: {
+      baseURL: ANTHROPIC_BASE_URL,
+    },
+  });
+};
+
+const createAzureModel = async (config: AgentConfig): Promise<any> => {
+  const OpenAIModelClass = await loadOpenAIModel();
+  const AzureOpenAI = await loadAzureOpenAIClient();
+  if (!OpenAIModelClass || !AzureOpenAI) {
+    throw new Error('Azure OpenAI provider is not available. Please check your installation.');
+  }
+
+  // Azure routes requests by deployment name, which is sent in place of the model ID
+  const client = new AzureOpenAI({
+    endpoint: config.azureEndpoint,
+    apiKey: config.azureApiKey,
+    deployment: config.azureDeployment,
+    apiVersion: config.azureApiVersion || '2024-10-21',
+  });
+
+  return new OpenAIModelClass({
+    client,
+    modelId: config.azureDeployment,
+    maxTokens: 4096,
+  });
+};
+
 // Re-export TodoItem for use by IPC handlers
 export type { TodoItem };
 
@@ -37,22 +99,84 @@ export interface AgentConfig {
   openaiApiKey?: string;
   openaiModelId?: string;
   openaiBaseUrl?: string;
+  // Anthropic settings
+  anthropicApiKey?: string;
+  anthropicModelId?: string;
+  // Azure OpenAI settings
+  azureEndpoint?: string;
+  azureApiKey?: string;
+  azureDeployment?: string;
+  azureApiVersion?: string;
+  azureModelId?: string; // Model behind the deployment, used for pricing
   // Ollama settings (local LLM)
   ollamaModelId?: string;
   ollamaBaseUrl?: string;
+  // Semantic search embeddings
+  embeddingSource?: EmbeddingSource;
+  ollamaEmbeddingModel?: string;
+  azureEmbeddingDeployment?: string;
+  // Editor autocomplete
+  inlineCompletionModel?: string; // Ollama model; empty uses the chat provider
   // Common
   systemPrompt: string;
+  contextBudget?: number; // Tokens of history before older turns are summarized
+  contextBudgets?: Record<AIProvider, number>; // Budgets for fallback providers
+  fallbackProviders?: AIProvider[]; // Tried in order when the provider keeps failing
+  deniedPaths?: string[]; // Workspace paths the file tools may not touch
 }
 
 export interface AgentStreamEvent {
-  type: 'text' | 'thinking' | 'tool_use' | 'tool_result' | 'error' | 'done';
+  type: 'text' | 'thinking' | 'tool_use' | 'tool_result' | 'context_compacted' | 'usage' | 'retry' | 'fallback' | 'error' | 'done';
   data?: string;
   toolName?: string;
   toolInput?: Record<string, any>;
   toolUseId?: string;
   requiresConfirmation?: boolean;
+  usage?: TokenUsage;
+  transient?: boolean; // Error is worth retrying on the same provider
+  provider?: AIProvider; // Provider that took over after a fallback
 }
 
+// Convert an SDK content block back to its plain data form for persistence.
+// Media and cache point blocks are not persisted.
+const toContentBlockData = (block: any): ContentBlockData | null => {
+  switch (block.type) {
+    case 'textBlock':
+      return { text: block.text };
+    case 'toolUseBlock':
+      return { toolUse: { name: block.name, toolUseId: block.toolUseId, input: block.input } };
+    case 'toolResultBlock':
+      return {
+        toolResult: {
+          toolUseId: block.toolUseId,
+          status: block.status,
+          content: block.content.map((c: any) => c.type === 'jsonBlock' ? { json: c.json } : { text: c.text }),
+        },
+      };
+    case 'reasoningBlock':
+      return block.text ? { reasoning: { text: block.text, signature: block.signature } } : null;
+    default:
+      return null;
+  }
+};
+
+// Render a message as plain text for the summarization transcript
+const messageDataToText = (message: MessageData): string => {
+  const parts = message.content.map(block => {
+    if ('text' in block) return block.text;
+    if ('toolUse' in block) return `[Tool call: ${block.toolUse.name} ${JSON.stringify(block.toolUse.input)}]`;
+    if ('toolResult' in block) {
+      const result = block.toolResult.content.map(c => 'text' in c ? c.text : JSON.stringify(c.json)).join('\n');
+      return `[Tool result: ${result}]`;
+    }
+    return '';
+  }).filter(Boolean);
+
+  return parts.length > 0
+    ? `${message.role === 'user' ? 'User' : 'Assistant'}: ${clipText(parts.join('\n'))}`
+    : '';
+};
+
 // Agent service class
 export class StrandsAgentService extends EventEmitter {
   private agent: Agent | null = null;
@@ -60,15 +184,14 @@ export class StrandsAgentService extends EventEmitter {
   private workspacePath: string | null = null;
   private todos: TodoItem[] = [];
   private abortController: AbortController | null = null;
+  // History length when the current attempt started, so a retry only drops what that attempt added
+  private attemptStart = 0;
 
-  // Tools that auto-execute without user permission
-  private autoExecuteTools = new Set([
-    'create_todo_list',
-    'update_todo',
-    'read_todo_list',
-    'read_templates',
-    'create_mockup'
-  ]);
+  constructor() {
+    super();
+    // Keep the agent's tools in sync as servers connect/crash/restart and the tool policy changes
+    mcpManager.on('toolsChanged', () => this.registerTools());
+  }
 
   setWorkspacePath(workspacePath: string | null) {
     this.workspacePath = workspacePath;
@@ -102,6 +225,10 @@ export class StrandsAgentService extends EventEmitter {
       }
       
       model = new OpenAIModelClass(openaiConfig);
+    } else if (config.provider === 'anthropic') {
+      model = await createAnthropicModel(config);
+    } else if (config.provider === 'azure') {
+      model = await createAzureModel(config);
     } else if (config.provider === 'ollama') {
       // Use OpenAI-compatible API for Ollama (local LLM)
       console.log('[OLLAMA] Initializing Ollama provider...');
@@ -148,47 +275,71 @@ export class StrandsAgentService extends EventEmitter {
       });
     }
 
-    // Create agent with built-in tools
-    // Note: MCP tools integration with Strands TypeScript SDK is still experimental
-    // For now, we use only the built-in tools
-    // Create agent with built-in tools
+    // Create agent with built-in tools plus tools from connected MCP servers
     // Qwen 3 models support tool calling via OpenAI-compatible API
     this.agent = new Agent({
       model,
       systemPrompt: config.systemPrompt,
-      tools: this.createBuiltInTools(),
+      tools: this.createTools(),
       printer: false, // Disable console output, we'll handle streaming
     });
   }
 
-  // Connect to MCP servers (placeholder for future Strands MCP integration)
-  async connectMCPServers(mcpConfigs: Record<string, any>): Promise<Record<string, { status: string; tools: any[]; error?: string }>> {
-    const results: Record<string, { status: string; tools: any[]; error?: string }> = {};
+  // Connect to MCP servers from .mcp.json (tools are registered via toolsChanged)
+  async connectMCPServers(
+    mcpConfigs: Record<string, MCPServerConfig>,
+    workspacePath?: string | null
+  ): Promise<Record<string, MCPServerResult>> {
+    return await mcpManager.connectAll(mcpConfigs, workspacePath ?? this.workspacePath);
+  }
 
-    // Note: MCP integration with Strands TypeScript SDK is experimental
-    // For now, we return a placeholder message
-    for (const [name, serverConfig] of Object.entries(mcpConfigs)) {
-      const config = serverConfig as any;
-      
-      if (config.disabled) {
-        results[name] = { status: 'disabled', tools: [] };
-      } else {
-        // MCP tools will be integrated when Strands TypeScript SDK stabilizes
-        results[name] = {
-          status: 'info',
-          tools: [],
-          error: 'MCP integration with Strands SDK is in development. Tools are managed by the agent internally.',
-        };
-      }
-    }
+  // Reconnect one MCP server
+  async reconnectMCPServer(name: string, config: MCPServerConfig): Promise<MCPServerResult> {
+    return await mcpManager.reconnect(name, config);
+  }
+
+  // Swap the tools in the live agent without losing conversation history
+  private registerTools() {
+    if (!this.agent) return;
 
-    return results;
+    const registry = this.agent.toolRegistry;
+    registry.clear();
+    registry.addAll(this.createTools());
+  }
+
+  // Enabled built-in tools plus tools from connected MCP servers
+  private createTools() {
+    const builtInTools = this.createBuiltInTools().filter(t => mcpManager.isBuiltInToolEnabled(t.name));
+    return [...builtInTools, ...this.createMCPTools()];
+  }
+
+  // Wrap each MCP tool in a FunctionTool that proxies to the MCP server
+  private createMCPTools(): FunctionTool[] {
+    return mcpManager.getTools().map(mcpTool => new FunctionTool({
+      name: getMCPToolName(mcpTool.serverName, mcpTool.name),
+      description: `[MCP: ${mcpTool.serverName}] ${mcpTool.description}`,
+      inputSchema: mcpTool.inputSchema as any,
+      callback: async (input: unknown, context?: { toolUse: { toolUseId: string } }) => {
+        const approval = await toolApprovals.approve(getMCPToolName(mcpTool.serverName, mcpTool.name), context?.toolUse.toolUseId);
+        if (!approval.approved) {
+          return REJECTED_TOOL_MESSAGE;
+        }
+        try {
+          const result = await mcpManager.callTool(mcpTool.serverName, mcpTool.name, (input || {}) as Record<string, any>);
+          return formatMCPToolResult(result);
+        } catch (error: any) {
+          return `Error calling MCP tool ${mcpTool.name}: ${error.message}`;
+        }
+      },
+    }));
   }
 
   // Stream agent response
+  // With resume, a turn that failed after the user message was added is continued instead of sent again
   async *stream(
     message: string,
-    context?: { workspacePath?: string; currentFile?: string }
+    context?: { workspacePath?: string; currentFile?: string },
+    resume: boolean = false
   ): AsyncGenerator<AgentStreamEvent> {
     if (!this.agent) {
       yield { type: 'error', data: 'Agent not initialized' };
@@ -217,9 +368,26 @@ export class StrandsAgentService extends EventEmitter {
     try {
       this.abortController = new AbortController();
 
+      if (resume) {
+        // A failed attempt can leave a reply without its tool results; answer again from the last user or tool result message
+        const messages = this.agent.messages;
+        while (messages.length > this.attemptStart && messages[messages.length - 1].role === 'assistant') {
+          messages.pop();
+        }
+      }
+
+      const compaction = await this.compactHistory();
+      if (compaction) {
+        yield { type: 'context_compacted', data: `Summarized ${compaction.summarizedCount} earlier messages to stay within the context budget` };
+      }
+      this.attemptStart = this.agent.messages.length;
+
+      const lastMessage = this.agent.messages[this.agent.messages.length - 1];
+      const input = resume && lastMessage?.role === 'user' ? [] : fullMessage;
+
       // Use agent.stream() for real-time events
       // Cast events to any for flexibility with SDK types
-      for await (const event of this.agent.stream(fullMessage)) {
+      for await (const event of this.agent.stream(input)) {
         const ev = event as any;
         
         // Handle different event types from Strands
@@ -242,7 +410,7 @@ export class StrandsAgentService extends EventEmitter {
                 type: 'tool_use',
                 toolName,
                 toolUseId: ev.start.toolUseId,
-                requiresConfirmation: !this.autoExecuteTools.has(toolName),
+                requiresConfirmation: toolApprovals.announce(toolName, ev.start.toolUseId),
               };
             }
             break;
@@ -259,7 +427,7 @@ export class StrandsAgentService extends EventEmitter {
                 toolName: toolBlock.name,
                 toolInput: toolBlock.input,
                 toolUseId: toolBlock.toolUseId,
-                requiresConfirmation: !this.autoExecuteTools.has(toolBlock.name),
+                requiresConfirmation: toolApprovals.announce(toolBlock.name, toolBlock.toolUseId),
               };
             }
             break;
@@ -281,10 +449,17 @@ export class StrandsAgentService extends EventEmitter {
             }
             break;
 
+          case 'modelMetadataEvent':
+            // Token usage for each model call in the agent loop
+            if (ev.usage) {
+              yield { type: 'usage', usage: this.toTokenUsage(ev.usage) };
+            }
+            break;
+
           case 'afterInvocationEvent':
             // Agent finished - check for error property
             if (ev.error) {
-              yield { type: 'error', data: ev.error.message || String(ev.error) };
+              yield { type: 'error', data: ev.error.message || String(ev.error), transient: isTransientError(ev.error) };
             }
             break;
         }
@@ -295,7 +470,7 @@ export class StrandsAgentService extends EventEmitter {
       if (error.name === 'AbortError') {
         yield { type: 'done', data: 'Cancelled' };
       } else {
-        yield { type: 'error', data: error.message };
+        yield { type: 'error', data: error.message, transient: isTransientError(error) };
       }
     }
   }
@@ -319,6 +494,81 @@ export class StrandsAgentService extends EventEmitter {
     this.clearTodos();
   }
 
+  // Swap the model, e.g. when failing over to another provider, keeping the conversation and todos
+  async switchModel(config: AgentConfig): Promise<void> {
+    const history = this.getHistory();
+    await this.initialize(config);
+    this.replaceHistory(history);
+  }
+
+  // Conversation history as plain message data (for session persistence)
+  getHistory(): MessageData[] {
+    if (!this.agent) return [];
+    return this.agent.messages.map(message => ({
+      role: message.role,
+      content: message.content
+        .map(toContentBlockData)
+        .filter((block): block is ContentBlockData => block !== null),
+    }));
+  }
+
+  // Replace the conversation history, e.g. when resuming a saved session
+  restoreHistory(messages: MessageData[]) {
+    this.replaceHistory(messages);
+    this.clearTodos();
+  }
+
+  private replaceHistory(messages: MessageData[]) {
+    if (!this.agent) return;
+    this.agent.messages.splice(0, this.agent.messages.length, ...messages.map(m => Message.fromMessageData(m)));
+  }
+
+  // Model id of the configured provider (used for pricing)
+  private getModelId(): string {
+    switch (this.config?.provider) {
+      case 'openai':
+        return this.config.openaiModelId || 'gpt-5.1';
+      case 'anthropic':
+        return this.config.anthropicModelId || 'claude-sonnet-4-5';
+      case 'azure':
+        return this.config.azureModelId || this.config.azureDeployment || '';
+      case 'ollama':
+        return this.config.ollamaModelId || 'qwen2.5:3b';
+      default:
+        return this.config?.bedrockModelId || 'us.anthropic.claude-sonnet-4-20250514-v1:0';
+    }
+  }
+
+  private toTokenUsage(usage: { inputTokens: number; outputTokens: number }): TokenUsage {
+    return {
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cost: calculateCost(this.config?.provider || 'bedrock', this.getModelId(), usage.inputTokens, usage.outputTokens),
+    };
+  }
+
+  // Summarize older turns once the history approaches the context budget
+  private async compactHistory(): Promise<CompactionResult | null> {
+    if (!this.agent || !this.config?.contextBudget) return null;
+
+    const history = this.getHistory();
+    const result = await compactHistory(history, {
+      budget: this.config.contextBudget,
+      isTurnStart: message => message.role === 'user' && !message.content.some(block => 'toolResult' in block),
+      toText: messageDataToText,
+      summarize: (prompt, systemPrompt) => this.simpleCompletion(prompt, systemPrompt),
+    });
+
+    if (result) {
+      this.replaceHistory([
+        { role: 'user', content: [{ text: `${SUMMARY_PREFIX}\n${result.summary}` }] },
+        { role: 'assistant', content: [{ text: 'Understood. I will continue from this summary.' }] },
+        ...history.slice(result.keepFrom),
+      ]);
+    }
+    return result;
+  }
+
   // Todo management
   getTodos(): TodoItem[] {
     return [...this.todos];
@@ -333,6 +583,10 @@ export class StrandsAgentService extends EventEmitter {
   private createBuiltInTools() {
     const self = this;
 
+    // Tools without a diff to review only need a yes or no before they run
+    const confirmed = async (name: string, context?: { toolUse: { toolUseId: string } }) =>
+      (await toolApprovals.approve(name, context?.toolUse.toolUseId)).approved;
+
     // List directory tool
     const listDirectoryTool = tool({
       name: 'list_directory',
@@ -340,8 +594,9 @@ export class StrandsAgentService extends EventEmitter {
       inputSchema: z.object({
         path: z.string().optional().describe('OPTIONAL: Relative path to a subfolder within the workspace (e.g., "src" or "docs/api"). Leave EMPTY or omit entirely to list the workspace root.'),
       }),
-      callback: async (input) => {
-        return await self.executeListDirectory(input.path);
+      callback: async (input, context) => {
+        if (!(await confirmed('list_directory', context))) return REJECTED_TOOL_MESSAGE;
+        return await workspaceFiles.listDirectory(self.workspacePath, input.path, true);
       },
     });
 
@@ -352,8 +607,50 @@ export class StrandsAgentService extends EventEmitter {
       inputSchema: z.object({
         file_path: z.string().describe('Relative path to the file within the workspace (e.g., "package.json", "src/main.ts"). Do NOT use absolute paths.'),
       }),
-      callback: async (input) => {
-        return await self.executeReadFile(input.file_path);
+      callback: async (input, context) => {
+        if (!(await confirmed('read_file', context))) return REJECTED_TOOL_MESSAGE;
+        return await workspaceFiles.readFile(self.workspacePath, input.file_path);
+      },
+    });
+
+    // Search workspace tool
+    const searchWorkspaceTool = tool({
+      name: 'search_workspace',
+      description: 'Search the text of all files in the workspace, like grep. Use this to find which documents mention something instead of reading every file.',
+      inputSchema: z.object({
+        query: z.string().describe('Text to search for, or a regular expression if is_regex is true.'),
+        is_regex: z.boolean().optional().describe('OPTIONAL: Treat query as a JavaScript regular expression.'),
+        case_sensitive: z.boolean().optional().describe('OPTIONAL: Match case exactly (default: case-insensitive).'),
+        include: z.array(z.string()).optional().describe('OPTIONAL: Only search files matching these globs, e.g. ["*.md", "docs/**"].'),
+        exclude: z.array(z.string()).optional().describe('OPTIONAL: Skip files matching these globs.'),
+        max_results: z.number().optional().describe('OPTIONAL: Maximum number of matching lines to return (default: 100).'),
+        context_lines: z.number().optional().describe('OPTIONAL: Lines of context to show around each match (0-5, default: 0).'),
+      }),
+      callback: async (input, context) => {
+        if (!(await confirmed('search_workspace', context))) return REJECTED_TOOL_MESSAGE;
+        return await workspaceFiles.search(self.workspacePath, {
+          query: input.query,
+          isRegex: input.is_regex,
+          caseSensitive: input.case_sensitive,
+          include: input.include,
+          exclude: input.exclude,
+          maxResults: input.max_results,
+          contextLines: input.context_lines,
+        });
+      },
+    });
+
+    // Semantic search tool
+    const semanticSearchTool = tool({
+      name: 'semantic_search',
+      description: 'Find passages in the workspace documents (PRDs, specs, research notes) that are related in meaning to a question or topic, even when they use different words. Returns the best-matching sections with their file, heading and lines.',
+      inputSchema: z.object({
+        query: z.string().describe('What to look for, in natural language (e.g. "pricing decisions for the enterprise tier").'),
+        max_results: z.number().optional().describe('OPTIONAL: Number of passages to return (default: 5, max: 20).'),
+      }),
+      callback: async (input, context) => {
+        if (!(await confirmed('semantic_search', context))) return REJECTED_TOOL_MESSAGE;
+        return await workspaceFiles.semanticSearch(self.workspacePath, input.query, input.max_results);
       },
     });
 
@@ -365,8 +662,62 @@ export class StrandsAgentService extends EventEmitter {
         file_path: z.string().describe('REQUIRED: Relative path for the file (e.g., "docs/PRD.md"). Must be provided.'),
         content: z.string().describe('REQUIRED: The COMPLETE file content as a string. This is MANDATORY.'),
       }),
-      callback: async (input) => {
-        return await self.executeWriteFile(input.file_path, input.content);
+      callback: async (input, context) => {
+        if (!input.file_path) {
+          return 'Error: file_path is required';
+        }
+
+        // Wait for the user to review the diff; they may accept only part of it or edit it
+        const approval = await toolApprovals.approve('write_file', context?.toolUse.toolUseId);
+        if (!approval.approved) {
+          return REJECTED_CHANGE_MESSAGE;
+        }
+        return await workspaceFiles.writeFile(self.workspacePath, input.file_path, approval.content ?? input.content);
+      },
+    });
+
+    // Edit file tool
+    const editFileTool = tool({
+      name: 'edit_file',
+      description: 'Edit part of an existing file by replacing an exact piece of text. Prefer this over write_file for changes to existing files. old_text must match the file exactly (including whitespace) and only once, unless replace_all is true.',
+      inputSchema: z.object({
+        file_path: z.string().describe('Relative path of the file to edit (e.g., "docs/PRD.md").'),
+        old_text: z.string().describe('Exact text to replace, copied from the file. Include enough surrounding lines to make it unique.'),
+        new_text: z.string().describe('Text to put in its place. Use an empty string to delete old_text.'),
+        replace_all: z.boolean().optional().describe('OPTIONAL: Replace every occurrence instead of requiring a unique match.'),
+      }),
+      callback: async (input, context) => {
+        // The user reviews the edited file as a diff and may change it before it is written
+        const approval = await toolApprovals.approve('edit_file', context?.toolUse.toolUseId);
+        if (!approval.approved) {
+          return REJECTED_CHANGE_MESSAGE;
+        }
+        if (approval.content !== undefined) {
+          return await workspaceFiles.writeFile(self.workspacePath, input.file_path, approval.content);
+        }
+        return await workspaceFiles.editFile(self.workspacePath, input.file_path, input.old_text, input.new_text, input.replace_all);
+      },
+    });
+
+    // Edit markdown section tool
+    const editMarkdownSectionTool = tool({
+      name: 'edit_markdown_section',
+      description: 'Change one section of a markdown document, found by its heading. "replace" swaps the whole section body (including subsections) and keeps the heading, "insert" adds content right under the heading, "append" adds it at the end of the section.',
+      inputSchema: z.object({
+        file_path: z.string().describe('Relative path of the markdown file (e.g., "docs/PRD.md").'),
+        heading: z.string().describe('Heading text without the # marks. Use " > " to pick a nested heading, e.g. "Requirements > Functional Requirements".'),
+        mode: z.enum(['replace', 'insert', 'append']).describe('How to apply the content to the section.'),
+        content: z.string().describe('Markdown to place in the section, without the heading line itself.'),
+      }),
+      callback: async (input, context) => {
+        const approval = await toolApprovals.approve('edit_markdown_section', context?.toolUse.toolUseId);
+        if (!approval.approved) {
+          return REJECTED_CHANGE_MESSAGE;
+        }
+        if (approval.content !== undefined) {
+          return await workspaceFiles.writeFile(self.workspacePath, input.file_path, approval.content);
+        }
+        return await workspaceFiles.editMarkdownSection(self.workspacePath, input.file_path, input.heading, input.mode, input.content);
       },
     });
 
@@ -377,8 +728,9 @@ export class StrandsAgentService extends EventEmitter {
       inputSchema: z.object({
         dir_path: z.string().describe('Relative path for the new directory within the workspace (e.g., "docs/specs").'),
       }),
-      callback: async (input) => {
-        return await self.executeCreateDirectory(input.dir_path);
+      callback: async (input, context) => {
+        if (!(await confirmed('create_directory', context))) return REJECTED_TOOL_MESSAGE;
+        return await workspaceFiles.createDirectory(self.workspacePath, input.dir_path);
       },
     });
 
@@ -389,8 +741,12 @@ export class StrandsAgentService extends EventEmitter {
       inputSchema: z.object({
         file_path: z.string().describe('Relative path to the file or directory to delete within the workspace.'),
       }),
-      callback: async (input) => {
-        return await self.executeDeleteFile(input.file_path);
+      callback: async (input, context) => {
+        const approval = await toolApprovals.approve('delete_file', context?.toolUse.toolUseId);
+        if (!approval.approved) {
+          return REJECTED_DELETE_MESSAGE;
+        }
+        return await workspaceFiles.deletePath(self.workspacePath, input.file_path);
       },
     });
 
@@ -401,7 +757,8 @@ export class StrandsAgentService extends EventEmitter {
       inputSchema: z.object({
         template_name: z.string().optional().describe('OPTIONAL: Specific template filename to read. If omitted, returns all available templates.'),
       }),
-      callback: async (input) => {
+      callback: async (input, context) => {
+        if (!(await confirmed('read_templates', context))) return REJECTED_TOOL_MESSAGE;
         return await self.executeReadTemplates(input.template_name);
       },
     });
@@ -416,7 +773,8 @@ export class StrandsAgentService extends EventEmitter {
           status: z.enum(['pending', 'in_progress']).optional().describe('Initial status. Use "in_progress" for the first task.'),
         })).describe('Array of todo items to create.'),
       }),
-      callback: (input) => {
+      callback: async (input, context) => {
+        if (!(await confirmed('create_todo_list', context))) return REJECTED_TOOL_MESSAGE;
         return self.executeCreateTodoList(input.items);
       },
     });
@@ -430,7 +788,8 @@ export class StrandsAgentService extends EventEmitter {
         status: z.enum(['pending', 'in_progress', 'completed', 'cancelled']).describe('New status for the todo item'),
         content: z.string().optional().describe('OPTIONAL: New content/description for the todo item'),
       }),
-      callback: (input) => {
+      callback: async (input, context) => {
+        if (!(await confirmed('update_todo', context))) return REJECTED_TOOL_MESSAGE;
         return self.executeUpdateTodo(input.todo_id, input.status, input.content);
       },
     });
@@ -440,7 +799,8 @@ export class StrandsAgentService extends EventEmitter {
       name: 'read_todo_list',
       description: "Read the current todo list to check progress.",
       inputSchema: z.object({}),
-      callback: () => {
+      callback: async (_input, context) => {
+        if (!(await confirmed('read_todo_list', context))) return REJECTED_TOOL_MESSAGE;
         return self.executeReadTodoList();
       },
     });
@@ -469,7 +829,8 @@ export class StrandsAgentService extends EventEmitter {
           dashed: z.boolean().optional(),
         })).describe('Array of UI elements to draw on the mockup'),
       }),
-      callback: async (input) => {
+      callback: async (input, context) => {
+        if (!(await confirmed('create_mockup', context))) return REJECTED_TOOL_MESSAGE;
         // Emit event for renderer to handle mockup creation
         self.emit('createMockup', input);
         return `Mockup request sent: ${input.file_path}`;
@@ -479,7 +840,11 @@ export class StrandsAgentService extends EventEmitter {
     return [
       listDirectoryTool,
       readFileTool,
+      searchWorkspaceTool,
+      semanticSearchTool,
       writeFileTool,
+      editFileTool,
+      editMarkdownSectionTool,
       createDirectoryTool,
       deleteFileTool,
       readTemplatesTool,
@@ -491,149 +856,6 @@ export class StrandsAgentService extends EventEmitter {
   }
 
   // Tool execution methods
-  private resolvePath(filePath: string): string {
-    if (path.isAbsolute(filePath)) {
-      return filePath;
-    }
-    if (this.workspacePath) {
-      return path.join(this.workspacePath, filePath);
-    }
-    return path.resolve(filePath);
-  }
-
-  private async executeListDirectory(dirPath?: string): Promise<string> {
-    try {
-      let normalizedPath = dirPath?.trim() || '';
-      if (normalizedPath === '.' || normalizedPath === './') {
-        normalizedPath = '';
-      }
-
-      let targetPath: string;
-      if (!normalizedPath) {
-        targetPath = this.workspacePath || process.cwd();
-      } else if (this.workspacePath) {
-        targetPath = path.join(this.workspacePath, normalizedPath);
-      } else {
-        targetPath = normalizedPath;
-      }
-
-      const items = await this.readDirectoryRecursive(targetPath, 0);
-      const output = this.formatDirectoryTree(items, 0);
-      return `Directory listing for: ${targetPath}\n\n${output}`;
-    } catch (error: any) {
-      return `Error listing directory: ${error.message}`;
-    }
-  }
-
-  private async readDirectoryRecursive(dirPath: string, depth: number): Promise<any[]> {
-    const items: any[] = [];
-    if (depth > 5) return items;
-
-    try {
-      const entries = await fs.readdir(dirPath, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        if (entry.name.startsWith('.') || entry.name === 'node_modules') {
-          continue;
-        }
-
-        const fullPath = path.join(dirPath, entry.name);
-        const item: any = {
-          name: entry.name,
-          path: fullPath,
-          isDirectory: entry.isDirectory(),
-        };
-
-        if (entry.isDirectory()) {
-          item.children = await this.readDirectoryRecursive(fullPath, depth + 1);
-        }
-
-        items.push(item);
-      }
-    } catch (error) {
-      console.error('Error reading directory:', error);
-    }
-
-    return items.sort((a, b) => {
-      if (a.isDirectory && !b.isDirectory) return -1;
-      if (!a.isDirectory && b.isDirectory) return 1;
-      return a.name.localeCompare(b.name);
-    });
-  }
-
-  private formatDirectoryTree(items: any[], depth: number): string {
-    let output = '';
-    const indent = '  '.repeat(depth);
-    
-    for (const item of items) {
-      const icon = item.isDirectory ? '📁' : '📄';
-      output += `${indent}${icon} ${item.name}\n`;
-      
-      if (item.isDirectory && item.children && item.children.length > 0) {
-        output += this.formatDirectoryTree(item.children, depth + 1);
-      }
-    }
-    
-    return output;
-  }
-
-  private async executeReadFile(filePath: string): Promise<string> {
-    try {
-      const fullPath = this.resolvePath(filePath);
-      const content = await fs.readFile(fullPath, 'utf-8');
-      return `Content of ${filePath}:\n\n${content}`;
-    } catch (error: any) {
-      return `Error reading file: ${error.message}`;
-    }
-  }
-
-  private async executeWriteFile(filePath: string, content: string): Promise<string> {
-    try {
-      if (!filePath) {
-        return 'Error: file_path is required';
-      }
-      
-      const safeContent = content ?? '';
-      const fullPath = this.resolvePath(filePath);
-      
-      // Ensure directory exists
-      const dir = path.dirname(fullPath);
-      await fs.mkdir(dir, { recursive: true });
-      
-      await fs.writeFile(fullPath, safeContent, 'utf-8');
-      return `File created/updated successfully: ${filePath}`;
-    } catch (error: any) {
-      return `Error writing file: ${error.message}`;
-    }
-  }
-
-  private async executeCreateDirectory(dirPath: string): Promise<string> {
-    try {
-      const fullPath = this.resolvePath(dirPath);
-      await fs.mkdir(fullPath, { recursive: true });
-      return `Directory created successfully: ${dirPath}`;
-    } catch (error: any) {
-      return `Error creating directory: ${error.message}`;
-    }
-  }
-
-  private async executeDeleteFile(filePath: string): Promise<string> {
-    try {
-      const fullPath = this.resolvePath(filePath);
-      const stats = await fs.stat(fullPath);
-      
-      if (stats.isDirectory()) {
-        await fs.rm(fullPath, { recursive: true });
-      } else {
-        await fs.unlink(fullPath);
-      }
-      
-      return `File/directory deleted successfully: ${filePath}`;
-    } catch (error: any) {
-      return `Error deleting: ${error.message}`;
-    }
-  }
-
   private getTemplatesPath(): string {
     const appPath = app.isPackaged 
       ? path.dirname(app.getPath('exe'))
@@ -739,14 +961,12 @@ export class StrandsAgentService extends EventEmitter {
     }).join('\n');
   }
 
-  // Simple completion without tools - for simulator
-  async simpleCompletion(prompt: string): Promise<string> {
+  // Model for one-off completions outside the chat
+  private async createCompletionModel(): Promise<any> {
     if (!this.config) {
       throw new Error('Agent not initialized. Call initialize() first.');
     }
 
-    let model;
-    
     if (this.config.provider === 'openai') {
       const OpenAIModelClass = await loadOpenAIModel();
       if (!OpenAIModelClass) {
@@ -763,7 +983,11 @@ export class StrandsAgentService extends EventEmitter {
         openaiConfig.clientConfig = { baseURL: this.config.openaiBaseUrl };
       }
       
-      model = new OpenAIModelClass(openaiConfig);
+      return new OpenAIModelClass(openaiConfig);
+    } else if (this.config.provider === 'anthropic') {
+      return createAnthropicModel(this.config);
+    } else if (this.config.provider === 'azure') {
+      return createAzureModel(this.config);
     } else if (this.config.provider === 'ollama') {
       const OpenAIModelClass = await loadOpenAIModel();
       if (!OpenAIModelClass) {
@@ -773,24 +997,37 @@ export class StrandsAgentService extends EventEmitter {
       const ollamaBaseUrl = this.config.ollamaBaseUrl || 'http://localhost:11434';
       const ollamaModelId = this.config.ollamaModelId || 'qwen3:4b';
 
-      model = new OpenAIModelClass({
+      return new OpenAIModelClass({
         apiKey: 'ollama',
         modelId: ollamaModelId,
         maxTokens: 4096,
         clientConfig: { baseURL: `${ollamaBaseUrl}/v1` },
       });
-    } else {
-      // Bedrock
-      model = new BedrockModel({
-        modelId: this.config.bedrockModelId || 'us.anthropic.claude-sonnet-4-20250514-v1:0',
-        region: this.config.region,
-      });
+    }
+
+    // Bedrock
+    return new BedrockModel({
+      modelId: this.config.bedrockModelId || 'us.anthropic.claude-sonnet-4-20250514-v1:0',
+      region: this.config.region,
+    });
+  }
+
+  // Simple completion without tools - for simulator and history summaries
+  async simpleCompletion(
+    prompt: string,
+    systemPrompt: string = 'You are a helpful assistant. Respond only with valid JSON as requested.',
+    signal?: AbortSignal,
+    maxTokens?: number
+  ): Promise<string> {
+    const model = await this.createCompletionModel();
+    if (maxTokens) {
+      model.updateConfig({ maxTokens });
     }
 
     // Create a simple agent without tools for completion
     const simpleAgent = new Agent({
       model,
-      systemPrompt: 'You are a helpful assistant. Respond only with valid JSON as requested.',
+      systemPrompt,
       tools: [],
       printer: false,
     });
@@ -798,14 +1035,56 @@ export class StrandsAgentService extends EventEmitter {
     // Collect the response
     let fullResponse = '';
     for await (const event of simpleAgent.stream(prompt)) {
+      if (signal?.aborted) {
+        throw new Error('Cancelled');
+      }
       const ev = event as any;
       if (ev.type === 'modelContentBlockDeltaEvent' && ev.delta?.type === 'textDelta' && ev.delta.text) {
         fullResponse += ev.delta.text;
       }
+      // Not tied to a chat message, so only counted in the monthly totals
+      if (ev.type === 'modelMetadataEvent' && ev.usage) {
+        usageTracker.record(this.toTokenUsage(ev.usage)).catch(console.error);
+      }
     }
 
     return fullResponse;
   }
+
+  // Structured output: the model is made to call the given tool, and the tool's input is the result.
+  // Calls the model directly because the agent loop would try to run the tool.
+  async structuredCompletion(
+    prompt: string,
+    systemPrompt: string,
+    toolSpec: ToolSpec,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    const model = await this.createCompletionModel();
+    const messages = [new Message({ role: 'user', content: [new TextBlock(prompt)] })];
+
+    let input: unknown = undefined;
+    for await (const event of model.streamAggregated(messages, {
+      systemPrompt,
+      toolSpecs: [toolSpec],
+      toolChoice: { tool: { name: toolSpec.name } },
+    })) {
+      if (signal?.aborted) {
+        throw new Error('Cancelled');
+      }
+      const ev = event as any;
+      if (ev.type === 'toolUseBlock' && ev.name === toolSpec.name) {
+        input = ev.input;
+      }
+      if (ev.type === 'modelMetadataEvent' && ev.usage) {
+        usageTracker.record(this.toTokenUsage(ev.usage)).catch(console.error);
+      }
+    }
+
+    if (input === undefined) {
+      throw new Error(`The model did not call ${toolSpec.name}`);
+    }
+    return input;
+  }
 }
 
 // Singleton instance
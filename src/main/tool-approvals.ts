@@ -0,0 +1,75 @@
+// Holds tool calls that must wait for the user's decision in the chat panel.
+// Every tool that needs confirmation waits here before it runs; file writes and edits also get the
+// content the user approved (and possibly edited), so that is what gets written.
+import { mcpManager } from './mcp-manager';
+
+export const REJECTED_CHANGE_MESSAGE = 'The user rejected this change. The file was not modified.';
+export const REJECTED_DELETE_MESSAGE = 'The user rejected this deletion. Nothing was deleted.';
+export const REJECTED_TOOL_MESSAGE = 'The user denied this tool call. It was not run.';
+
+// Built-in tools that change files; they ask for approval themselves, with the change to review
+export const FILE_CHANGE_TOOLS = new Set(['write_file', 'edit_file', 'edit_markdown_section', 'delete_file']);
+
+export interface ToolApproval {
+  approved: boolean;
+  content?: string; // Whole file as reviewed in the diff preview, including the user's edits
+}
+
+export class ToolApprovals {
+  private pending = new Map<string, (approval: ToolApproval) => void>();
+  // Announced calls that will wait, so a decision arriving before the tool runs is kept for it
+  private expected = new Set<string>();
+  // Decisions that arrived before the tool started waiting for them
+  private decided = new Map<string, ToolApproval>();
+
+  // Called when a tool call is reported to the chat panel; returns whether the user is asked to confirm it
+  announce(toolName: string, toolUseId: string | undefined): boolean {
+    const requiresConfirmation = mcpManager.requiresConfirmation(toolName);
+    if (requiresConfirmation && toolUseId && !this.pending.has(toolUseId)) {
+      this.expected.add(toolUseId);
+    }
+    return requiresConfirmation;
+  }
+
+  // Wait for the user if the tool needs confirmation; auto-approved tools pass straight through
+  approve(toolName: string, toolUseId: string | undefined): Promise<ToolApproval> {
+    if (!toolUseId || !mcpManager.requiresConfirmation(toolName)) {
+      return Promise.resolve({ approved: true });
+    }
+    return this.request(toolUseId);
+  }
+
+  request(toolUseId: string): Promise<ToolApproval> {
+    this.expected.delete(toolUseId);
+    const decision = this.decided.get(toolUseId);
+    if (decision) {
+      this.decided.delete(toolUseId);
+      return Promise.resolve(decision);
+    }
+    return new Promise(resolve => this.pending.set(toolUseId, resolve));
+  }
+
+  resolve(toolUseId: string, approval: ToolApproval) {
+    const resolve = this.pending.get(toolUseId);
+    if (resolve) {
+      this.pending.delete(toolUseId);
+      resolve(approval);
+    } else if (this.expected.delete(toolUseId)) {
+      this.decided.set(toolUseId, approval);
+    }
+    // Otherwise no tool call is waiting for this decision
+  }
+
+  // Deny everything still waiting, e.g. when the request is aborted
+  cancelAll() {
+    for (const resolve of this.pending.values()) {
+      resolve({ approved: false });
+    }
+    this.pending.clear();
+    this.expected.clear();
+    this.decided.clear();
+  }
+}
+
+// Singleton instance
+export const toolApprovals = new ToolApprovals();
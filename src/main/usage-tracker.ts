@@ -0,0 +1,70 @@
+import { app } from 'electron';
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MonthlyUsage, TokenUsage } from '../shared/types';
+
+// Monthly totals are kept in the user data directory, keyed by YYYY-MM
+const getUsagePath = () => {
+  return path.join(app.getPath('userData'), 'usage.json');
+};
+
+const getCurrentMonth = () => new Date().toISOString().substring(0, 7);
+
+export class UsageTracker extends EventEmitter {
+  // Shared by every caller, so concurrent first calls don't each get their own copy
+  private loading: Promise<Record<string, MonthlyUsage>> | null = null;
+  // Serializes writes to usage.json; parallel reviews record usage at the same time
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  // Add a priced model call to this month's totals
+  async record(usage: TokenUsage): Promise<void> {
+    const months = await this.load();
+    const month = getCurrentMonth();
+    const current = months[month] || { month, inputTokens: 0, outputTokens: 0, cost: 0 };
+    months[month] = {
+      month,
+      inputTokens: current.inputTokens + usage.inputTokens,
+      outputTokens: current.outputTokens + usage.outputTokens,
+      cost: current.cost + (usage.cost || 0),
+    };
+
+    await this.save(months);
+    this.emit('usageUpdated', months[month]);
+  }
+
+  async getMonthlyUsage(): Promise<MonthlyUsage> {
+    const month = getCurrentMonth();
+    const months = await this.load();
+    return months[month] || { month, inputTokens: 0, outputTokens: 0, cost: 0 };
+  }
+
+  private load(): Promise<Record<string, MonthlyUsage>> {
+    if (!this.loading) {
+      this.loading = fs.readFile(getUsagePath(), 'utf-8')
+        .then(content => JSON.parse(content))
+        .catch((error: any) => {
+          if (error.code !== 'ENOENT') {
+            console.error('[USAGE] Error loading usage:', error);
+          }
+          return {};
+        });
+    }
+    return this.loading;
+  }
+
+  // Each write serializes the totals as they are when its turn comes, so the last one is always current
+  private save(months: Record<string, MonthlyUsage>): Promise<void> {
+    const write = async () => {
+      try {
+        await fs.writeFile(getUsagePath(), JSON.stringify(months, null, 2), 'utf-8');
+      } catch (error) {
+        console.error('[USAGE] Error saving usage:', error);
+      }
+    };
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
+
+export const usageTracker = new UsageTracker();
@@ -0,0 +1,418 @@
+// Sandboxed file access for the agents' built-in file tools, shared by the Strands and Ollama agents.
+// Every path is resolved inside the workspace (following symlinks) and checked against the deny-list.
+// Writes and deletes are snapshotted into the checkpoint store first, so the user can revert them.
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { APP_DATA_DIR, DEFAULT_DENIED_PATHS } from '../shared/settings';
+import { MarkdownSectionMode, editMarkdownSection, replaceExactText } from '../shared/text-edits';
+import { checkpointStore } from './checkpoint-store';
+import { workspaceSearch, formatSearchResults, listWorkspaceFiles } from './workspace-search';
+import { semanticIndex, formatSemanticResults } from './semantic-index';
+import { estimateTokens } from './context-manager';
+import { ChatAttachment, WorkspaceSearchOptions } from '../shared/types';
+
+const MAX_LIST_DEPTH = 5;
+// Chat attachments: larger files are left out, and a folder contributes at most MAX_ATTACHMENT_FOLDER_FILES
+const MAX_ATTACHMENT_FILE_SIZE = 256 * 1024;
+const MAX_ATTACHMENT_FOLDER_FILES = 30;
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown', '.prd'];
+
+export type WorkspaceAccessReason = 'no_workspace' | 'outside_workspace' | 'denied_path';
+
+// Raised when a tool call reaches for a path the agent is not allowed to touch
+export class WorkspaceAccessError extends Error {
+  constructor(readonly reason: WorkspaceAccessReason, readonly requestedPath: string, message: string) {
+    super(message);
+    this.name = 'WorkspaceAccessError';
+  }
+}
+
+// Permission errors are returned as JSON so the model can tell them apart from ordinary I/O failures
+export const formatToolError = (action: string, error: any): string => {
+  if (error instanceof WorkspaceAccessError) {
+    return JSON.stringify({
+      error: 'permission_denied',
+      reason: error.reason,
+      path: error.requestedPath,
+      message: error.message,
+    });
+  }
+  return `Error ${action}: ${error.message}`;
+};
+
+const globToRegExp = (pattern: string): RegExp => {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+// Patterns without a slash match a file or folder name at any depth (".git", ".env.*");
+// patterns with one match from the workspace root ("docs/private")
+const findDeniedPattern = (relativePath: string, deniedPaths: string[]): string | null => {
+  const segments = relativePath.split(/[\\/]/).filter(Boolean);
+
+  for (const entry of deniedPaths) {
+    const pattern = entry.trim().replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+    if (!pattern) continue;
+
+    const regex = globToRegExp(pattern);
+    if (pattern.includes('/')) {
+      const depth = pattern.split('/').length;
+      if (segments.length >= depth && regex.test(segments.slice(0, depth).join('/'))) {
+        return pattern;
+      }
+    } else if (segments.some(segment => regex.test(segment))) {
+      return pattern;
+    }
+  }
+  return null;
+};
+
+const isInside = (root: string, target: string): boolean => {
+  const relative = path.relative(root, target);
+  return !path.isAbsolute(relative) && relative.split(path.sep)[0] !== '..';
+};
+
+// Resolve symlinks for the deepest existing part of the path, so files that don't exist yet are checked too
+const realpathExisting = async (target: string): Promise<string> => {
+  const missing: string[] = [];
+  let current = target;
+
+  while (true) {
+    try {
+      const real = await fs.realpath(current);
+      return path.join(real, ...missing.reverse());
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+
+      const parent = path.dirname(current);
+      if (parent === current) return target;
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+};
+
+interface DirectoryItem {
+  name: string;
+  isDirectory: boolean;
+  children?: DirectoryItem[];
+}
+
+export class WorkspaceFiles {
+  private deniedPaths: string[] = [...DEFAULT_DENIED_PATHS];
+
+  // The app's own data stays denied even when removed from the list, since undoing a turn relies on it
+  setDeniedPaths(deniedPaths: string[]) {
+    const entries = deniedPaths.map(p => p.trim()).filter(Boolean);
+    this.deniedPaths = entries.includes(APP_DATA_DIR) ? entries : [...entries, APP_DATA_DIR];
+  }
+
+  // Whether a workspace-relative path is on the deny-list
+  isProtected(relativePath: string): boolean {
+    return !!findDeniedPattern(relativePath, this.deniedPaths);
+  }
+
+  // Resolve a tool path to a real path inside the workspace, or throw a WorkspaceAccessError
+  async resolve(workspacePath: string | null, requestedPath: string): Promise<string> {
+    if (!workspacePath) {
+      throw new WorkspaceAccessError('no_workspace', requestedPath, 'No workspace folder is open. Ask the user to open a folder first.');
+    }
+
+    const root = await fs.realpath(workspacePath);
+    // Absolute paths are allowed as long as they point into the workspace
+    const target = path.resolve(root, requestedPath.trim());
+    const realTarget = await realpathExisting(target);
+
+    if (!isInside(root, target) && !isInside(root, realTarget)) {
+      throw new WorkspaceAccessError('outside_workspace', requestedPath, `"${requestedPath}" is outside the workspace. Only paths inside the workspace folder can be used.`);
+    }
+    if (!isInside(root, realTarget)) {
+      throw new WorkspaceAccessError('outside_workspace', requestedPath, `"${requestedPath}" is a symbolic link to a location outside the workspace.`);
+    }
+
+    // Check the path as given and as resolved, so a protected file can't be reached through a link
+    const denied = (isInside(root, target) && findDeniedPattern(path.relative(root, target), this.deniedPaths))
+      || findDeniedPattern(path.relative(root, realTarget), this.deniedPaths);
+    if (denied) {
+      throw new WorkspaceAccessError('denied_path', requestedPath, `"${requestedPath}" is protected ("${denied}") and cannot be accessed by the assistant.`);
+    }
+
+    return realTarget;
+  }
+
+  async listDirectory(workspacePath: string | null, dirPath: string = '', recursive: boolean = false): Promise<string> {
+    try {
+      let normalizedPath = dirPath.trim();
+      if (normalizedPath === '.' || normalizedPath === './') {
+        normalizedPath = '';
+      }
+
+      const targetPath = await this.resolve(workspacePath, normalizedPath);
+      if (!(await fs.stat(targetPath)).isDirectory()) {
+        return `Error listing directory: ${dirPath} is not a directory`;
+      }
+
+      const root = await fs.realpath(workspacePath!);
+      const items = await this.readDirectory(root, targetPath, 0, recursive ? MAX_LIST_DEPTH : 0);
+
+      if (recursive) {
+        return `Directory listing for: ${targetPath}\n\n${this.formatDirectoryTree(items, 0)}`;
+      }
+      const output = items.map(item => `${item.isDirectory ? '📁' : '📄'} ${item.name}`).join('\n');
+      return `Directory: ${targetPath}\n\n${output || '(empty)'}`;
+    } catch (error: any) {
+      return formatToolError('listing directory', error);
+    }
+  }
+
+  async readFile(workspacePath: string | null, filePath: string): Promise<string> {
+    try {
+      const fullPath = await this.resolve(workspacePath, filePath);
+      const content = await fs.readFile(fullPath, 'utf-8');
+      return `Content of ${filePath}:\n\n${content}`;
+    } catch (error: any) {
+      return formatToolError('reading file', error);
+    }
+  }
+
+  // Current content of a file the agent wants to write or edit, for the diff preview; null if it doesn't exist yet
+  async readExisting(workspacePath: string | null, filePath: string): Promise<string | null> {
+    const fullPath = await this.resolve(workspacePath, filePath);
+    try {
+      return await fs.readFile(fullPath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  // Protected paths are left out of the results, like everywhere else the agent looks
+  async search(workspacePath: string | null, options: WorkspaceSearchOptions): Promise<string> {
+    try {
+      if (!options.query) {
+        return 'Error searching workspace: query is required';
+      }
+      const root = await this.resolve(workspacePath, '');
+      const results = await workspaceSearch.search(root, options, relativePath => !!findDeniedPattern(relativePath, this.deniedPaths));
+      return formatSearchResults(options.query, results);
+    } catch (error: any) {
+      return formatToolError('searching workspace', error);
+    }
+  }
+
+  // Protected paths are never indexed, so their content isn't sent to the embedding model either
+  async semanticSearch(workspacePath: string | null, query: string, maxResults?: number): Promise<string> {
+    try {
+      if (!query) {
+        return 'Error searching documents: query is required';
+      }
+      await this.resolve(workspacePath, '');
+      const results = await semanticIndex.search(workspacePath!, query, maxResults, relativePath => this.isProtected(relativePath));
+      return formatSemanticResults(query, results);
+    } catch (error: any) {
+      return formatToolError('searching documents', error);
+    }
+  }
+
+  // Workspace files and folders that can be attached to a chat message (protected paths are left out)
+  async listAttachable(workspacePath: string | null): Promise<{ path: string; isDirectory: boolean }[]> {
+    const root = await this.resolve(workspacePath, '');
+    const files = await listWorkspaceFiles(root, relativePath => this.isProtected(relativePath));
+    const folders = new Set<string>();
+    for (const file of files) {
+      const parts = file.split('/');
+      for (let i = 1; i < parts.length; i++) {
+        folders.add(parts.slice(0, i).join('/'));
+      }
+    }
+    return [
+      ...[...folders].sort().map(folder => ({ path: folder, isDirectory: true })),
+      ...files.map(file => ({ path: file, isDirectory: false })),
+    ];
+  }
+
+  // Content of a #file or #folder mention: the file itself, or the Markdown files in the folder
+  async readAttachment(workspacePath: string | null, attachmentPath: string): Promise<ChatAttachment> {
+    const attachment: ChatAttachment = { path: attachmentPath, isDirectory: false, files: [], tokens: 0 };
+    try {
+      const fullPath = await this.resolve(workspacePath, attachmentPath);
+      const root = await fs.realpath(workspacePath!);
+
+      if ((await fs.stat(fullPath)).isDirectory()) {
+        attachment.isDirectory = true;
+        const relativeDir = path.relative(root, fullPath).split(path.sep).join('/');
+        const documents = (await listWorkspaceFiles(fullPath, relativePath => this.isProtected(relativeDir ? `${relativeDir}/${relativePath}` : relativePath)))
+          .filter(file => MARKDOWN_EXTENSIONS.includes(path.extname(file).toLowerCase()));
+
+        for (const document of documents) {
+          const content = attachment.files.length < MAX_ATTACHMENT_FOLDER_FILES
+            ? await this.readAttachmentFile(path.join(fullPath, document))
+            : null;
+          if (content === null) {
+            attachment.omitted = (attachment.omitted || 0) + 1;
+            continue;
+          }
+          attachment.files.push({ path: relativeDir ? `${relativeDir}/${document}` : document, content });
+        }
+      } else {
+        const content = await this.readAttachmentFile(fullPath);
+        if (content === null) {
+          throw new Error(`"${attachmentPath}" is larger than ${MAX_ATTACHMENT_FILE_SIZE / 1024} KB or is not a text file.`);
+        }
+        attachment.files.push({ path: attachmentPath, content });
+      }
+
+      attachment.tokens = attachment.files.reduce((total, file) => total + estimateTokens(file.content), 0);
+    } catch (error: any) {
+      attachment.error = error.message;
+    }
+    return attachment;
+  }
+
+  async writeFile(workspacePath: string | null, filePath: string, content: string): Promise<string> {
+    try {
+      const fullPath = await this.resolve(workspacePath, filePath);
+      await checkpointStore.snapshot(fullPath, 'write');
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.writeFile(fullPath, content ?? '', 'utf-8');
+      return `File created/updated successfully: ${filePath}`;
+    } catch (error: any) {
+      return formatToolError('writing file', error);
+    }
+  }
+
+  async editFile(
+    workspacePath: string | null,
+    filePath: string,
+    oldText: string,
+    newText: string,
+    replaceAll: boolean = false
+  ): Promise<string> {
+    try {
+      await this.updateFile(workspacePath, filePath, content => replaceExactText(content, oldText, newText ?? '', replaceAll));
+      return `File edited successfully: ${filePath}`;
+    } catch (error: any) {
+      return formatToolError('editing file', error);
+    }
+  }
+
+  async editMarkdownSection(
+    workspacePath: string | null,
+    filePath: string,
+    heading: string,
+    mode: MarkdownSectionMode,
+    content: string
+  ): Promise<string> {
+    try {
+      await this.updateFile(workspacePath, filePath, current => editMarkdownSection(current, heading, mode, content ?? ''));
+      return `Section "${heading}" updated (${mode}) in ${filePath}`;
+    } catch (error: any) {
+      return formatToolError('editing section', error);
+    }
+  }
+
+  async createDirectory(workspacePath: string | null, dirPath: string): Promise<string> {
+    try {
+      const fullPath = await this.resolve(workspacePath, dirPath);
+      await fs.mkdir(fullPath, { recursive: true });
+      return `Directory created successfully: ${dirPath}`;
+    } catch (error: any) {
+      return formatToolError('creating directory', error);
+    }
+  }
+
+  async deletePath(workspacePath: string | null, filePath: string): Promise<string> {
+    try {
+      const fullPath = await this.resolve(workspacePath, filePath);
+      if (fullPath === await fs.realpath(workspacePath!)) {
+        throw new WorkspaceAccessError('denied_path', filePath, 'The workspace folder itself cannot be deleted.');
+      }
+
+      const stats = await fs.stat(fullPath);
+      await checkpointStore.snapshot(fullPath, 'delete');
+      if (stats.isDirectory()) {
+        await fs.rm(fullPath, { recursive: true });
+      } else {
+        await fs.unlink(fullPath);
+      }
+      return `File/directory deleted successfully: ${filePath}`;
+    } catch (error: any) {
+      return formatToolError('deleting', error);
+    }
+  }
+
+  // Text content of an attached file, or null if it is too large or binary
+  private async readAttachmentFile(fullPath: string): Promise<string | null> {
+    if ((await fs.stat(fullPath)).size > MAX_ATTACHMENT_FILE_SIZE) return null;
+    const content = await fs.readFile(fullPath, 'utf-8');
+    return content.substring(0, 8000).includes('\0') ? null : content;
+  }
+
+  // Read-modify-write for the edit tools; the edit throws if its anchor isn't in the file
+  private async updateFile(workspacePath: string | null, filePath: string, edit: (content: string) => string): Promise<void> {
+    const fullPath = await this.resolve(workspacePath, filePath);
+
+    let content: string;
+    try {
+      content = await fs.readFile(fullPath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`${filePath} does not exist. Use write_file to create new files.`);
+      }
+      throw error;
+    }
+
+    const updated = edit(content);
+    await checkpointStore.snapshot(fullPath, 'write');
+    await fs.writeFile(fullPath, updated, 'utf-8');
+  }
+
+  // Hidden folders, node_modules and denied paths are left out; symlinked folders are not followed
+  private async readDirectory(root: string, dirPath: string, depth: number, maxDepth: number): Promise<DirectoryItem[]> {
+    const items: DirectoryItem[] = [];
+
+    try {
+      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+
+      for (const entry of entries) {
+        const fullPath = path.join(dirPath, entry.name);
+        if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+        if (findDeniedPattern(path.relative(root, fullPath), this.deniedPaths)) continue;
+
+        const item: DirectoryItem = { name: entry.name, isDirectory: entry.isDirectory() };
+        if (entry.isDirectory() && depth < maxDepth) {
+          item.children = await this.readDirectory(root, fullPath, depth + 1, maxDepth);
+        }
+        items.push(item);
+      }
+    } catch (error) {
+      console.error('Error reading directory:', error);
+    }
+
+    return items.sort((a, b) => {
+      if (a.isDirectory && !b.isDirectory) return -1;
+      if (!a.isDirectory && b.isDirectory) return 1;
+      return a.name.localeCompare(b.name);
+    });
+  }
+
+  private formatDirectoryTree(items: DirectoryItem[], depth: number): string {
+    let output = '';
+    const indent = '  '.repeat(depth);
+
+    for (const item of items) {
+      output += `${indent}${item.isDirectory ? '📁' : '📄'} ${item.name}\n`;
+      if (item.children && item.children.length > 0) {
+        output += this.formatDirectoryTree(item.children, depth + 1);
+      }
+    }
+
+    return output;
+  }
+}
+
+// Singleton instance
+export const workspaceFiles = new WorkspaceFiles();
@@ -0,0 +1,197 @@
+// Full-text search over the workspace, shared by the search panel and the agents' search_workspace tool.
+// Hidden folders, node_modules, binary and very large files are skipped.
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  WorkspaceSearchFile,
+  WorkspaceSearchMatch,
+  WorkspaceSearchOptions,
+  WorkspaceSearchResults,
+} from '../shared/types';
+
+const DEFAULT_MAX_RESULTS = 100;
+const MAX_RESULTS_LIMIT = 1000;
+const MAX_CONTEXT_LINES = 5;
+const MAX_FILE_SIZE = 1024 * 1024;
+const MAX_FILES = 5000;
+const MAX_LINE_LENGTH = 300;
+
+// "*" stays within a folder, "**" crosses folders and "{md,prd}" lists alternatives
+const globToRegExp = (glob: string): RegExp => {
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+};
+
+// Globs without a slash match the file name in any folder
+const matchesAnyGlob = (relativePath: string, globs: RegExp[], patterns: string[]): boolean => {
+  const name = path.posix.basename(relativePath);
+  return globs.some((glob, i) => glob.test(patterns[i].includes('/') ? relativePath : name));
+};
+
+const toGlobs = (patterns: string[] | undefined) => {
+  const cleaned = (patterns || []).map(p => p.trim().replace(/\\/g, '/').replace(/^\.?\//, '')).filter(Boolean);
+  return { patterns: cleaned, globs: cleaned.map(globToRegExp) };
+};
+
+const clipLine = (line: string) => line.length > MAX_LINE_LENGTH ? `${line.substring(0, MAX_LINE_LENGTH)}…` : line;
+
+const buildSearchPattern = (options: WorkspaceSearchOptions): RegExp => {
+  const source = options.isRegex ? options.query : options.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  try {
+    return new RegExp(source, options.caseSensitive ? '' : 'i');
+  } catch (error: any) {
+    throw new Error(`Invalid regular expression: ${error.message}`);
+  }
+};
+
+// Relative paths (with forward slashes) of the workspace files, in folder order.
+// Hidden entries and node_modules are skipped; also used to find the documents to index.
+export const listWorkspaceFiles = async (
+  root: string,
+  isExcluded: (relativePath: string) => boolean = () => false,
+  relativeDir: string = '',
+  files: string[] = []
+): Promise<string[]> => {
+  let entries;
+  try {
+    entries = await fs.readdir(path.join(root, relativeDir), { withFileTypes: true });
+  } catch (error) {
+    console.error('[SEARCH] Error reading directory:', error);
+    return files;
+  }
+
+  entries.sort((a, b) => {
+    if (a.isDirectory() !== b.isDirectory()) return a.isDirectory() ? 1 : -1;
+    return a.name.localeCompare(b.name);
+  });
+
+  for (const entry of entries) {
+    if (files.length >= MAX_FILES) break;
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (isExcluded(relativePath)) continue;
+
+    if (entry.isDirectory()) {
+      await listWorkspaceFiles(root, isExcluded, relativePath, files);
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+};
+
+export class WorkspaceSearch {
+  // isExcluded lets callers hide paths on top of the globs, e.g. the agent's deny-list
+  async search(
+    workspacePath: string,
+    options: WorkspaceSearchOptions,
+    isExcluded: (relativePath: string) => boolean = () => false
+  ): Promise<WorkspaceSearchResults> {
+    if (!options.query) {
+      return { files: [], matchCount: 0, truncated: false };
+    }
+
+    const pattern = buildSearchPattern(options);
+    const maxResults = Math.min(Math.max(1, options.maxResults || DEFAULT_MAX_RESULTS), MAX_RESULTS_LIMIT);
+    const contextLines = Math.min(Math.max(0, options.contextLines || 0), MAX_CONTEXT_LINES);
+    const include = toGlobs(options.include);
+    const exclude = toGlobs(options.exclude);
+
+    const results: WorkspaceSearchResults = { files: [], matchCount: 0, truncated: false };
+    const files = await listWorkspaceFiles(workspacePath, isExcluded);
+
+    for (const relativePath of files) {
+      if (include.globs.length > 0 && !matchesAnyGlob(relativePath, include.globs, include.patterns)) continue;
+      if (exclude.globs.length > 0 && matchesAnyGlob(relativePath, exclude.globs, exclude.patterns)) continue;
+
+      const matches = await this.searchFile(path.join(workspacePath, relativePath), pattern, contextLines, maxResults - results.matchCount);
+      if (matches.length === 0) continue;
+
+      results.files.push({ path: relativePath, matches });
+      results.matchCount += matches.length;
+      if (results.matchCount >= maxResults) {
+        results.truncated = true;
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  private async searchFile(fullPath: string, pattern: RegExp, contextLines: number, limit: number): Promise<WorkspaceSearchMatch[]> {
+    let content: string;
+    try {
+      const stats = await fs.stat(fullPath);
+      if (stats.size > MAX_FILE_SIZE) return [];
+      content = await fs.readFile(fullPath, 'utf-8');
+    } catch {
+      return [];
+    }
+    // Binary files
+    if (content.substring(0, 8000).includes('\0')) return [];
+
+    const lines = content.split(/\r?\n/);
+    const matches: WorkspaceSearchMatch[] = [];
+
+    for (let i = 0; i < lines.length && matches.length < limit; i++) {
+      const match = pattern.exec(lines[i]);
+      if (!match) continue;
+
+      const result: WorkspaceSearchMatch = { line: i + 1, column: match.index + 1, text: clipLine(lines[i]) };
+      if (contextLines > 0) {
+        result.before = lines.slice(Math.max(0, i - contextLines), i).map(clipLine);
+        result.after = lines.slice(i + 1, i + 1 + contextLines).map(clipLine);
+      }
+      matches.push(result);
+    }
+    return matches;
+  }
+}
+
+// Format results for the agent: grouped by file, grep style ("12:" for matches, "11-" for context)
+export const formatSearchResults = (query: string, results: WorkspaceSearchResults): string => {
+  if (results.matchCount === 0) {
+    return `No matches for "${query}".`;
+  }
+
+  const summary = `Found ${results.matchCount} match${results.matchCount === 1 ? '' : 'es'} in ${results.files.length} file${results.files.length === 1 ? '' : 's'} for "${query}"`
+    + (results.truncated ? ' (stopped at the result limit - narrow the search or use include globs)' : '');
+
+  const sections = results.files.map((file: WorkspaceSearchFile) => {
+    const lines: string[] = [file.path];
+    for (const match of file.matches) {
+      match.before?.forEach((text, i) => lines.push(`  ${match.line - match.before!.length + i}- ${text}`));
+      lines.push(`  ${match.line}: ${match.text}`);
+      match.after?.forEach((text, i) => lines.push(`  ${match.line + i + 1}- ${text}`));
+    }
+    return lines.join('\n');
+  });
+
+  return `${summary}:\n\n${sections.join('\n\n')}`;
+};
+
+// Singleton instance
+export const workspaceSearch = new WorkspaceSearch();
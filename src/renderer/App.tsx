@@ -16,7 +16,10 @@ import StakeholdersPanel from './components/StakeholdersPanel';
 import StakeholderSimulator from './components/StakeholderSimulator';
 import './styles/App.css';
 import { AppSettings, DEFAULT_SETTINGS } from '../shared/settings';
-import { Stakeholder } from '../shared/types';
+import { Stakeholder, MonthlyUsage } from '../shared/types';
+import { SelectionContext, buildSelectionQuestion } from '../shared/selection-actions';
+import { FeedbackItem, StakeholderFeedback } from '../shared/stakeholder-simulator';
+import { findDocumentAnchor } from '../shared/text-edits';
 
 const { ipcRenderer } = window.require('electron');
 
@@ -28,17 +31,26 @@ interface Template {
 }
 
 const AppContent: React.FC = () => {
-  const { addOpenFile, workspacePath, setWorkspacePath, setFileTree, refreshFileTree, currentFile } = useAppContext();
+  const {
+    addOpenFile, workspacePath, setWorkspacePath, setFileTree, refreshFileTree, currentFile,
+    openFiles, setCurrentFile, setRevealLocation,
+  } = useAppContext();
   const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isAIChatOpen, setIsAIChatOpen] = useState(false);
+  const [chatDraft, setChatDraft] = useState<string | null>(null);
   const [isMCPPanelOpen, setIsMCPPanelOpen] = useState(false);
   const [isTerminalOpen, setIsTerminalOpen] = useState(false);
+  const [sidebarView, setSidebarView] = useState<'explorer' | 'search'>('explorer');
   const [isStakeholdersPanelOpen, setIsStakeholdersPanelOpen] = useState(false);
   const [isSimulatorOpen, setIsSimulatorOpen] = useState(false);
+  const [simulatorFeedback, setSimulatorFeedback] = useState<{ path: string; feedback: StakeholderFeedback[] } | null>(null);
+  const [showFeedbackInEditor, setShowFeedbackInEditor] = useState(true);
   const [stakeholders, setStakeholders] = useState<Stakeholder[]>([]);
   const [mcpStatus, setMcpStatus] = useState<'connected' | 'disconnected' | 'error' | 'loading'>('disconnected');
+  const [mcpCounts, setMcpCounts] = useState<{ total: number; connected: number }>({ total: 0, connected: 0 });
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [monthlyUsage, setMonthlyUsage] = useState<MonthlyUsage | null>(null);
   const [isFileNameDialogOpen, setIsFileNameDialogOpen] = useState(false);
   const [pendingTemplate, setPendingTemplate] = useState<{ type: string; content: string; defaultName: string } | null>(null);
   const [availableTemplates, setAvailableTemplates] = useState<Template[]>([]);
@@ -174,6 +186,7 @@ const AppContent: React.FC = () => {
     const initMcp = async () => {
       if (!workspacePath) {
         setMcpStatus('disconnected');
+        setMcpCounts({ total: 0, connected: 0 });
         return;
       }
       
@@ -184,6 +197,7 @@ const AppContent: React.FC = () => {
         // Get status
         const status = await ipcRenderer.invoke('mcp:getStatus');
         setMcpStatus(status.status);
+        setMcpCounts({ total: status.total, connected: status.connected });
       } catch (error) {
         console.error('Failed to init MCP:', error);
         setMcpStatus('error');
@@ -193,15 +207,11 @@ const AppContent: React.FC = () => {
     initMcp();
   }, [workspacePath]);
 
-  // Listen for MCP status changes
+  // Listen for MCP status changes (servers starting, crashing, restarting)
   useEffect(() => {
-    const handleStatusChanged = async () => {
-      try {
-        const status = await ipcRenderer.invoke('mcp:getStatus');
-        setMcpStatus(status.status);
-      } catch (error) {
-        console.error('Failed to get MCP status:', error);
-      }
+    const handleStatusChanged = (_event: any, { summary }: { summary: { total: number; connected: number; status: typeof mcpStatus } }) => {
+      setMcpStatus(summary.status);
+      setMcpCounts({ total: summary.total, connected: summary.connected });
     };
 
     ipcRenderer.on('mcp:statusChanged', handleStatusChanged);
@@ -210,6 +220,19 @@ const AppContent: React.FC = () => {
     };
   }, []);
 
+  // Track this month's AI spend for the status bar
+  useEffect(() => {
+    const handleUsageUpdated = (_event: any, usage: MonthlyUsage) => {
+      setMonthlyUsage(usage);
+    };
+
+    ipcRenderer.invoke('usage:getMonthly').then(setMonthlyUsage).catch(console.error);
+    ipcRenderer.on('usage:updated', handleUsageUpdated);
+    return () => {
+      ipcRenderer.removeListener('usage:updated', handleUsageUpdated);
+    };
+  }, []);
+
   // Cleanup watcher on unmount only
   useEffect(() => {
     return () => {
@@ -226,6 +249,41 @@ const AppContent: React.FC = () => {
     }
   };
 
+  // "Ask Collie about selection" in the editor: quote the selection in the chat input
+  const handleAskAboutSelection = (context: SelectionContext) => {
+    setChatDraft(buildSelectionQuestion(context));
+    setIsAIChatOpen(true);
+  };
+
+  // Clicking a feedback item in the simulator: open the reviewed file and select what the item refers to
+  const handleJumpToFeedback = async (filePath: string, item: FeedbackItem) => {
+    let file = openFiles.find(f => f.path === filePath);
+    try {
+      if (!file) {
+        const content = await ipcRenderer.invoke('fs:readFile', filePath);
+        file = { path: filePath, content, language: filePath.split('.').pop()?.toLowerCase() || 'txt' };
+        addOpenFile(file);
+      } else {
+        setCurrentFile(file);
+      }
+    } catch (error) {
+      console.error('Error opening reviewed file:', error);
+      return;
+    }
+
+    const anchor = findDocumentAnchor(file.content, item);
+    if (anchor) {
+      setRevealLocation({
+        path: filePath,
+        line: anchor.startLine,
+        column: anchor.startColumn,
+        endLine: anchor.endLine,
+        endColumn: anchor.endColumn,
+      });
+    }
+    setIsSimulatorOpen(false);
+  };
+
   const handleNewDocument = () => {
     setIsCommandPaletteOpen(true);
   };
@@ -276,6 +334,11 @@ const AppContent: React.FC = () => {
         e.preventDefault();
         setIsAIChatOpen(!isAIChatOpen);
       }
+      // Search: Ctrl+Shift+F
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key === 'F') {
+        e.preventDefault();
+        setSidebarView('search');
+      }
       // Close AI Chat: Esc
       if (e.key === 'Escape' && isAIChatOpen) {
         setIsAIChatOpen(false);
@@ -378,6 +441,20 @@ const AppContent: React.FC = () => {
     }
   };
 
+  // Embed every workspace document again (the index otherwise only re-embeds documents that changed)
+  const rebuildSemanticIndex = async () => {
+    if (!workspacePath) {
+      alert('Open a workspace folder first.');
+      return;
+    }
+    const result = await ipcRenderer.invoke('semantic:rebuild', workspacePath);
+    if (result.success) {
+      alert(`Semantic search index rebuilt: ${result.status.fileCount} documents, ${result.status.chunkCount} passages.`);
+    } else {
+      alert(`Failed to rebuild the semantic search index: ${result.error}`);
+    }
+  };
+
   const saveAsTemplate = () => {
     console.log('[App.tsx] saveAsTemplate() called, currentFile:', currentFile?.path);
     if (!currentFile) {
@@ -468,6 +545,18 @@ const AppContent: React.FC = () => {
       action: () => createNewFile('Untitled.txt'),
       shortcut: 'Ctrl+N'
     },
+    {
+      id: 'search-workspace',
+      label: 'Search Workspace',
+      action: () => setSidebarView('search'),
+      shortcut: 'Ctrl+Shift+F'
+    },
+    {
+      id: 'rebuild-semantic-index',
+      label: 'Rebuild Semantic Search Index',
+      action: rebuildSemanticIndex,
+      shortcut: 'Re-embed workspace documents'
+    },
     {
       id: 'open-settings',
       label: 'Open Settings',
@@ -504,15 +593,23 @@ const AppContent: React.FC = () => {
             onNewDocument={handleNewDocument}
             onOpenMCP={() => setIsMCPPanelOpen(true)}
             onToggleTerminal={() => setIsTerminalOpen(!isTerminalOpen)}
+            onToggleSearch={() => setSidebarView(sidebarView === 'search' ? 'explorer' : 'search')}
             onOpenStakeholders={() => setIsStakeholdersPanelOpen(true)}
             aiEnabled={settings.aiEnabled}
             isAIChatOpen={isAIChatOpen}
             isTerminalOpen={isTerminalOpen}
+            isSearchOpen={sidebarView === 'search'}
             mcpStatus={mcpStatus}
           />
-          <Sidebar />
+          <Sidebar view={sidebarView} />
           <div className="main-content-area">
-            <EditorPane onOpenSimulator={() => setIsSimulatorOpen(true)} />
+            <EditorPane
+              onOpenSimulator={() => setIsSimulatorOpen(true)}
+              aiEnabled={settings.aiEnabled}
+              onAskAboutSelection={handleAskAboutSelection}
+              inlineCompletions={settings.aiEnabled && !!workspacePath && (settings.inlineCompletionWorkspaces || []).includes(workspacePath)}
+              simulatorFeedback={showFeedbackInEditor ? simulatorFeedback : null}
+            />
             <TerminalPanel 
               isOpen={isTerminalOpen}
               onClose={() => setIsTerminalOpen(false)}
@@ -527,9 +624,16 @@ const AppContent: React.FC = () => {
             currentFile={currentFile}
             stakeholders={stakeholders}
             templates={availableTemplates}
+            draft={chatDraft}
+            onDraftConsumed={() => setChatDraft(null)}
           />
         </div>
-        <StatusBar />
+        <StatusBar
+          mcpStatus={mcpStatus}
+          mcpCounts={mcpCounts}
+          monthlyUsage={monthlyUsage}
+          spendLimit={settings.monthlySpendLimit || 0}
+        />
       </div>
       
       <CommandPalette
@@ -551,6 +655,7 @@ const AppContent: React.FC = () => {
           });
         }}
         onSave={setSettings}
+        workspacePath={workspacePath}
       />
 
       <FileNameDialog
@@ -588,7 +693,14 @@ const AppContent: React.FC = () => {
         isOpen={isSimulatorOpen}
         onClose={() => setIsSimulatorOpen(false)}
         prdContent={currentFile?.content || ''}
+        documentPath={currentFile?.path}
+        workspacePath={workspacePath}
         stakeholders={stakeholders}
+        concurrency={settings.simulatorConcurrency}
+        onFeedbackChange={(path, feedback) => setSimulatorFeedback({ path, feedback })}
+        onJumpToFeedback={handleJumpToFeedback}
+        showInEditor={showFeedbackInEditor}
+        onShowInEditorChange={setShowFeedbackInEditor}
       />
     </>
   );
@@ -1,11 +1,13 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import ReactMarkdown from 'react-markdown';
 import './AIChat.css';
-import { ChatMessage } from '../../shared/settings';
+import { ChatMessage, getContextBudget, getFallbackProviders, validateProviderSettings } from '../../shared/settings';
 import ToolCallConfirmation, { ToolCall } from './ToolCallConfirmation';
 import TodoListPanel from './TodoListPanel';
+import ChatHistoryPanel from './ChatHistoryPanel';
 import systemPromptMd from '../system_prompt.md';
-import { Stakeholder, TodoItem } from '../../shared/types';
+import { Stakeholder, TodoItem, TokenUsage, MonthlyUsage, FileChange, TurnCheckpoint, SemanticSearchResult, ChatAttachment } from '../../shared/types';
+import { formatTokenCount, formatCost } from '../utils/helpers';
 
 const { ipcRenderer } = window.require('electron');
 
@@ -35,12 +37,14 @@ const TEMPLATE_DESCRIPTIONS: Record<string, string> = {
 
 // Agent stream event interface
 interface AgentStreamEvent {
-  type: 'text' | 'thinking' | 'tool_use' | 'tool_result' | 'error' | 'done';
+  type: 'text' | 'thinking' | 'tool_use' | 'tool_result' | 'context_compacted' | 'usage' | 'retry' | 'fallback' | 'file_changes' | 'error' | 'done';
   data?: string;
   toolName?: string;
   toolInput?: Record<string, any>;
   toolUseId?: string;
   requiresConfirmation?: boolean;
+  usage?: TokenUsage;
+  checkpoint?: TurnCheckpoint;
 }
 
 interface AIChatProps {
@@ -51,6 +55,8 @@ interface AIChatProps {
   currentFile?: { path: string; content: string } | null;
   stakeholders?: Stakeholder[];
   templates?: Template[];
+  draft?: string | null; // Text to add to the input, e.g. a passage quoted from the editor
+  onDraftConsumed?: () => void;
 }
 
 // Thinking text component - shows reasoning in darker grey
@@ -84,22 +90,110 @@ const CollapsibleToolResult: React.FC<{ result: string }> = ({ result }) => {
   );
 };
 
+const CHANGE_LABELS: Record<string, { letter: string; title: string }> = {
+  added: { letter: 'A', title: 'Created' },
+  modified: { letter: 'M', title: 'Modified' },
+  deleted: { letter: 'D', title: 'Deleted' },
+};
+
+const getChangeKind = (change: FileChange) => {
+  if (change.action === 'delete') return 'deleted';
+  return change.existed ? 'modified' : 'added';
+};
+
+// Files changed during a turn, with per-file and whole-turn revert
+const ChangedFiles: React.FC<{
+  checkpoint: TurnCheckpoint;
+  onRevert: (changeId?: string) => void;
+}> = ({ checkpoint, onRevert }) => {
+  const pending = checkpoint.changes.filter(change => !change.reverted);
+
+  return (
+    <div className="ai-changed-files">
+      <div className="ai-changed-files-header">
+        <span>Changed files ({checkpoint.changes.length})</span>
+        {pending.length > 0 && (
+          <button className="ai-changed-files-revert" onClick={() => onRevert()} title="Restore every file to how it was before this turn">
+            Revert whole turn
+          </button>
+        )}
+      </div>
+      {checkpoint.changes.map(change => {
+        const kind = getChangeKind(change);
+        return (
+          <div key={change.id} className={`ai-changed-file ${change.reverted ? 'reverted' : ''}`}>
+            <span className={`ai-changed-file-kind ${kind}`} title={CHANGE_LABELS[kind].title}>
+              {CHANGE_LABELS[kind].letter}
+            </span>
+            <span className="ai-changed-file-path" title={change.path}>{change.path}</span>
+            {change.reverted ? (
+              <span className="ai-changed-file-status">reverted</span>
+            ) : (
+              <button className="ai-changed-files-revert" onClick={() => onRevert(change.id)} title="Revert this change">
+                Revert
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// Auto-attached context: a few passages from the semantic index that are clearly related to the message
+const AUTO_ATTACH_MAX_RESULTS = 3;
+const AUTO_ATTACH_MIN_SCORE = 0.3;
+const AUTO_ATTACH_STORAGE_KEY = 'collie-auto-attach-context';
+
+type AttachedContext = Omit<SemanticSearchResult, 'text'>;
+
+// #file and #folder mentions
+const MAX_ATTACH_SUGGESTIONS = 50;
+// Warn when attachments take more than this share of the context budget
+const ATTACHMENT_BUDGET_SHARE = 0.5;
+
+// Paths of the #[path] mentions in a message, without duplicates
+const parseAttachmentPaths = (text: string): string[] => {
+  const attachmentRegex = /#\[([^\]]+)\]/g;
+  const paths: string[] = [];
+  let match;
+
+  while ((match = attachmentRegex.exec(text)) !== null) {
+    if (!paths.includes(match[1])) {
+      paths.push(match[1]);
+    }
+  }
+  return paths;
+};
+
 interface MessageWithTool extends ChatMessage {
   pendingToolCall?: ToolCall;
   toolResult?: string;
   thinking?: string;
   blocks?: StreamingBlock[]; // Sequential blocks for thinking/tools/text
+  usage?: TokenUsage; // Tokens and cost of all model calls for this response
+  checkpoint?: TurnCheckpoint; // Files written or deleted during this response
+  attachedContext?: AttachedContext[]; // Passages retrieved automatically and sent with this message
+  attachedContextError?: string;
+  attachments?: Omit<ChatAttachment, 'files'>[]; // Files and folders attached with #mentions
 }
 
+// Sum usage entries; cost stays null only if none of them had a known price
+const addUsage = (total: TokenUsage | undefined, usage: TokenUsage): TokenUsage => ({
+  inputTokens: (total?.inputTokens || 0) + usage.inputTokens,
+  outputTokens: (total?.outputTokens || 0) + usage.outputTokens,
+  cost: total?.cost == null && usage.cost === null ? null : (total?.cost || 0) + (usage.cost || 0),
+});
+
 // Block types for sequential rendering
 interface StreamingBlock {
-  type: 'thinking' | 'tool_use' | 'tool_result' | 'text';
+  type: 'thinking' | 'tool_use' | 'tool_result' | 'text' | 'notice';
   content: string;
   toolName?: string;
   toolInput?: Record<string, any>;
 }
 
-const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePath, currentFile, stakeholders = [], templates = [] }) => {
+const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePath, currentFile, stakeholders = [], templates = [], draft, onDraftConsumed }) => {
   const [messages, setMessages] = useState<MessageWithTool[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -107,10 +201,18 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
   const [todos, setTodos] = useState<TodoItem[]>([]);
   const [mcpServers, setMcpServers] = useState<string[]>([]);
   const [includeAllStakeholders, setIncludeAllStakeholders] = useState(false);
+  const [autoAttachContext, setAutoAttachContext] = useState(() => localStorage.getItem(AUTO_ATTACH_STORAGE_KEY) === 'true');
   const [showMentionDropdown, setShowMentionDropdown] = useState(false);
   const [mentionFilter, setMentionFilter] = useState('');
   const [mentionCursorPos, setMentionCursorPos] = useState<number | null>(null);
   const [selectedMentionIndex, setSelectedMentionIndex] = useState(0);
+  // #file / #folder attachment state
+  const [showAttachDropdown, setShowAttachDropdown] = useState(false);
+  const [attachFilter, setAttachFilter] = useState('');
+  const [attachCursorPos, setAttachCursorPos] = useState<number | null>(null);
+  const [selectedAttachIndex, setSelectedAttachIndex] = useState(0);
+  const [attachableItems, setAttachableItems] = useState<{ path: string; isDirectory: boolean }[]>([]);
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]); // Content of the #[path] mentions in the input
   // Slash command state
   const [showCommandDropdown, setShowCommandDropdown] = useState(false);
   const [commandFilter, setCommandFilter] = useState('');
@@ -119,10 +221,20 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const isResizing = useRef(false);
   const [pendingToolCall, setPendingToolCall] = useState<{ toolCall: ToolCall; toolUseId: string } | null>(null);
+  // Further confirmations from the same model response, shown one at a time
+  const queuedToolCallsRef = useRef<{ toolCall: ToolCall; toolUseId: string }[]>([]);
   const [currentStreamId, setCurrentStreamId] = useState<string | null>(null);
   const [streamingBlocks, setStreamingBlocks] = useState<StreamingBlock[]>([]);
   const streamingBlocksRef = useRef<StreamingBlock[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Saved session the current chat belongs to (stays with the workspace it was started in)
+  const [activeSession, setActiveSession] = useState<{ id: string; workspacePath: string } | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const lastSavedMessagesRef = useRef<MessageWithTool[] | null>(null);
+  // Usage of the response currently streaming, attached to the message when it completes
+  const streamUsageRef = useRef<TokenUsage | undefined>(undefined);
+  const streamCheckpointRef = useRef<TurnCheckpoint | undefined>(undefined);
+  const [monthlyUsage, setMonthlyUsage] = useState<MonthlyUsage | null>(null);
   
   // Keep ref in sync with state
   useEffect(() => {
@@ -130,6 +242,9 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
   }, [streamingBlocks]);
   const isCancelledRef = useRef<boolean>(false);
   const agentInitializedRef = useRef<boolean>(false);
+  const contextBudget = getContextBudget(settings);
+  const fallbackProviders = getFallbackProviders(settings);
+  const fallbackKey = fallbackProviders.join(',');
 
   // Initialize agent when settings change
   useEffect(() => {
@@ -138,14 +253,7 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
       agentInitializedRef.current = false;
       
       // Check if we have valid credentials for the selected provider
-      const hasBedrockCredentials = settings.awsAccessKeyId && settings.awsSecretAccessKey;
-      const hasOpenAICredentials = settings.openaiApiKey;
-      const hasOllamaConfig = settings.ollamaModel; // Ollama doesn't need API keys
-      const isConfigured = settings.aiProvider === 'openai' 
-        ? hasOpenAICredentials 
-        : settings.aiProvider === 'ollama'
-        ? hasOllamaConfig
-        : hasBedrockCredentials;
+      const isConfigured = !validateProviderSettings(settings);
 
       console.log(`[AIChat] Checking agent config - enabled: ${settings.aiEnabled}, provider: ${settings.aiProvider}, configured: ${isConfigured}, ollamaModel: ${settings.ollamaModel}`);
 
@@ -164,11 +272,30 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
             openaiApiKey: settings.openaiApiKey,
             openaiModelId: settings.openaiModel,
             openaiBaseUrl: settings.openaiBaseUrl,
+            // Anthropic settings
+            anthropicApiKey: settings.anthropicApiKey,
+            anthropicModelId: settings.anthropicModel,
+            // Azure OpenAI settings
+            azureEndpoint: settings.azureEndpoint,
+            azureApiKey: settings.azureApiKey,
+            azureDeployment: settings.azureDeployment,
+            azureApiVersion: settings.azureApiVersion,
+            azureModelId: settings.azureModel,
             // Ollama settings
             ollamaModelId: settings.ollamaModel,
             ollamaBaseUrl: settings.ollamaBaseUrl,
+            // Semantic search embeddings
+            embeddingSource: settings.embeddingSource,
+            ollamaEmbeddingModel: settings.ollamaEmbeddingModel,
+            azureEmbeddingDeployment: settings.azureEmbeddingDeployment,
+            // Editor autocomplete
+            inlineCompletionModel: settings.inlineCompletionModel,
             // Common
             systemPrompt: systemPromptMd,
+            contextBudget,
+            contextBudgets: settings.contextBudgets,
+            fallbackProviders,
+            deniedPaths: settings.agentDeniedPaths,
           });
           
           if (result.success) {
@@ -187,7 +314,34 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
     };
 
     initializeAgent();
-  }, [settings.aiEnabled, settings.aiProvider, settings.awsAccessKeyId, settings.awsSecretAccessKey, settings.awsRegion, settings.bedrockModel, settings.openaiApiKey, settings.openaiModel, settings.openaiBaseUrl, settings.ollamaModel, settings.ollamaBaseUrl]);
+  }, [settings.aiEnabled, settings.aiProvider, settings.awsAccessKeyId, settings.awsSecretAccessKey, settings.awsRegion, settings.bedrockModel, settings.openaiApiKey, settings.openaiModel, settings.openaiBaseUrl, settings.anthropicApiKey, settings.anthropicModel, settings.azureEndpoint, settings.azureApiKey, settings.azureDeployment, settings.azureApiVersion, settings.azureModel, settings.ollamaModel, settings.ollamaBaseUrl, settings.embeddingSource, settings.ollamaEmbeddingModel, settings.azureEmbeddingDeployment, settings.inlineCompletionModel, settings.contextBudgets, contextBudget, fallbackKey, settings.agentDeniedPaths]);
+
+  useEffect(() => {
+    localStorage.setItem(AUTO_ATTACH_STORAGE_KEY, String(autoAttachContext));
+  }, [autoAttachContext]);
+
+  // Load the #mentioned files and folders to show their size before the message is sent
+  const attachmentPaths = parseAttachmentPaths(input);
+  const attachmentKey = attachmentPaths.join('\n');
+  useEffect(() => {
+    if (!workspacePath || attachmentPaths.length === 0) {
+      setAttachments([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const loaded: ChatAttachment[] = await ipcRenderer.invoke('attachments:read', workspacePath, attachmentPaths);
+      if (!cancelled) {
+        setAttachments(loaded);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [workspacePath, attachmentKey]);
 
   // Update workspace path in agent
   useEffect(() => {
@@ -226,6 +380,20 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
     };
   }, [workspacePath]);
 
+  // Monthly spend across all sessions (for the soft spending limit)
+  useEffect(() => {
+    const handleUsageUpdated = (_event: any, usage: MonthlyUsage) => {
+      setMonthlyUsage(usage);
+    };
+
+    ipcRenderer.invoke('usage:getMonthly').then(setMonthlyUsage).catch(console.error);
+    ipcRenderer.on('usage:updated', handleUsageUpdated);
+
+    return () => {
+      ipcRenderer.removeListener('usage:updated', handleUsageUpdated);
+    };
+  }, []);
+
   // Listen for todo updates from the agent
   useEffect(() => {
     const handleTodosUpdated = (_event: any, updatedTodos: TodoItem[]) => {
@@ -569,8 +737,21 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
               name: event.toolName,
               description: getToolDescription(event.toolName, event.toolInput || {}),
               parameters: event.toolInput || {},
+              inputReady: event.toolInput !== undefined,
             };
-            setPendingToolCall({ toolCall, toolUseId: event.toolUseId });
+            const pending = { toolCall, toolUseId: event.toolUseId };
+            setPendingToolCall(prev => {
+              // Strands reports a tool call again once its input is complete; update it in place
+              if (!prev || prev.toolUseId === pending.toolUseId) return pending;
+              const queue = queuedToolCallsRef.current;
+              const index = queue.findIndex(q => q.toolUseId === pending.toolUseId);
+              if (index === -1) {
+                queue.push(pending);
+              } else {
+                queue[index] = pending;
+              }
+              return prev;
+            });
           } else if (event.toolName) {
             // Add tool_use block to show tool being called
             setStreamingBlocks(prev => [...prev, {
@@ -592,6 +773,46 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
           }
           break;
 
+        case 'file_changes':
+          // Arrives just before 'done' or 'error', which attach it to the message
+          streamCheckpointRef.current = event.checkpoint;
+          break;
+
+        case 'usage':
+          if (event.usage) {
+            streamUsageRef.current = addUsage(streamUsageRef.current, event.usage);
+          }
+          break;
+
+        case 'retry':
+        case 'fallback':
+          // The next attempt answers again from the last tool result, so drop the partial output after it.
+          // Retries and provider switches are shown inline, so it's clear which provider answered
+          setStreamingBlocks(prev => {
+            let keep = prev.length;
+            while (keep > 0 && prev[keep - 1].type !== 'tool_result' && prev[keep - 1].type !== 'notice') {
+              keep--;
+            }
+            return [...prev.slice(0, keep), { type: 'notice', content: event.data || '' }];
+          });
+          break;
+
+        case 'context_compacted':
+          // Mark where the history was summarized, just before the turn that triggered it
+          setMessages(prev => {
+            const marker: MessageWithTool = {
+              id: `compacted-${Date.now()}`,
+              role: 'system',
+              content: event.data || 'Context compacted',
+              timestamp: Date.now(),
+            };
+            const lastUserIndex = prev.map(m => m.role).lastIndexOf('user');
+            return lastUserIndex === -1
+              ? [...prev, marker]
+              : [...prev.slice(0, lastUserIndex), marker, ...prev.slice(lastUserIndex)];
+          });
+          break;
+
         case 'error':
           // Show error message
           setMessages(prev => [...prev, {
@@ -599,7 +820,9 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
             role: 'assistant',
             content: `Error: ${event.data || 'Unknown error'}`,
             timestamp: Date.now(),
+            checkpoint: streamCheckpointRef.current,
           }]);
+          streamCheckpointRef.current = undefined;
           setStreamingBlocks([]);
           setIsLoading(false);
           break;
@@ -621,9 +844,13 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
               content: textContent || '(completed)',
               timestamp: Date.now(),
               blocks: [...currentBlocks], // Copy to avoid mutation issues
+              usage: streamUsageRef.current,
+              checkpoint: streamCheckpointRef.current,
             }]);
             setStreamingBlocks([]);
           }
+          streamUsageRef.current = undefined;
+          streamCheckpointRef.current = undefined;
           setIsLoading(false);
           setCurrentStreamId(null);
           break;
@@ -682,6 +909,20 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
     scrollToBottom();
   }, [pendingToolCall, scrollToBottom]);
 
+  // Persist the transcript once each turn has settled
+  useEffect(() => {
+    if (isLoading || !activeSession || messages === lastSavedMessagesRef.current) return;
+    lastSavedMessagesRef.current = messages;
+
+    const transcript = messages.map(({ pendingToolCall, ...message }) => message);
+    ipcRenderer.invoke('session:save', activeSession.workspacePath, { id: activeSession.id, messages: transcript })
+      .then((result: { success: boolean; error?: string }) => {
+        if (!result.success) {
+          console.error('[AIChat] Failed to save session:', result.error);
+        }
+      });
+  }, [messages, isLoading, activeSession]);
+
   // Show welcome message when chat opens and no messages exist
   useEffect(() => {
     if (isOpen && messages.length === 0) {
@@ -696,6 +937,21 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
     }
   }, [isOpen, messages.length]);
 
+  // Add a draft from the editor to the input and put the cursor after it, ready for the question
+  useEffect(() => {
+    if (!draft) return;
+    setInput(prev => prev.trim() ? `${prev.trimEnd()}\n\n${draft}` : draft);
+    onDraftConsumed?.();
+    setTimeout(() => {
+      const textarea = inputRef.current;
+      if (textarea) {
+        textarea.focus();
+        textarea.selectionStart = textarea.selectionEnd = textarea.value.length;
+        textarea.scrollTop = textarea.scrollHeight;
+      }
+    }, 0);
+  }, [draft]);
+
   // Auto-focus input when chat opens
   useEffect(() => {
     if (isOpen) {
@@ -743,8 +999,16 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
         return params.path ? `List files in "${params.path}"` : 'List files in workspace';
       case 'read_file':
         return `Read file "${params.file_path}"`;
+      case 'search_workspace':
+        return `Search workspace for "${params.query}"`;
+      case 'semantic_search':
+        return `Find documents about "${params.query}"`;
       case 'write_file':
         return `Write to file "${params.file_path}"`;
+      case 'edit_file':
+        return `Edit file "${params.file_path || params.path}"`;
+      case 'edit_markdown_section':
+        return `${params.mode === 'append' ? 'Append to' : params.mode === 'insert' ? 'Insert into' : 'Replace'} section "${params.heading}" in "${params.file_path || params.path}"`;
       case 'create_directory':
         return `Create directory "${params.dir_path}"`;
       case 'delete_file':
@@ -756,15 +1020,22 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
     }
   };
 
-  const handleToolAccept = async () => {
-    if (!pendingToolCall) return;
+  const clearPendingToolCalls = () => {
+    queuedToolCallsRef.current = [];
     setPendingToolCall(null);
-    // Tool will be executed automatically by the agent
+  };
+
+  const handleToolAccept = async (content?: string) => {
+    if (!pendingToolCall) return;
+    setPendingToolCall(queuedToolCallsRef.current.shift() || null);
+    // File writes, edits and deletes wait for approval; writes use the content as reviewed in the diff
+    await ipcRenderer.invoke('agent:resolveToolCall', pendingToolCall.toolUseId, { approved: true, content });
   };
 
   const handleToolDeny = async () => {
     if (!pendingToolCall) return;
-    setPendingToolCall(null);
+    clearPendingToolCalls();
+    await ipcRenderer.invoke('agent:resolveToolCall', pendingToolCall.toolUseId, { approved: false });
     // Abort the current stream since user denied the tool
     await ipcRenderer.invoke('agent:abort');
     setIsLoading(false);
@@ -790,17 +1061,9 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
       console.log('[AIChat] Agent not initialized, attempting to initialize...');
       // Try to reinitialize
       try {
-        const hasBedrockCredentials = settings.awsAccessKeyId && settings.awsSecretAccessKey;
-        const hasOpenAICredentials = settings.openaiApiKey;
-        const hasOllamaConfig = settings.ollamaModel; // Ollama doesn't need API keys
-        const isConfigured = settings.aiProvider === 'openai' 
-          ? hasOpenAICredentials 
-          : settings.aiProvider === 'ollama'
-          ? hasOllamaConfig
-          : hasBedrockCredentials;
-        
-        if (!isConfigured) {
-          alert('Please configure your AI provider in Settings first.');
+        const configError = validateProviderSettings(settings);
+        if (configError) {
+          alert(`Please configure your AI provider in Settings first. ${configError}`);
           return;
         }
         
@@ -814,9 +1077,24 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
           openaiApiKey: settings.openaiApiKey,
           openaiModelId: settings.openaiModel,
           openaiBaseUrl: settings.openaiBaseUrl,
+          anthropicApiKey: settings.anthropicApiKey,
+          anthropicModelId: settings.anthropicModel,
+          azureEndpoint: settings.azureEndpoint,
+          azureApiKey: settings.azureApiKey,
+          azureDeployment: settings.azureDeployment,
+          azureApiVersion: settings.azureApiVersion,
+          azureModelId: settings.azureModel,
           ollamaModelId: settings.ollamaModel,
           ollamaBaseUrl: settings.ollamaBaseUrl,
+          embeddingSource: settings.embeddingSource,
+          ollamaEmbeddingModel: settings.ollamaEmbeddingModel,
+          azureEmbeddingDeployment: settings.azureEmbeddingDeployment,
+          inlineCompletionModel: settings.inlineCompletionModel,
           systemPrompt: systemPromptMd,
+          contextBudget,
+          contextBudgets: settings.contextBudgets,
+          fallbackProviders,
+          deniedPaths: settings.agentDeniedPaths,
         });
         
         if (!result.success) {
@@ -833,13 +1111,18 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
 
     // Reset cancellation flag for new request
     isCancelledRef.current = false;
+    streamUsageRef.current = undefined;
     setStreamingBlocks([]);
 
     // Parse @mentions from input
     const { cleanedText: textAfterMentions, mentionedStakeholders } = parseStakeholderContext(input);
     
     // Parse /template commands from input
-    const { cleanedText, requestedTemplates } = parseTemplateCommands(textAfterMentions);
+    const { cleanedText: textAfterCommands, requestedTemplates } = parseTemplateCommands(textAfterMentions);
+
+    // Parse #file / #folder attachments from input
+    const cleanedText = textAfterCommands.replace(/#\[([^\]]+)\]/g, '#$1');
+    const mentionedPaths = parseAttachmentPaths(textAfterCommands);
     
     // Determine which stakeholders to include
     let stakeholdersToInclude: Stakeholder[] = [];
@@ -861,17 +1144,59 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
       timestamp: Date.now()
     };
 
+    // Start a saved session with the first message of a new chat
+    let session = activeSession;
+    if (!session && workspacePath) {
+      session = {
+        id: `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        workspacePath,
+      };
+      setActiveSession(session);
+    }
+
     setMessages(prev => [...prev, userMessage]);
     setInput('');
     setShowMentionDropdown(false);
     setShowCommandDropdown(false);
+    setShowAttachDropdown(false);
     setIsLoading(true);
 
     try {
+      // Look up related documents first; a failed lookup doesn't stop the message from being sent
+      let relevantContext = '';
+      if (autoAttachContext && workspacePath && cleanedText.trim()) {
+        const result = await ipcRenderer.invoke('semantic:search', workspacePath, cleanedText, AUTO_ATTACH_MAX_RESULTS);
+        if (isCancelledRef.current) return;
+
+        const passages: SemanticSearchResult[] = result.success
+          ? result.results.filter((passage: SemanticSearchResult) => passage.score >= AUTO_ATTACH_MIN_SCORE)
+          : [];
+        relevantContext = buildRelevantContextString(passages);
+        setMessages(prev => prev.map(m => m.id === userMessage.id ? {
+          ...m,
+          attachedContext: passages.map(({ text, ...source }) => source),
+          attachedContextError: result.success ? undefined : result.error,
+        } : m));
+      }
+
+      // Read attachments again so the latest saved content is sent
+      let attachmentContext = '';
+      if (mentionedPaths.length > 0 && workspacePath) {
+        const sent: ChatAttachment[] = await ipcRenderer.invoke('attachments:read', workspacePath, mentionedPaths);
+        if (isCancelledRef.current) return;
+
+        attachmentContext = buildAttachmentContextString(sent);
+        setMessages(prev => prev.map(m => m.id === userMessage.id ? {
+          ...m,
+          attachments: sent.map(({ files, ...attachment }) => attachment),
+        } : m));
+      }
+
       // Start streaming via IPC
-      const { streamId } = await ipcRenderer.invoke('agent:stream', messageToSend, {
+      const { streamId } = await ipcRenderer.invoke('agent:stream', relevantContext + attachmentContext + messageToSend, {
         workspacePath: workspacePath || undefined,
         currentFile: currentFile?.path,
+        sessionId: session?.id, // File checkpoints for this turn are kept with the session
       });
       
       setCurrentStreamId(streamId);
@@ -936,6 +1261,30 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
     setCommandFilter('');
     setCommandCursorPos(null);
 
+    // Check if we're typing a #file / #folder attachment
+    const lastHashIndex = textBeforeCursor.lastIndexOf('#');
+    if (lastHashIndex !== -1 && workspacePath) {
+      const textAfterHash = textBeforeCursor.substring(lastHashIndex + 1);
+      const charBeforeHash = lastHashIndex > 0 ? textBeforeCursor[lastHashIndex - 1] : ' ';
+
+      if ((charBeforeHash === ' ' || charBeforeHash === '\n' || lastHashIndex === 0) &&
+          !textAfterHash.includes(' ') && !textAfterHash.includes('\n') && !textAfterHash.startsWith('[')) {
+        if (!showAttachDropdown) {
+          ipcRenderer.invoke('attachments:list', workspacePath).then((result: any) => setAttachableItems(result.items));
+        }
+        setShowAttachDropdown(true);
+        setAttachFilter(textAfterHash);
+        setAttachCursorPos(lastHashIndex);
+        setSelectedAttachIndex(0);
+        setShowMentionDropdown(false);
+        return;
+      }
+    }
+
+    setShowAttachDropdown(false);
+    setAttachFilter('');
+    setAttachCursorPos(null);
+
     // Check if we're typing a mention
     const lastAtIndex = textBeforeCursor.lastIndexOf('@');
     
@@ -959,8 +1308,36 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
     setMentionCursorPos(null);
   };
 
+  const attachmentTokens = attachments.reduce((total, attachment) => total + attachment.tokens, 0);
+
+  // Get filtered files and folders for the attachment dropdown
+  const filteredAttachables = attachableItems
+    .filter(item => item.path.toLowerCase().includes(attachFilter.toLowerCase()))
+    .slice(0, MAX_ATTACH_SUGGESTIONS);
+
   // Handle keyboard navigation in dropdowns
   const handleInputKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Handle attachment dropdown navigation
+    if (showAttachDropdown && filteredAttachables.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setSelectedAttachIndex(prev =>
+          prev < filteredAttachables.length - 1 ? prev + 1 : 0
+        );
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setSelectedAttachIndex(prev =>
+          prev > 0 ? prev - 1 : filteredAttachables.length - 1
+        );
+      } else if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        selectAttachment(filteredAttachables[selectedAttachIndex].path);
+      } else if (e.key === 'Escape') {
+        setShowAttachDropdown(false);
+      }
+      return;
+    }
+
     // Handle command dropdown navigation
     if (showCommandDropdown && filteredTemplates.length > 0) {
       if (e.key === 'ArrowDown') {
@@ -1032,6 +1409,34 @@ const AIChat: React.FC<AIChatProps> = ({ isOpen, onClose, settings, workspacePat
     }, 0);
   };
 
+  // Select a file or folder to attach from dropdown
+  const selectAttachment = (attachmentPath: string) => {
+    if (attachCursorPos === null) return;
+
+    const beforeAttachment = input.substring(0, attachCursorPos);
+    const afterAttachment = input.substring(attachCursorPos + attachFilter.length + 1);
+    const newInput = `${beforeAttachment}#[${attachmentPath}]${afterAttachment}`;
+
+    setInput(newInput);
+    setShowAttachDropdown(false);
+    setAttachFilter('');
+    setAttachCursorPos(null);
+
+    // Focus back to input
+    setTimeout(() => {
+      if (inputRef.current) {
+        const newPos = beforeAttachment.length + attachmentPath.length + 3; // #[path]
+        inputRef.current.focus();
+        inputRef.current.setSelectionRange(newPos, newPos);
+      }
+    }, 0);
+  };
+
+  // Remove every #[path] mention of an attachment from the input
+  const removeAttachment = (attachmentPath: string) => {
+    setInput(prev => prev.split(`#[${attachmentPath}]`).join('').replace(/ {2,}/g, ' '));
+  };
+
   // Select a stakeholder from dropdown
   const selectMention = (stakeholder: Stakeholder) => {
     if (mentionCursorPos === null) return;
@@ -1114,6 +1519,37 @@ Instructions:
 You are NOT creating a template - you are using the template as a blueprint to write a real document.]\n\n`;
   };
 
+  // Build the auto-attached context string for AI
+  const buildRelevantContextString = (passages: SemanticSearchResult[]): string => {
+    if (passages.length === 0) return '';
+
+    const sections = passages.map(p =>
+      `--- ${p.path}${p.heading ? ` > ${p.heading}` : ''} (lines ${p.startLine}-${p.endLine}) ---\n${p.text}`
+    ).join('\n\n');
+    return `[Relevant Workspace Context - retrieved automatically from the workspace documents:\n\n${sections}\n]\n\n`;
+  };
+
+  // Build the attached files and folders context string for AI
+  const buildAttachmentContextString = (attachmentList: ChatAttachment[]): string => {
+    if (attachmentList.length === 0) return '';
+
+    const sections = attachmentList.map(attachment => {
+      const kind = attachment.isDirectory ? 'folder' : 'file';
+      if (attachment.error) {
+        return `[Attached ${kind}: ${attachment.path} - could not be read: ${attachment.error}]`;
+      }
+
+      const files = attachment.files
+        .map(file => `[Attached file: ${file.path}]\n${file.content}\n[End of ${file.path}]`)
+        .join('\n\n');
+      if (!attachment.isDirectory) return files;
+
+      const omitted = attachment.omitted ? `, ${attachment.omitted} more left out (too large or over the limit)` : '';
+      return `[Attached folder: ${attachment.path} - ${attachment.files.length} Markdown file${attachment.files.length === 1 ? '' : 's'}${omitted}]${files ? `\n\n${files}` : ''}`;
+    });
+    return `${sections.join('\n\n')}\n\n`;
+  };
+
   // Build stakeholder context string for AI
   const buildStakeholderContextString = (stakeholderList: Stakeholder[]): string => {
     if (stakeholderList.length === 0) return '';
@@ -1146,7 +1582,7 @@ You are NOT creating a template - you are using the template as a blueprint to w
     });
     
     // Clear pending state
-    setPendingToolCall(null);
+    clearPendingToolCalls();
     setStreamingBlocks([]);
     setCurrentStreamId(null);
     
@@ -1169,7 +1605,7 @@ You are NOT creating a template - you are using the template as a blueprint to w
       await ipcRenderer.invoke('agent:clearHistory');
       
       // Clear all state - set to empty, then useEffect will add welcome message
-      setPendingToolCall(null);
+      clearPendingToolCalls();
       setStreamingBlocks([]);
       setCurrentStreamId(null);
       setInput('');
@@ -1179,10 +1615,81 @@ You are NOT creating a template - you are using the template as a blueprint to w
       setTodos([]);
       
       // Set messages to empty to trigger welcome message via useEffect
+      setActiveSession(null);
       setMessages([]);
     }
   };
 
+  // Reopen a saved session and restore its history into the agent
+  const handleOpenSession = async (sessionId: string) => {
+    if (!workspacePath || sessionId === activeSession?.id) {
+      setShowHistory(false);
+      return;
+    }
+
+    if (isLoading) {
+      isCancelledRef.current = true;
+      await ipcRenderer.invoke('agent:abort');
+      setIsLoading(false);
+    }
+
+    const result = await ipcRenderer.invoke('session:resume', workspacePath, sessionId);
+    if (!result.success) {
+      alert(`Failed to open chat: ${result.error || 'Unknown error'}`);
+      return;
+    }
+
+    const restored: MessageWithTool[] = result.session.messages;
+    lastSavedMessagesRef.current = restored;
+    clearPendingToolCalls();
+    setStreamingBlocks([]);
+    setCurrentStreamId(null);
+    setTodos([]);
+    setActiveSession({ id: sessionId, workspacePath });
+    setMessages(restored);
+    setShowHistory(false);
+  };
+
+  // Deleting the open session keeps the chat on screen but stops saving it
+  const handleSessionDeleted = (sessionId: string) => {
+    if (sessionId === activeSession?.id) {
+      setActiveSession(null);
+    }
+  };
+
+  // Restore the snapshots taken before the agent changed files; without changeId the whole turn is reverted
+  const handleRevertChanges = async (messageId: string, checkpoint: TurnCheckpoint, changeId?: string) => {
+    if (!workspacePath) return;
+
+    const question = changeId
+      ? `Revert ${checkpoint.changes.find(c => c.id === changeId)?.path}?`
+      : 'Revert every file changed in this turn?';
+    if (!confirm(question)) return;
+
+    let result = await ipcRenderer.invoke('checkpoint:revert', workspacePath, checkpoint.sessionId, checkpoint.turnId, changeId);
+    // Files edited after the turn are only overwritten once the user agrees to lose those edits
+    if (!result.success && result.conflicts) {
+      if (!confirm(`${result.conflicts.join(', ')} changed after this turn. Revert anyway and discard those changes?`)) return;
+      result = await ipcRenderer.invoke('checkpoint:revert', workspacePath, checkpoint.sessionId, checkpoint.turnId, changeId, true);
+    }
+    if (!result.success) {
+      alert(`Failed to revert: ${result.error || 'Unknown error'}`);
+      return;
+    }
+
+    setMessages(prev => prev.map(m => m.id === messageId
+      ? { ...m, checkpoint: { ...checkpoint, changes: result.changes } }
+      : m
+    ));
+  };
+
+  const sessionUsage = messages.reduce<TokenUsage | undefined>(
+    (total, msg) => msg.usage ? addUsage(total, msg.usage) : total,
+    undefined
+  );
+  const spendLimit = settings.monthlySpendLimit || 0;
+  const overSpendLimit = spendLimit > 0 && !!monthlyUsage && monthlyUsage.cost >= spendLimit;
+
   if (!isOpen) return null;
 
   return (
@@ -1201,6 +1708,13 @@ You are NOT creating a template - you are using the template as a blueprint to w
           </div>
         </div>
         <div className="ai-chat-actions">
+          <button
+            className={`ai-chat-history ${showHistory ? 'active' : ''}`}
+            onClick={() => setShowHistory(!showHistory)}
+            title="Chat history"
+          >
+            🕘
+          </button>
           <button className="ai-chat-new" onClick={handleNewChat} title="New chat">
             <img src={chatIcon} alt="New chat" />
           </button>
@@ -1210,6 +1724,15 @@ You are NOT creating a template - you are using the template as a blueprint to w
         </div>
       </div>
 
+      {showHistory && (
+        <ChatHistoryPanel
+          workspacePath={workspacePath}
+          activeSessionId={activeSession?.id || null}
+          onOpen={handleOpenSession}
+          onDeleted={handleSessionDeleted}
+        />
+      )}
+
       {/* Context bar showing current directory and open file */}
       <div className="ai-context-bar">
         <div className="ai-context-item">
@@ -1226,10 +1749,32 @@ You are NOT creating a template - you are using the template as a blueprint to w
             {currentFile?.path ? currentFile.path.split(/[\\/]/).pop() : 'No file open'}
           </span>
         </div>
+        {sessionUsage && (
+          <div className="ai-context-item">
+            <span className="ai-context-label">Session:</span>
+            <span
+              className="ai-context-value"
+              title={`${sessionUsage.inputTokens} input / ${sessionUsage.outputTokens} output tokens`}
+            >
+              {formatTokenCount(sessionUsage.inputTokens + sessionUsage.outputTokens)} tokens · {formatCost(sessionUsage.cost)}
+              {monthlyUsage && ` (month: ${formatCost(monthlyUsage.cost)})`}
+            </span>
+          </div>
+        )}
       </div>
 
+      {overSpendLimit && (
+        <div className="ai-spend-warning">
+          ⚠ Monthly spending limit reached: {formatCost(monthlyUsage!.cost)} of {formatCost(spendLimit)}
+        </div>
+      )}
+
       <div className="ai-chat-messages">
-        {messages.map((msg) => (
+        {messages.map((msg) => msg.role === 'system' ? (
+          <div key={msg.id} className="ai-context-compacted" title={msg.content}>
+            <span>Context compacted</span>
+          </div>
+        ) : (
           <div key={msg.id} className={`ai-message ${msg.role}`}>
             {msg.role === 'assistant' && (
               <div className="ai-message-avatar">
@@ -1257,6 +1802,9 @@ You are NOT creating a template - you are using the template as a blueprint to w
                       {block.type === 'tool_result' && (
                         <CollapsibleToolResult result={block.content} />
                       )}
+                      {block.type === 'notice' && (
+                        <div className="ai-provider-notice">↪ {block.content}</div>
+                      )}
                       {block.type === 'text' && (
                         <div className="ai-message-text">
                           <ReactMarkdown>{block.content}</ReactMarkdown>
@@ -1285,8 +1833,52 @@ You are NOT creating a template - you are using the template as a blueprint to w
                 </>
               )}
 
+              {msg.attachments && msg.attachments.length > 0 && (
+                <div className="ai-attached-context">
+                  <span className="ai-attached-context-label">Attached:</span>
+                  {msg.attachments.map(attachment => (
+                    <span
+                      key={attachment.path}
+                      className="ai-attached-context-chip"
+                      title={attachment.error || `${attachment.path} (~${formatTokenCount(attachment.tokens)} tokens)`}
+                    >
+                      {attachment.isDirectory ? '📁' : '📄'} {attachment.path.split('/').pop()}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {(msg.attachedContext?.length || msg.attachedContextError) && (
+                <div className="ai-attached-context">
+                  <span className="ai-attached-context-label">Context:</span>
+                  {msg.attachedContextError ? (
+                    <span className="ai-attached-context-error" title={msg.attachedContextError}>not attached - {msg.attachedContextError}</span>
+                  ) : msg.attachedContext!.map(source => (
+                    <span
+                      key={`${source.path}:${source.startLine}`}
+                      className="ai-attached-context-chip"
+                      title={`${source.path}${source.heading ? ` > ${source.heading}` : ''}, lines ${source.startLine}-${source.endLine} (relevance ${source.score.toFixed(2)})`}
+                    >
+                      {source.path.split('/').pop()}{source.heading && ` › ${source.heading.split(' > ').pop()}`}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {msg.checkpoint && (
+                <ChangedFiles
+                  checkpoint={msg.checkpoint}
+                  onRevert={changeId => handleRevertChanges(msg.id, msg.checkpoint!, changeId)}
+                />
+              )}
+
               <div className="ai-message-time">
                 {new Date(msg.timestamp).toLocaleTimeString()}
+                {msg.usage && (
+                  <span className="ai-message-usage" title={`${msg.usage.inputTokens} input / ${msg.usage.outputTokens} output tokens`}>
+                    {' · '}{formatTokenCount(msg.usage.inputTokens)} in / {formatTokenCount(msg.usage.outputTokens)} out · {formatCost(msg.usage.cost)}
+                  </span>
+                )}
               </div>
             </div>
           </div>
@@ -1316,6 +1908,9 @@ You are NOT creating a template - you are using the template as a blueprint to w
                   {block.type === 'tool_result' && (
                     <CollapsibleToolResult result={block.content} />
                   )}
+                  {block.type === 'notice' && (
+                    <div className="ai-provider-notice">↪ {block.content}</div>
+                  )}
                   {block.type === 'text' && (
                     <div className="ai-message-text">
                       <ReactMarkdown>{block.content}</ReactMarkdown>
@@ -1333,7 +1928,9 @@ You are NOT creating a template - you are using the template as a blueprint to w
             <div className="ai-message-avatar"><img src={aiAvatarIcon} alt="AI" /></div>
             <div className="ai-message-content">
               <ToolCallConfirmation
+                key={pendingToolCall.toolUseId}
                 toolCall={pendingToolCall.toolCall}
+                workspacePath={workspacePath}
                 onAccept={handleToolAccept}
                 onDeny={handleToolDeny}
               />
@@ -1358,18 +1955,58 @@ You are NOT creating a template - you are using the template as a blueprint to w
 
       <TodoListPanel todos={todos} />
 
-      {/* Stakeholder options bar */}
-      {stakeholders.length > 0 && (
+      {/* Message options bar */}
+      {(stakeholders.length > 0 || workspacePath) && (
         <div className="ai-stakeholder-bar">
-          <label className="ai-stakeholder-checkbox">
+          <label
+            className="ai-stakeholder-checkbox"
+            title="Find related passages in the workspace documents and send them with each message"
+          >
             <input
               type="checkbox"
-              checked={includeAllStakeholders}
-              onChange={(e) => setIncludeAllStakeholders(e.target.checked)}
+              checked={autoAttachContext}
+              onChange={(e) => setAutoAttachContext(e.target.checked)}
+              disabled={!workspacePath}
             />
-            <span>Include all stakeholders ({stakeholders.length})</span>
+            <span>Auto-attach relevant context</span>
           </label>
-          <span className="ai-stakeholder-hint">Type @ to mention, / for templates</span>
+          {stakeholders.length > 0 && (
+            <label className="ai-stakeholder-checkbox">
+              <input
+                type="checkbox"
+                checked={includeAllStakeholders}
+                onChange={(e) => setIncludeAllStakeholders(e.target.checked)}
+              />
+              <span>Include all stakeholders ({stakeholders.length})</span>
+            </label>
+          )}
+          <span className="ai-stakeholder-hint">{stakeholders.length > 0 ? 'Type # to attach, @ to mention, / for templates' : 'Type # to attach files'}</span>
+        </div>
+      )}
+
+      {/* Files and folders attached with #mentions */}
+      {attachments.length > 0 && (
+        <div className="ai-attachments-bar">
+          {attachments.map(attachment => (
+            <span
+              key={attachment.path}
+              className={`ai-attachment-chip ${attachment.error ? 'error' : ''}`}
+              title={attachment.error || (attachment.isDirectory
+                ? `${attachment.path}: ${attachment.files.length} Markdown file${attachment.files.length === 1 ? '' : 's'}${attachment.omitted ? ` (${attachment.omitted} left out)` : ''}`
+                : attachment.path)}
+            >
+              <span className="ai-attachment-name">{attachment.isDirectory ? '📁' : '📄'} {attachment.path.split('/').pop()}</span>
+              <span className="ai-attachment-tokens">{attachment.error ? 'unreadable' : formatTokenCount(attachment.tokens)}</span>
+              <button className="ai-attachment-remove" onClick={() => removeAttachment(attachment.path)} title="Remove">×</button>
+            </span>
+          ))}
+          <span
+            className={`ai-attachments-total ${attachmentTokens > contextBudget * ATTACHMENT_BUDGET_SHARE ? 'warning' : ''}`}
+            title={`Estimated size of the attached content. Context budget: ${formatTokenCount(contextBudget)} tokens`}
+          >
+            ~{formatTokenCount(attachmentTokens)} tokens
+            {attachmentTokens > contextBudget * ATTACHMENT_BUDGET_SHARE && ' · large for the context budget'}
+          </span>
         </div>
       )}
 
@@ -1378,7 +2015,7 @@ You are NOT creating a template - you are using the template as a blueprint to w
           <textarea
             ref={inputRef}
             className="ai-chat-input"
-            placeholder={templates.length > 0 ? "Ask me anything... (/ for templates, @ for stakeholders)" : "Ask me anything... (Shift+Enter for new line)"}
+            placeholder={templates.length > 0 ? "Ask me anything... (# for files, / for templates, @ for stakeholders)" : "Ask me anything... (# for files, Shift+Enter for new line)"}
             value={input}
             onChange={handleInputChange}
             onKeyPress={handleKeyPress}
@@ -1406,6 +2043,25 @@ You are NOT creating a template - you are using the template as a blueprint to w
             </div>
           )}
           
+          {/* #File / #folder dropdown */}
+          {showAttachDropdown && filteredAttachables.length > 0 && (
+            <div className="command-dropdown">
+              <div className="command-dropdown-header">Attach file or folder</div>
+              {filteredAttachables.map((item, index) => (
+                <div
+                  key={item.path}
+                  className={`command-item ${index === selectedAttachIndex ? 'selected' : ''}`}
+                  onClick={() => selectAttachment(item.path)}
+                  onMouseEnter={() => setSelectedAttachIndex(index)}
+                  title={item.path}
+                >
+                  <span className="command-name">{item.isDirectory ? '📁' : '📄'} {item.path.split('/').pop()}</span>
+                  <span className="command-desc">{item.isDirectory ? `${item.path}/ (Markdown files)` : item.path}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* @Mention dropdown */}
           {showMentionDropdown && filteredStakeholders.length > 0 && (
             <div className="mention-dropdown">
@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import './ChatHistoryPanel.css';
+import { ChatSessionSummary } from '../../shared/types';
+
+import editIcon from '../assets/icons/edit.svg';
+import deleteIcon from '../assets/icons/delete.svg';
+
+const { ipcRenderer } = window.require('electron');
+
+interface ChatHistoryPanelProps {
+  workspacePath: string | null;
+  activeSessionId: string | null;
+  onOpen: (sessionId: string) => void;
+  onDeleted: (sessionId: string) => void;
+}
+
+const ChatHistoryPanel: React.FC<ChatHistoryPanelProps> = ({ workspacePath, activeSessionId, onOpen, onDeleted }) => {
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  useEffect(() => {
+    const loadSessions = async () => {
+      if (!workspacePath) {
+        setSessions([]);
+        return;
+      }
+      setLoading(true);
+      try {
+        setSessions(await ipcRenderer.invoke('session:list', workspacePath));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSessions();
+  }, [workspacePath]);
+
+  const startRename = (session: ChatSessionSummary) => {
+    setEditingId(session.id);
+    setEditTitle(session.title);
+  };
+
+  const commitRename = async () => {
+    if (!workspacePath || !editingId) return;
+
+    const id = editingId;
+    setEditingId(null);
+    if (!editTitle.trim()) return;
+
+    const result = await ipcRenderer.invoke('session:rename', workspacePath, id, editTitle);
+    if (result.success) {
+      setSessions(prev => prev.map(s => s.id === id ? result.session : s));
+    }
+  };
+
+  const handleDelete = async (session: ChatSessionSummary) => {
+    if (!workspacePath) return;
+    if (!confirm(`Delete chat "${session.title}"?`)) return;
+
+    const result = await ipcRenderer.invoke('session:delete', workspacePath, session.id);
+    if (result.success) {
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+      onDeleted(session.id);
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.toDateString() === new Date().toDateString()
+      ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : date.toLocaleDateString();
+  };
+
+  return (
+    <div className="chat-history-panel">
+      <div className="chat-history-header">Chat History</div>
+      {!workspacePath ? (
+        <div className="chat-history-empty">Open a workspace to keep chat history.</div>
+      ) : loading ? (
+        <div className="chat-history-empty">Loading...</div>
+      ) : sessions.length === 0 ? (
+        <div className="chat-history-empty">No saved chats yet.</div>
+      ) : (
+        <div className="chat-history-list">
+          {sessions.map(session => (
+            <div
+              key={session.id}
+              className={`chat-history-item ${session.id === activeSessionId ? 'active' : ''}`}
+              onClick={() => editingId !== session.id && onOpen(session.id)}
+            >
+              {editingId === session.id ? (
+                <input
+                  className="chat-history-rename"
+                  value={editTitle}
+                  autoFocus
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                />
+              ) : (
+                <div className="chat-history-info">
+                  <span className="chat-history-title" title={session.title}>{session.title}</span>
+                  <span className="chat-history-meta">
+                    {formatDate(session.updatedAt)} · {session.messageCount} {session.messageCount === 1 ? 'message' : 'messages'}
+                  </span>
+                </div>
+              )}
+              <div className="chat-history-actions">
+                <button
+                  onClick={(e) => { e.stopPropagation(); startRename(session); }}
+                  title="Rename"
+                >
+                  <img src={editIcon} alt="Rename" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDelete(session); }}
+                  title="Delete"
+                >
+                  <img src={deleteIcon} alt="Delete" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatHistoryPanel;
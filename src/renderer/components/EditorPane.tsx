@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useAppContext } from '../context/AppContext';
 import MonacoEditor from './MonacoEditor';
 import MarkdownPreview from './MarkdownPreview';
@@ -7,6 +7,8 @@ import KanbanEditor from './KanbanEditor';
 import TimelineEditor from './TimelineEditor';
 import MediaViewer, { isMediaFile, getMediaType } from './MediaViewer';
 import { EditorFile } from '../../shared/types';
+import { SelectionContext } from '../../shared/selection-actions';
+import { StakeholderFeedback, getFeedbackAnnotations } from '../../shared/stakeholder-simulator';
 import { marked } from 'marked';
 
 // Import icons
@@ -18,12 +20,26 @@ const path = window.require('path');
 
 interface EditorPaneProps {
   onOpenSimulator?: () => void;
+  aiEnabled?: boolean;
+  onAskAboutSelection?: (context: SelectionContext) => void;
+  inlineCompletions?: boolean; // Ghost-text suggestions in Markdown files
+  simulatorFeedback?: { path: string; feedback: StakeholderFeedback[] } | null; // Shown as annotations in that file
 }
 
-const EditorPane: React.FC<EditorPaneProps> = ({ onOpenSimulator }) => {
-  const { currentFile, openFiles, setCurrentFile, closeFile, updateFileContent } = useAppContext();
+const EditorPane: React.FC<EditorPaneProps> = ({ onOpenSimulator, aiEnabled, onAskAboutSelection, inlineCompletions, simulatorFeedback }) => {
+  const { currentFile, openFiles, setCurrentFile, closeFile, updateFileContent, revealLocation, setRevealLocation } = useAppContext();
   const [showPreview, setShowPreview] = useState(false);
   
+  // Only reveal a location once its file is the one in the editor
+  const editorReveal = revealLocation && revealLocation.path === currentFile?.path ? revealLocation : null;
+
+  // Re-anchored on every change so the markers follow the text as it is edited
+  const annotations = useMemo(() => (
+    simulatorFeedback && currentFile && simulatorFeedback.path === currentFile.path
+      ? getFeedbackAnnotations(currentFile.content, simulatorFeedback.feedback)
+      : undefined
+  ), [simulatorFeedback, currentFile?.path, currentFile?.content]);
+
   // Use ref to always have access to latest currentFile in callbacks
   const currentFileRef = useRef(currentFile);
   currentFileRef.current = currentFile;
@@ -294,6 +310,13 @@ const EditorPane: React.FC<EditorPaneProps> = ({ onOpenSimulator }) => {
                   language={getLanguageFromPath(currentFile.path)}
                   onChange={handleEditorChange}
                   onSave={saveCurrentFile}
+                  revealLocation={editorReveal}
+                  onRevealed={() => setRevealLocation(null)}
+                  fileName={currentFile.path}
+                  aiEnabled={aiEnabled}
+                  onAskAboutSelection={onAskAboutSelection}
+                  inlineCompletions={inlineCompletions && isMarkdownFile}
+                  annotations={annotations}
                 />
               }
               right={
@@ -307,6 +330,13 @@ const EditorPane: React.FC<EditorPaneProps> = ({ onOpenSimulator }) => {
               language={getLanguageFromPath(currentFile.path)}
               onChange={handleEditorChange}
               onSave={saveCurrentFile}
+              revealLocation={editorReveal}
+              onRevealed={() => setRevealLocation(null)}
+              fileName={currentFile.path}
+              aiEnabled={aiEnabled}
+              onAskAboutSelection={onAskAboutSelection}
+              inlineCompletions={inlineCompletions && isMarkdownFile}
+              annotations={annotations}
             />
           )
         ) : (
@@ -0,0 +1,199 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DiffEditor, loader } from '@monaco-editor/react';
+import type { editor } from 'monaco-editor';
+import { getLanguageFromExtension } from '../utils/fileUtils';
+import './FileDiffPreview.css';
+
+const { ipcRenderer } = window.require('electron');
+
+// Configure loader to use local monaco files
+loader.config({ monaco: require('monaco-editor') });
+
+interface FileDiffPreviewProps {
+  workspacePath: string;
+  filePath: string;
+  // New content, or an edit to apply to the current content (edit tools)
+  proposedContent: string | ((original: string) => string);
+  // Content to write: accepted hunks applied to the original, including the user's edits
+  onChange: (content: string) => void;
+}
+
+const getHunkKey = (change: editor.ILineChange) => `${change.originalStartLineNumber}:${change.originalEndLineNumber}`;
+
+// An end line of 0 means the hunk is a pure insertion (original) or deletion (modified)
+const getLineRange = (start: number, end: number): [number, number] => end === 0 ? [start + 1, start] : [start, end];
+
+// Rebuild the file from the original, taking the modified lines only for hunks that weren't rejected
+const applyHunks = (original: string, modified: string, changes: editor.ILineChange[], rejected: Set<string>): string => {
+  if (rejected.size === 0) return modified;
+
+  const originalLines = original.split('\n');
+  const modifiedLines = modified.split('\n');
+  const result: string[] = [];
+  let nextLine = 1;
+
+  for (const change of changes) {
+    const [originalStart, originalEnd] = getLineRange(change.originalStartLineNumber, change.originalEndLineNumber);
+    const [modifiedStart, modifiedEnd] = getLineRange(change.modifiedStartLineNumber, change.modifiedEndLineNumber);
+
+    result.push(...originalLines.slice(nextLine - 1, originalStart - 1));
+    result.push(...(rejected.has(getHunkKey(change))
+      ? originalLines.slice(originalStart - 1, originalEnd)
+      : modifiedLines.slice(modifiedStart - 1, modifiedEnd)));
+    nextLine = originalEnd + 1;
+  }
+
+  result.push(...originalLines.slice(nextLine - 1));
+  return result.join('\n');
+};
+
+const countLines = (start: number, end: number) => end === 0 ? 0 : end - start + 1;
+
+// Diff of a proposed write or edit against the file on disk. The proposed side is editable,
+// and each hunk can be left out before the change is approved.
+const FileDiffPreview: React.FC<FileDiffPreviewProps> = ({ workspacePath, filePath, proposedContent, onChange }) => {
+  const [original, setOriginal] = useState<string | null>(null);
+  const [isNewFile, setIsNewFile] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [proposed, setProposed] = useState('');
+  const [modified, setModified] = useState('');
+  const [lineChanges, setLineChanges] = useState<editor.ILineChange[]>([]);
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  const [sideBySide, setSideBySide] = useState(false);
+  const subscriptionsRef = useRef<{ dispose: () => void }[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setOriginal(null);
+    setLoadError(null);
+    setRejected(new Set());
+
+    ipcRenderer.invoke('agent:readToolTarget', workspacePath, filePath).then((result: any) => {
+      if (cancelled) return;
+      if (!result.success) {
+        setLoadError(result.error || 'Could not read the file');
+        return;
+      }
+
+      if (typeof proposedContent === 'string') {
+        setProposed(proposedContent);
+        setModified(proposedContent);
+      } else if (!result.exists) {
+        setLoadError(`${filePath} does not exist.`);
+        return;
+      } else {
+        try {
+          const edited = proposedContent(result.content);
+          setProposed(edited);
+          setModified(edited);
+        } catch (error: any) {
+          setLoadError(`The edit can't be applied: ${error.message}`);
+          return;
+        }
+      }
+      setOriginal(result.content);
+      setIsNewFile(!result.exists);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workspacePath, filePath, proposedContent]);
+
+  useEffect(() => {
+    return () => subscriptionsRef.current.forEach(subscription => subscription.dispose());
+  }, []);
+
+  useEffect(() => {
+    if (original === null) return;
+    onChange(applyHunks(original, modified, lineChanges, rejected));
+  }, [original, modified, lineChanges, rejected]);
+
+  const handleMount = (diffEditor: editor.IStandaloneDiffEditor) => {
+    subscriptionsRef.current.forEach(subscription => subscription.dispose());
+    subscriptionsRef.current = [
+      diffEditor.onDidUpdateDiff(() => setLineChanges(diffEditor.getLineChanges() || [])),
+      diffEditor.getModifiedEditor().onDidChangeModelContent(() => {
+        setModified(diffEditor.getModifiedEditor().getValue());
+      }),
+    ];
+  };
+
+  const toggleHunk = (key: string) => {
+    setRejected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  if (loadError) {
+    return <div className="diff-preview-error">Preview unavailable: {loadError}</div>;
+  }
+  if (original === null) {
+    return <div className="diff-preview-loading">Loading current file...</div>;
+  }
+
+  return (
+    <div className="diff-preview">
+      <div className="diff-preview-toolbar">
+        <span className="diff-preview-title">
+          {isNewFile ? 'New file' : `${lineChanges.length} change${lineChanges.length === 1 ? '' : 's'}`} · edit the right side before accepting
+        </span>
+        {!isNewFile && (
+          <button className="diff-preview-toggle" onClick={() => setSideBySide(!sideBySide)}>
+            {sideBySide ? 'Inline' : 'Side by side'}
+          </button>
+        )}
+      </div>
+
+      <div className="diff-preview-editor">
+        <DiffEditor
+          height="100%"
+          original={original}
+          modified={proposed}
+          language={getLanguageFromExtension(filePath)}
+          theme="vs-dark"
+          onMount={handleMount}
+          loading={<div className="diff-preview-loading">Loading editor...</div>}
+          options={{
+            renderSideBySide: sideBySide,
+            originalEditable: false,
+            readOnly: false,
+            fontSize: 12,
+            minimap: { enabled: false },
+            wordWrap: 'on',
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+            contextmenu: false,
+          }}
+        />
+      </div>
+
+      {!isNewFile && lineChanges.length > 1 && (
+        <div className="diff-preview-hunks">
+          {lineChanges.map(change => {
+            const key = getHunkKey(change);
+            const added = countLines(change.modifiedStartLineNumber, change.modifiedEndLineNumber);
+            const removed = countLines(change.originalStartLineNumber, change.originalEndLineNumber);
+            const line = change.originalEndLineNumber === 0 ? change.originalStartLineNumber + 1 : change.originalStartLineNumber;
+            return (
+              <label key={key} className={`diff-preview-hunk ${rejected.has(key) ? 'rejected' : ''}`}>
+                <input type="checkbox" checked={!rejected.has(key)} onChange={() => toggleHunk(key)} />
+                <span>Line {line}</span>
+                <span className="diff-preview-added">+{added}</span>
+                <span className="diff-preview-removed">−{removed}</span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FileDiffPreview;
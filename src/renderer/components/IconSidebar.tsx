@@ -14,10 +14,12 @@ interface IconSidebarProps {
   onNewDocument: () => void;
   onOpenMCP: () => void;
   onToggleTerminal: () => void;
+  onToggleSearch: () => void;
   onOpenStakeholders: () => void;
   aiEnabled: boolean;
   isAIChatOpen: boolean;
   isTerminalOpen: boolean;
+  isSearchOpen: boolean;
   mcpStatus: 'connected' | 'disconnected' | 'error' | 'loading';
 }
 
@@ -27,10 +29,12 @@ const IconSidebar: React.FC<IconSidebarProps> = ({
   onNewDocument,
   onOpenMCP,
   onToggleTerminal,
+  onToggleSearch,
   onOpenStakeholders,
   aiEnabled,
   isAIChatOpen,
   isTerminalOpen,
+  isSearchOpen,
   mcpStatus
 }) => {
   const getMcpStatusColor = () => {
@@ -61,6 +65,19 @@ const IconSidebar: React.FC<IconSidebarProps> = ({
           {!aiEnabled && <span className="icon-badge">!</span>}
         </button>
 
+        <button 
+          className={`icon-sidebar-btn ${isSearchOpen ? 'active' : ''}`}
+          onClick={onToggleSearch}
+          title={isSearchOpen ? "Show Explorer" : "Search (Ctrl+Shift+F)"}
+        >
+          <span className="icon">
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <circle cx="11" cy="11" r="7"></circle>
+              <line x1="21" y1="21" x2="16" y2="16"></line>
+            </svg>
+          </span>
+        </button>
+
         <button 
           className="icon-sidebar-btn" 
           onClick={onOpenMCP}
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { ToolPolicy, BUILT_IN_TOOLS, DEFAULT_AUTO_APPROVE_TOOLS, isToolAutoApproved, isToolDisabled } from '../../shared/tool-policy';
 import './MCPPanel.css';
 
 const { ipcRenderer } = window.require('electron');
@@ -8,11 +9,20 @@ interface MCPServer {
   type?: string;
   command?: string;
   url?: string;
-  status: 'connected' | 'disconnected' | 'error';
+  status: 'starting' | 'connected' | 'crashed' | 'disabled' | 'disconnected' | 'error';
   tools?: { name: string; description: string }[];
   error?: string;
 }
 
+type PolicyList = 'autoApprove' | 'disabledTools';
+
+// Add or remove a tool from a policy list, expanding "*" into explicit names
+const toggleInList = (list: string[], toolName: string, include: boolean, allTools: string[]): string[] => {
+  const expanded = list.includes('*') ? allTools : list;
+  const without = expanded.filter(name => name !== toolName);
+  return include ? [...without, toolName] : without;
+};
+
 interface MCPPanelProps {
   isOpen: boolean;
   onClose: () => void;
@@ -27,6 +37,16 @@ const MCPPanel: React.FC<MCPPanelProps> = ({ isOpen, onClose, workspacePath }) =
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [reconnecting, setReconnecting] = useState<string | null>(null);
+  // Server (or '__builtin__') whose tool permissions are expanded
+  const [expandedPolicy, setExpandedPolicy] = useState<string | null>(null);
+
+  const parsedConfig = useMemo(() => {
+    try {
+      return JSON.parse(mcpJson);
+    } catch {
+      return null;
+    }
+  }, [mcpJson]);
 
   // Load MCP config when panel opens
   useEffect(() => {
@@ -35,6 +55,24 @@ const MCPPanel: React.FC<MCPPanelProps> = ({ isOpen, onClose, workspacePath }) =
     }
   }, [isOpen, workspacePath]);
 
+  // Keep server badges live as servers start, crash and restart
+  useEffect(() => {
+    const handleStatusChanged = (_event: any, { servers }: { servers: Array<{ name: string; status: MCPServer['status']; tools: any[]; error?: string }> }) => {
+      const serverMap = new Map(servers.map(s => [s.name, s]));
+      setMcpServers(prev => prev.map(server => {
+        const live = serverMap.get(server.name);
+        return live
+          ? { ...server, status: live.status, tools: live.tools, error: live.error }
+          : server;
+      }));
+    };
+
+    ipcRenderer.on('mcp:statusChanged', handleStatusChanged);
+    return () => {
+      ipcRenderer.removeListener('mcp:statusChanged', handleStatusChanged);
+    };
+  }, []);
+
   const loadMcpConfig = async () => {
     if (!workspacePath) return;
     
@@ -180,6 +218,82 @@ const MCPPanel: React.FC<MCPPanelProps> = ({ isOpen, onClose, workspacePath }) =
     setHasChanges(false);
   };
 
+  // Toggle a tool in autoApprove/disabledTools for a server (or the built-in tools when serverName is null)
+  const handleTogglePolicy = async (
+    serverName: string | null,
+    toolName: string,
+    list: PolicyList,
+    include: boolean,
+    allTools: string[]
+  ) => {
+    if (!workspacePath || !parsedConfig) {
+      setError('Fix the JSON before changing tool permissions');
+      return;
+    }
+
+    const config = { ...parsedConfig, mcpServers: { ...(parsedConfig.mcpServers || {}) } };
+    const policy: ToolPolicy = serverName
+      ? { ...config.mcpServers[serverName] }
+      : { ...(config.builtInTools || {}) };
+    const defaults = !serverName && list === 'autoApprove' ? DEFAULT_AUTO_APPROVE_TOOLS : [];
+    policy[list] = toggleInList(policy[list] ?? defaults, toolName, include, allTools);
+
+    if (serverName) {
+      config.mcpServers[serverName] = policy;
+    } else {
+      config.builtInTools = policy;
+    }
+
+    setMcpJson(JSON.stringify(config, null, 2));
+    // Save right away unless the user has other pending edits in the JSON editor
+    if (!hasChanges) {
+      try {
+        await ipcRenderer.invoke('mcp:write', workspacePath, config);
+      } catch (err: any) {
+        setError(err.message || 'Failed to save');
+      }
+    }
+  };
+
+  const renderToolPolicy = (
+    serverName: string | null,
+    tools: { name: string; description: string }[],
+    policy: ToolPolicy | undefined
+  ) => {
+    const allTools = tools.map(t => t.name);
+    const defaults = serverName ? [] : DEFAULT_AUTO_APPROVE_TOOLS;
+
+    return (
+      <div className="mcp-tool-policy">
+        <div className="mcp-tool-policy-row mcp-tool-policy-head">
+          <span>Tool</span>
+          <span>Enabled</span>
+          <span>Auto-approve</span>
+        </div>
+        {tools.map(tool => {
+          const enabled = !isToolDisabled(policy, tool.name);
+          const autoApproved = isToolAutoApproved(policy, tool.name, defaults);
+          return (
+            <div key={tool.name} className="mcp-tool-policy-row">
+              <span className="mcp-tool-name" title={tool.description}>{tool.name}</span>
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => handleTogglePolicy(serverName, tool.name, 'disabledTools', !e.target.checked, allTools)}
+              />
+              <input
+                type="checkbox"
+                checked={autoApproved}
+                disabled={!enabled}
+                onChange={(e) => handleTogglePolicy(serverName, tool.name, 'autoApprove', e.target.checked, allTools)}
+              />
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
   const handleReconnectServer = async (serverName: string) => {
     if (!workspacePath) return;
     
@@ -203,6 +317,8 @@ const MCPPanel: React.FC<MCPPanelProps> = ({ isOpen, onClose, workspacePath }) =
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'connected': return '#4ec9b0';
+      case 'starting': return '#dcdcaa';
+      case 'crashed':
       case 'error': return '#f48771';
       default: return '#888888';
     }
@@ -211,6 +327,8 @@ const MCPPanel: React.FC<MCPPanelProps> = ({ isOpen, onClose, workspacePath }) =
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'connected': return '●';
+      case 'starting': return '◌';
+      case 'crashed': return '⚠';
       case 'error': return '✕';
       default: return '○';
     }
@@ -253,6 +371,7 @@ const MCPPanel: React.FC<MCPPanelProps> = ({ isOpen, onClose, workspacePath }) =
                       <span 
                         className="mcp-server-status"
                         style={{ color: getStatusColor(server.status) }}
+                        title={server.status}
                       >
                         {getStatusIcon(server.status)}
                       </span>
@@ -274,18 +393,31 @@ const MCPPanel: React.FC<MCPPanelProps> = ({ isOpen, onClose, workspacePath }) =
                           <span className="mcp-server-error">{server.error}</span>
                         )}
                         {server.status === 'connected' && server.tools && server.tools.length > 0 && (
-                          <div className="mcp-server-tools">
-                            {server.tools.slice(0, 5).map(tool => (
-                              <span key={tool.name} className="mcp-tool-name" title={tool.description}>
-                                {tool.name}
-                              </span>
-                            ))}
-                            {server.tools.length > 5 && (
-                              <span className="mcp-tool-more">+{server.tools.length - 5} more</span>
-                            )}
-                          </div>
+                          expandedPolicy === server.name ? (
+                            renderToolPolicy(server.name, server.tools, parsedConfig?.mcpServers?.[server.name])
+                          ) : (
+                            <div className="mcp-server-tools">
+                              {server.tools.slice(0, 5).map(tool => (
+                                <span key={tool.name} className="mcp-tool-name" title={tool.description}>
+                                  {tool.name}
+                                </span>
+                              ))}
+                              {server.tools.length > 5 && (
+                                <span className="mcp-tool-more">+{server.tools.length - 5} more</span>
+                              )}
+                            </div>
+                          )
                         )}
                       </div>
+                      {server.status === 'connected' && server.tools && server.tools.length > 0 && (
+                        <button
+                          className="mcp-server-reconnect"
+                          onClick={() => setExpandedPolicy(expandedPolicy === server.name ? null : server.name)}
+                          title="Tool permissions"
+                        >
+                          ⚙
+                        </button>
+                      )}
                       <button 
                         className="mcp-server-reconnect"
                         onClick={() => handleReconnectServer(server.name)}
@@ -300,6 +432,20 @@ const MCPPanel: React.FC<MCPPanelProps> = ({ isOpen, onClose, workspacePath }) =
               )}
             </div>
 
+            <div className="mcp-servers-section">
+              <div className="mcp-section-header">
+                <h3>Built-in Tools</h3>
+                <button
+                  className="mcp-refresh-btn"
+                  onClick={() => setExpandedPolicy(expandedPolicy === '__builtin__' ? null : '__builtin__')}
+                  title="Tool permissions"
+                >
+                  {expandedPolicy === '__builtin__' ? '▾' : '▸'}
+                </button>
+              </div>
+              {expandedPolicy === '__builtin__' && renderToolPolicy(null, BUILT_IN_TOOLS, parsedConfig?.builtInTools)}
+            </div>
+
             <div className="mcp-editor-section">
               <div className="mcp-section-header">
                 <h3>.mcp.json</h3>
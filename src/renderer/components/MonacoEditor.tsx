@@ -1,7 +1,14 @@
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
 import Editor, { loader } from '@monaco-editor/react';
+import { SELECTION_ACTIONS, SelectionAction, SelectionContext } from '../../shared/selection-actions';
+import { getHeadingPath } from '../../shared/text-edits';
+import { InlineCompletionRequest } from '../../shared/types';
+import { FEEDBACK_CATEGORIES, FeedbackAnnotation } from '../../shared/stakeholder-simulator';
 import './MonacoEditor.css';
 
+const { ipcRenderer } = window.require('electron');
+
 // Configure loader to use local monaco files
 loader.config({ monaco: require('monaco-editor') });
 
@@ -10,21 +17,385 @@ interface MonacoEditorProps {
   language: string;
   onChange: (value: string | undefined) => void;
   onSave: () => void;
+  revealLocation?: { line: number; column?: number; endLine?: number; endColumn?: number } | null; // Scroll here and place the cursor, or select up to the end
+  onRevealed?: () => void;
+  fileName?: string; // Sent to the AI with the selection
+  aiEnabled?: boolean;
+  onAskAboutSelection?: (context: SelectionContext) => void;
+  inlineCompletions?: boolean; // Ghost-text AI suggestions, accepted with Tab
+  annotations?: FeedbackAnnotation[]; // Stakeholder feedback shown in the gutter with hover cards
 }
 
 interface ContextMenuState {
   visible: boolean;
   x: number;
   y: number;
+  hasSelection?: boolean;
+}
+
+// An AI rewrite of the selection waiting for review: the original stays in place, struck through,
+// with the proposed text shown below it until the user accepts or rejects it
+interface PendingRewrite {
+  action: SelectionAction;
+  original: string;
+  status: 'loading' | 'ready' | 'error';
+  text?: string;
+  error?: string;
 }
 
-const MonacoEditor: React.FC<MonacoEditorProps> = ({ value, language, onChange, onSave }) => {
+// Second key of the Ctrl+K chord for each AI action
+const AI_ACTION_KEYS: Record<string, string> = {
+  rewrite: 'R',
+  concise: 'S',
+  'acceptance-criteria': 'A',
+  ask: 'Q',
+};
+
+// Wait for a pause in typing before asking for a suggestion
+const INLINE_COMPLETION_DELAY_MS = 500;
+
+let inlineCompletionRequestId = 0;
+
+// Match the colours of the feedback sections in the stakeholder simulator
+const FEEDBACK_RULER_COLORS: Record<string, string> = {
+  blockers: '#f87171',
+  concerns: '#fbbf24',
+  questions: '#60a5fa',
+  suggestions: '#a78bfa',
+};
+
+// View zones need a fixed height, so measure the wrapped text at the editor's width
+const measureHeight = (node: HTMLElement, width: number): number => {
+  node.style.position = 'absolute';
+  node.style.visibility = 'hidden';
+  node.style.width = `${width}px`;
+  document.body.appendChild(node);
+  const height = node.offsetHeight;
+  document.body.removeChild(node);
+  node.style.position = '';
+  node.style.visibility = '';
+  node.style.width = '';
+  return height;
+};
+
+const MonacoEditor: React.FC<MonacoEditorProps> = ({
+  value,
+  language,
+  onChange,
+  onSave,
+  revealLocation,
+  onRevealed,
+  fileName,
+  aiEnabled,
+  onAskAboutSelection,
+  inlineCompletions,
+  annotations,
+}) => {
   const editorRef = useRef<any>(null);
+  const monacoRef = useRef<any>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [contextMenu, setContextMenu] = useState<ContextMenuState>({ visible: false, x: 0, y: 0 });
+  const [isMounted, setIsMounted] = useState(false);
+
+  // Editor actions are registered once on mount, so they read the latest props and state through refs
+  const fileNameRef = useRef(fileName);
+  fileNameRef.current = fileName;
+  const aiEnabledRef = useRef(aiEnabled);
+  aiEnabledRef.current = aiEnabled;
+  const onAskRef = useRef(onAskAboutSelection);
+  onAskRef.current = onAskAboutSelection;
+  const inlineCompletionsRef = useRef(inlineCompletions);
+  inlineCompletionsRef.current = inlineCompletions;
+  const inlineProviderRef = useRef<any>(null);
+
+  const [rewrite, setRewrite] = useState<PendingRewrite | null>(null);
+  const [rewriteWidgetNode, setRewriteWidgetNode] = useState<HTMLElement | null>(null);
+  const rewriteRef = useRef<PendingRewrite | null>(null);
+  rewriteRef.current = rewrite;
+  const rewriteIdRef = useRef(0);
+  const rewriteRangeRef = useRef<any>(null); // Decorations collection tracking the original text as the document changes
+  const rewriteZoneIdRef = useRef<string | null>(null);
+  const rewriteWidgetRef = useRef<any>(null);
+  const rewriteContextKeysRef = useRef<{ pending: any; ready: any } | null>(null);
+  const annotationsRef = useRef<any>(null);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!isMounted || !editor || !revealLocation) return;
+
+    const position = { lineNumber: revealLocation.line, column: revealLocation.column || 1 };
+    editor.revealLineInCenter(position.lineNumber);
+    if (revealLocation.endLine) {
+      editor.setSelection(new monacoRef.current.Selection(
+        position.lineNumber, position.column, revealLocation.endLine, revealLocation.endColumn || 1
+      ));
+    } else {
+      editor.setPosition(position);
+    }
+    editor.focus();
+    onRevealed?.();
+  }, [isMounted, revealLocation]);
+
+  // Feedback items from the stakeholder simulator: a gutter marker on the first line, a hover card
+  // with the feedback, and an underline on the quoted passage
+  useEffect(() => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    if (!isMounted || !editor) return;
+
+    if (!annotationsRef.current) {
+      annotationsRef.current = editor.createDecorationsCollection();
+    }
+    annotationsRef.current.set((annotations || []).map(annotation => {
+      const { anchor, category, item } = annotation;
+      const { label, emoji } = FEEDBACK_CATEGORIES.find(c => c.key === category)!;
+      const hover = {
+        value: `**${emoji} ${label}** · ${annotation.emoji} ${annotation.stakeholderName} (${annotation.stakeholderRole})\n\n${item.text}`,
+      };
+      return {
+        range: new monaco.Range(anchor.startLine, anchor.startColumn, anchor.endLine, anchor.endColumn),
+        options: {
+          className: anchor.kind === 'quote' ? `feedback-quote feedback-${category}` : undefined,
+          isWholeLine: anchor.kind === 'section',
+          glyphMarginClassName: `feedback-glyph feedback-${category}`,
+          glyphMarginHoverMessage: hover,
+          hoverMessage: hover,
+          overviewRuler: {
+            color: FEEDBACK_RULER_COLORS[category],
+            position: monaco.editor.OverviewRulerLane.Right,
+          },
+          stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges,
+        },
+      };
+    }));
+  }, [isMounted, annotations]);
+
+  // The completions provider is registered per language for all editors, so remove it with this one
+  useEffect(() => {
+    return () => inlineProviderRef.current?.dispose();
+  }, []);
+
+  // A pending rewrite belongs to the file it was started in
+  useEffect(() => {
+    clearRewrite();
+  }, [fileName]);
+
+  useEffect(() => {
+    rewriteContextKeysRef.current?.pending.set(rewrite !== null);
+    rewriteContextKeysRef.current?.ready.set(rewrite?.status === 'ready');
+    if (rewriteWidgetRef.current) {
+      editorRef.current?.layoutContentWidget(rewriteWidgetRef.current);
+    }
+  }, [rewrite]);
+
+  const getSelectionContext = (): { range: any; context: SelectionContext } | null => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    const selection = editor?.getSelection();
+    if (!model || !selection || selection.isEmpty()) return null;
+
+    return {
+      range: selection,
+      context: {
+        fileName: fileNameRef.current?.split(/[\\/]/).pop() || 'Untitled',
+        headingPath: getHeadingPath(model.getValue(), selection.startLineNumber - 1),
+        text: model.getValueInRange(selection),
+      },
+    };
+  };
+
+  const removeProposedText = () => {
+    if (rewriteZoneIdRef.current) {
+      const zoneId = rewriteZoneIdRef.current;
+      editorRef.current?.changeViewZones((accessor: any) => accessor.removeZone(zoneId));
+      rewriteZoneIdRef.current = null;
+    }
+  };
+
+  const clearRewrite = () => {
+    rewriteIdRef.current++;
+    removeProposedText();
+    rewriteRangeRef.current?.clear();
+    rewriteRangeRef.current = null;
+    if (rewriteWidgetRef.current) {
+      editorRef.current?.removeContentWidget(rewriteWidgetRef.current);
+      rewriteWidgetRef.current = null;
+    }
+    setRewriteWidgetNode(null);
+    setRewrite(null);
+  };
+
+  const setRewriteHighlight = (className: string) => {
+    const range = rewriteRangeRef.current?.getRange(0);
+    if (range) {
+      rewriteRangeRef.current.set([{
+        range,
+        options: { className, stickiness: monacoRef.current.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges },
+      }]);
+    }
+  };
+
+  // Show the proposed text in a view zone under the last line of the original
+  const showProposedText = (text: string) => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    const range = rewriteRangeRef.current?.getRange(0);
+    if (!editor || !range) return;
+
+    const fontInfo = editor.getOption(monaco.editor.EditorOption.fontInfo);
+    const layout = editor.getLayoutInfo();
+    const node = document.createElement('div');
+    node.className = 'ai-rewrite-proposed';
+    node.textContent = text.replace(/\s+$/, '');
+    node.style.fontFamily = fontInfo.fontFamily;
+    node.style.fontSize = `${fontInfo.fontSize}px`;
+    node.style.lineHeight = `${fontInfo.lineHeight}px`;
+    const heightInPx = measureHeight(node, layout.contentWidth - layout.verticalScrollbarWidth);
+
+    // A selection of whole lines ends at column 1 of the line after it
+    const afterLineNumber = range.endColumn === 1 && range.endLineNumber > range.startLineNumber
+      ? range.endLineNumber - 1
+      : range.endLineNumber;
+    editor.changeViewZones((accessor: any) => {
+      rewriteZoneIdRef.current = accessor.addZone({ afterLineNumber, heightInPx, domNode: node });
+    });
+  };
+
+  const runSelectionAction = async (action: SelectionAction) => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    const selected = getSelectionContext();
+    if (!editor || !selected) return;
+
+    clearRewrite();
+    const rewriteId = rewriteIdRef.current;
+    rewriteRangeRef.current = editor.createDecorationsCollection([{
+      range: selected.range,
+      options: { className: 'ai-rewrite-pending', stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges },
+    }]);
+
+    const widgetNode = document.createElement('div');
+    const widget = {
+      getId: () => 'collie.aiRewriteWidget',
+      getDomNode: () => widgetNode,
+      getPosition: () => {
+        const range = rewriteRangeRef.current?.getRange(0);
+        return range ? {
+          position: { lineNumber: range.startLineNumber, column: 1 },
+          preference: [
+            monaco.editor.ContentWidgetPositionPreference.ABOVE,
+            monaco.editor.ContentWidgetPositionPreference.BELOW,
+          ],
+        } : null;
+      },
+    };
+    editor.addContentWidget(widget);
+    rewriteWidgetRef.current = widget;
+    setRewriteWidgetNode(widgetNode);
+    setRewrite({ action, original: selected.context.text, status: 'loading' });
+
+    const result = await ipcRenderer.invoke('editor:selectionAction', action.id, selected.context);
+    // Cancelled, or replaced by another action
+    if (rewriteId !== rewriteIdRef.current) return;
+
+    if (!result.success) {
+      setRewrite(prev => prev && { ...prev, status: 'error', error: result.error || 'The AI request failed' });
+      return;
+    }
+
+    setRewriteHighlight('ai-rewrite-original');
+    showProposedText(result.text);
+    setRewrite(prev => prev && { ...prev, status: 'ready', text: result.text });
+  };
+
+  const acceptRewrite = () => {
+    const editor = editorRef.current;
+    const pending = rewriteRef.current;
+    const range = rewriteRangeRef.current?.getRange(0);
+    if (!editor || !pending || pending.status !== 'ready' || pending.text === undefined || !range) return;
+
+    if (editor.getModel()?.getValueInRange(range) !== pending.original) {
+      removeProposedText();
+      setRewriteHighlight('ai-rewrite-pending');
+      setRewrite({ ...pending, status: 'error', error: 'The original text was edited in the meantime' });
+      return;
+    }
+
+    // A single undo step restores the original
+    editor.pushUndoStop();
+    editor.executeEdits('collie-ai', [{ range, text: pending.text }]);
+    editor.pushUndoStop();
+    clearRewrite();
+    editor.focus();
+  };
+
+  const retryRewrite = () => {
+    const pending = rewriteRef.current;
+    const range = rewriteRangeRef.current?.getRange(0);
+    if (!pending || !range) return;
+    editorRef.current.setSelection(range);
+    runSelectionAction(pending.action);
+  };
+
+  const askAboutSelection = () => {
+    const selected = getSelectionContext();
+    if (selected && onAskRef.current) {
+      onAskRef.current(selected.context);
+    }
+  };
+
+  // Ghost text at the end of a line; Monaco cancels the token when the user keeps typing or moves on
+  const provideInlineCompletions = async (model: any, position: any, _context: any, token: any) => {
+    const noSuggestions = { items: [] };
+    if (!inlineCompletionsRef.current || !aiEnabledRef.current || model !== editorRef.current?.getModel()) {
+      return noSuggestions;
+    }
+    if (model.getLineContent(position.lineNumber).substring(position.column - 1).trim()) {
+      return noSuggestions;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, INLINE_COMPLETION_DELAY_MS));
+    if (token.isCancellationRequested) return noSuggestions;
+
+    const lastLine = model.getLineCount();
+    const request: InlineCompletionRequest = {
+      fileName: fileNameRef.current?.split(/[\\/]/).pop() || 'Untitled',
+      headingPath: getHeadingPath(model.getValue(), position.lineNumber - 1),
+      prefix: model.getValueInRange({ startLineNumber: 1, startColumn: 1, endLineNumber: position.lineNumber, endColumn: position.column }),
+      suffix: model.getValueInRange({ startLineNumber: position.lineNumber, startColumn: position.column, endLineNumber: lastLine, endColumn: model.getLineMaxColumn(lastLine) }),
+    };
+    if (!request.prefix.trim()) return noSuggestions;
+
+    const requestId = ++inlineCompletionRequestId;
+    const cancellation = token.onCancellationRequested(() => {
+      ipcRenderer.invoke('editor:cancelInlineCompletion', requestId);
+    });
+    try {
+      const result = await ipcRenderer.invoke('editor:inlineCompletion', requestId, request);
+      if (token.isCancellationRequested || !result.success || !result.text) {
+        if (!result.success) console.warn('[EDITOR] Inline completion failed:', result.error);
+        return noSuggestions;
+      }
+      return {
+        items: [{
+          insertText: result.text,
+          range: new monacoRef.current.Range(position.lineNumber, position.column, position.lineNumber, position.column),
+        }],
+      };
+    } finally {
+      cancellation.dispose();
+    }
+  };
 
   const handleEditorDidMount = (editor: any, monaco: any) => {
     editorRef.current = editor;
+    monacoRef.current = monaco;
+
+    // .prd files open as plain text
+    inlineProviderRef.current = monaco.languages.registerInlineCompletionsProvider(['markdown', 'plaintext'], {
+      provideInlineCompletions,
+      freeInlineCompletions: () => {},
+    });
 
     // Add save keyboard shortcut
     editor.addAction({
@@ -36,6 +407,37 @@ const MonacoEditor: React.FC<MonacoEditorProps> = ({ value, language, onChange,
       }
     });
 
+    // AI actions on the selection: Ctrl+K followed by a letter
+    const aiChord = (key: string) => monaco.KeyMod.chord(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyK, monaco.KeyCode[`Key${key}`]);
+    for (const action of SELECTION_ACTIONS) {
+      editor.addAction({
+        id: `collie.${action.id}`,
+        label: `Collie: ${action.label}`,
+        keybindings: [aiChord(AI_ACTION_KEYS[action.id])],
+        precondition: 'editorHasSelection && !editorReadonly',
+        run: () => {
+          if (aiEnabledRef.current) runSelectionAction(action);
+        }
+      });
+    }
+    editor.addAction({
+      id: 'collie.ask',
+      label: 'Collie: Ask about Selection',
+      keybindings: [aiChord(AI_ACTION_KEYS.ask)],
+      precondition: 'editorHasSelection',
+      run: () => {
+        if (aiEnabledRef.current) askAboutSelection();
+      }
+    });
+
+    // Review keys while a rewrite is shown
+    rewriteContextKeysRef.current = {
+      pending: editor.createContextKey('collieRewritePending', false),
+      ready: editor.createContextKey('collieRewriteReady', false),
+    };
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter, () => acceptRewrite(), 'collieRewriteReady');
+    editor.addCommand(monaco.KeyCode.Escape, () => clearRewrite(), 'collieRewritePending');
+
     // Clipboard operations - use addCommand with editorTextFocus precondition
     // This ensures they only run in the main editor, not in find widget input
     editor.addCommand(
@@ -122,14 +524,17 @@ const MonacoEditor: React.FC<MonacoEditorProps> = ({ value, language, onChange,
 
     // Focus the editor
     editor.focus();
+    setIsMounted(true);
   };
 
   const handleContextMenu = (e: React.MouseEvent) => {
     e.preventDefault();
+    const selection = editorRef.current?.getSelection();
     setContextMenu({
       visible: true,
       x: e.clientX,
-      y: e.clientY
+      y: e.clientY,
+      hasSelection: !!selection && !selection.isEmpty()
     });
   };
 
@@ -180,6 +585,16 @@ const MonacoEditor: React.FC<MonacoEditorProps> = ({ value, language, onChange,
     hideContextMenu();
   };
 
+  const handleAIAction = (action: SelectionAction) => {
+    hideContextMenu();
+    runSelectionAction(action);
+  };
+
+  const handleAsk = () => {
+    hideContextMenu();
+    askAboutSelection();
+  };
+
   const handleFindReplace = () => {
     const editor = editorRef.current;
     if (editor) {
@@ -216,6 +631,7 @@ const MonacoEditor: React.FC<MonacoEditorProps> = ({ value, language, onChange,
           glyphMargin: true,
           readOnly: false,
           contextmenu: false,
+          inlineSuggest: { enabled: true },
           scrollbar: {
             vertical: 'auto',
             horizontal: 'auto',
@@ -252,8 +668,51 @@ const MonacoEditor: React.FC<MonacoEditorProps> = ({ value, language, onChange,
             <span className="context-menu-label">Find and Replace</span>
             <span className="context-menu-shortcut">Ctrl+H</span>
           </div>
+          {aiEnabled && contextMenu.hasSelection && (
+            <>
+              <div className="context-menu-separator" />
+              {SELECTION_ACTIONS.map(action => (
+                <div key={action.id} className="context-menu-item" onClick={() => handleAIAction(action)}>
+                  <span className="context-menu-label">✨ {action.label}</span>
+                  <span className="context-menu-shortcut">Ctrl+K {AI_ACTION_KEYS[action.id]}</span>
+                </div>
+              ))}
+              {onAskAboutSelection && (
+                <div className="context-menu-item" onClick={handleAsk}>
+                  <span className="context-menu-label">💬 Ask Collie about Selection</span>
+                  <span className="context-menu-shortcut">Ctrl+K {AI_ACTION_KEYS.ask}</span>
+                </div>
+              )}
+            </>
+          )}
         </div>
       )}
+
+      {rewrite && rewriteWidgetNode && createPortal(
+        <div className={`ai-rewrite-widget ${rewrite.status}`}>
+          <span className="ai-rewrite-title">✨ {rewrite.action.label}</span>
+          {rewrite.status === 'loading' && (
+            <>
+              <span className="ai-rewrite-status">Working...</span>
+              <button className="ai-rewrite-btn" onClick={clearRewrite} title="Escape">Cancel</button>
+            </>
+          )}
+          {rewrite.status === 'ready' && (
+            <>
+              <button className="ai-rewrite-btn primary" onClick={acceptRewrite} title="Ctrl+Enter">Accept</button>
+              <button className="ai-rewrite-btn" onClick={clearRewrite} title="Escape">Reject</button>
+            </>
+          )}
+          {rewrite.status === 'error' && (
+            <>
+              <span className="ai-rewrite-error" title={rewrite.error}>{rewrite.error}</span>
+              <button className="ai-rewrite-btn" onClick={retryRewrite}>Retry</button>
+              <button className="ai-rewrite-btn" onClick={clearRewrite} title="Escape">Dismiss</button>
+            </>
+          )}
+        </div>,
+        rewriteWidgetNode
+      )}
     </div>
   );
 };
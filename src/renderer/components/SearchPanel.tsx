@@ -0,0 +1,197 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { WorkspaceSearchFile, WorkspaceSearchResults } from '../../shared/types';
+import './SearchPanel.css';
+
+const { ipcRenderer } = window.require('electron');
+
+const SEARCH_DELAY_MS = 300;
+const MAX_RESULTS = 500;
+
+interface SearchPanelProps {
+  workspacePath: string;
+  onOpenMatch: (relativePath: string, line: number, column: number) => void;
+}
+
+const splitGlobs = (value: string) => value.split(',').map(g => g.trim()).filter(Boolean);
+
+// Split a line into plain and highlighted parts for the first match of the query
+const highlightMatch = (text: string, pattern: RegExp | null): React.ReactNode => {
+  const match = pattern?.exec(text);
+  if (!match || !match[0]) return text;
+  return (
+    <>
+      {text.substring(0, match.index)}
+      <mark className="search-result-highlight">{match[0]}</mark>
+      {text.substring(match.index + match[0].length)}
+    </>
+  );
+};
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ workspacePath, onOpenMatch }) => {
+  const [query, setQuery] = useState('');
+  const [isRegex, setIsRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [include, setInclude] = useState('');
+  const [exclude, setExclude] = useState('');
+  const [results, setResults] = useState<WorkspaceSearchResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const searchIdRef = useRef(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Search as the user types; only the latest request's results are shown
+  useEffect(() => {
+    const searchId = ++searchIdRef.current;
+    if (!query) {
+      setResults(null);
+      setError(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      const result = await ipcRenderer.invoke('search:workspace', workspacePath, {
+        query,
+        isRegex,
+        caseSensitive,
+        include: splitGlobs(include),
+        exclude: splitGlobs(exclude),
+        maxResults: MAX_RESULTS,
+      });
+      if (searchId !== searchIdRef.current) return;
+
+      setIsSearching(false);
+      if (result.success) {
+        setResults(result.results);
+        setError(null);
+        setCollapsed(new Set());
+      } else {
+        setResults(null);
+        setError(result.error || 'Search failed');
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [workspacePath, query, isRegex, caseSensitive, include, exclude]);
+
+  let highlightPattern: RegExp | null = null;
+  try {
+    highlightPattern = query
+      ? new RegExp(isRegex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), caseSensitive ? '' : 'i')
+      : null;
+  } catch {
+    // Invalid regex - the search itself reports the error
+  }
+
+  const toggleFile = (file: WorkspaceSearchFile) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(file.path)) {
+        next.delete(file.path);
+      } else {
+        next.add(file.path);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="search-panel">
+      <div className="search-inputs">
+        <div className="search-query-row">
+          <input
+            ref={inputRef}
+            type="text"
+            className="search-input"
+            placeholder="Search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <button
+            className={`search-option-btn ${caseSensitive ? 'active' : ''}`}
+            onClick={() => setCaseSensitive(!caseSensitive)}
+            title="Match Case"
+          >
+            Aa
+          </button>
+          <button
+            className={`search-option-btn ${isRegex ? 'active' : ''}`}
+            onClick={() => setIsRegex(!isRegex)}
+            title="Use Regular Expression"
+          >
+            .*
+          </button>
+          <button
+            className={`search-option-btn ${showFilters ? 'active' : ''}`}
+            onClick={() => setShowFilters(!showFilters)}
+            title="Toggle Search Details"
+          >
+            …
+          </button>
+        </div>
+
+        {showFilters && (
+          <>
+            <input
+              type="text"
+              className="search-input"
+              placeholder="files to include (e.g. *.md, docs/**)"
+              value={include}
+              onChange={(e) => setInclude(e.target.value)}
+            />
+            <input
+              type="text"
+              className="search-input"
+              placeholder="files to exclude"
+              value={exclude}
+              onChange={(e) => setExclude(e.target.value)}
+            />
+          </>
+        )}
+      </div>
+
+      {error && <div className="search-message error">{error}</div>}
+
+      {results && !error && (
+        <div className="search-message">
+          {results.matchCount === 0
+            ? 'No results found.'
+            : `${results.matchCount}${results.truncated ? '+' : ''} results in ${results.files.length} file${results.files.length === 1 ? '' : 's'}`}
+          {isSearching && ' · searching...'}
+        </div>
+      )}
+
+      <div className="search-results">
+        {results?.files.map(file => (
+          <div key={file.path} className="search-result-file">
+            <div className="search-result-file-header" onClick={() => toggleFile(file)} title={file.path}>
+              <span className="search-result-toggle">{collapsed.has(file.path) ? '▶' : '▼'}</span>
+              <span className="search-result-name">{file.path.split('/').pop()}</span>
+              <span className="search-result-dir">{file.path.split('/').slice(0, -1).join('/')}</span>
+              <span className="search-result-count">{file.matches.length}</span>
+            </div>
+            {!collapsed.has(file.path) && file.matches.map(match => (
+              <div
+                key={match.line}
+                className="search-result-line"
+                onClick={() => onOpenMatch(file.path, match.line, match.column)}
+                title={`Line ${match.line}`}
+              >
+                {highlightMatch(match.text.trimStart(), highlightPattern)}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
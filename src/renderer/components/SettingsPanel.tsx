@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import './SettingsPanel.css';
-import { AppSettings, DEFAULT_SETTINGS, BEDROCK_MODELS, OPENAI_MODELS, OLLAMA_MODELS, AIProvider } from '../../shared/settings';
+import { ProviderModel } from '../../shared/types';
+import { AppSettings, DEFAULT_SETTINGS, DEFAULT_DENIED_PATHS, BEDROCK_MODELS, OPENAI_MODELS, ANTHROPIC_MODELS, AZURE_OPENAI_MODELS, OLLAMA_MODELS, AIProvider, EmbeddingSource, PROVIDER_LABELS, MAX_SIMULATION_CONCURRENCY, getContextBudget, validateProviderSettings } from '../../shared/settings';
 
 const { ipcRenderer } = window.require('electron');
 
@@ -33,13 +34,21 @@ const getModelDisplayName = (model: OllamaModel | { id: string; name: string; si
   return displayName;
 };
 
+// Providers whose models are listed with provider:listModels (Ollama has its own detection, Azure uses deployments)
+const MODEL_DISCOVERY_PROVIDERS: AIProvider[] = ['bedrock', 'openai', 'anthropic'];
+
+const CUSTOM_MODEL_OPTION = '__custom__';
+
+type ModelField = 'bedrockModel' | 'openaiModel' | 'anthropicModel';
+
 interface SettingsPanelProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (settings: AppSettings) => void;
+  workspacePath?: string | null; // Workspace-specific settings apply to this one
 }
 
-const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave }) => {
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave, workspacePath }) => {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [showSecrets, setShowSecrets] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -49,6 +58,11 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave }
   const [pullingModel, setPullingModel] = useState(false);
   const [pullProgress, setPullProgress] = useState<string>('');
   const [deletingModel, setDeletingModel] = useState(false);
+  const [discoveredModels, setDiscoveredModels] = useState<Partial<Record<AIProvider, ProviderModel[]>>>({});
+  const [discoveringModels, setDiscoveringModels] = useState(false);
+  const [modelDiscoveryError, setModelDiscoveryError] = useState<string | null>(null);
+  const [modelDiscoveryNotice, setModelDiscoveryNotice] = useState<string | null>(null);
+  const [customModel, setCustomModel] = useState(false);
 
   useEffect(() => {
     // Load settings from file via IPC
@@ -63,6 +77,10 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave }
             aiProvider: savedSettings.aiProvider || 'bedrock',
           };
           setSettings(migratedSettings);
+
+          if (migratedSettings.aiEnabled && !validateProviderSettings(migratedSettings)) {
+            handleDiscoverModels(migratedSettings);
+          }
           
           // Auto-detect Ollama models if provider is ollama
           if (migratedSettings.aiProvider === 'ollama') {
@@ -116,62 +134,15 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave }
     }
   };
 
-  const handleTestBedrock = async () => {
-    if (!settings.awsAccessKeyId || !settings.awsSecretAccessKey) {
-      alert('Please enter your AWS credentials first.');
-      return;
-    }
-
+  const handleTestProvider = async () => {
     setTestingConnection(true);
     try {
-      // Test AWS Bedrock connection
-      const { BedrockRuntimeClient, InvokeModelCommand } = require('@aws-sdk/client-bedrock-runtime');
-      
-      const client = new BedrockRuntimeClient({
-        region: settings.awsRegion,
-        credentials: {
-          accessKeyId: settings.awsAccessKeyId,
-          secretAccessKey: settings.awsSecretAccessKey
-        }
-      });
-
-      const payload = {
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: 10,
-        messages: [
-          {
-            role: 'user',
-            content: 'Hi'
-          }
-        ]
-      };
-
-      const command = new InvokeModelCommand({
-        modelId: settings.bedrockModel,
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify(payload)
-      });
-
-      await client.send(command);
-      alert('Connection successful! Your AWS Bedrock credentials are working.');
-      // Restore focus after alert (Electron focus issue workaround)
-      setTimeout(() => window.focus(), 100);
-    } catch (error: any) {
-      console.error('Connection test error:', error);
-      let errorMessage = '❌ Connection failed!\n\n';
-      
-      if (error.name === 'AccessDeniedException') {
-        errorMessage += 'Access denied. Please check:\n• Your AWS credentials are correct\n• Your IAM user has Bedrock permissions\n• The model is available in your region';
-      } else if (error.name === 'ResourceNotFoundException') {
-        errorMessage += 'Model not found. The selected model may not be available in your region.';
-      } else if (error.message?.includes('credentials')) {
-        errorMessage += 'Invalid credentials. Please check your Access Key ID and Secret Access Key.';
+      const result = await ipcRenderer.invoke('provider:test', settings);
+      if (result.success) {
+        alert(`Connection successful! ${result.message}`);
       } else {
-        errorMessage += error.message || 'Unknown error occurred.';
+        alert(`❌ Connection failed!\n\n${result.error || 'Unknown error occurred.'}`);
       }
-      
-      alert(errorMessage);
       // Restore focus after alert (Electron focus issue workaround)
       setTimeout(() => window.focus(), 100);
     } finally {
@@ -179,53 +150,25 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave }
     }
   };
 
-  const handleTestOpenAI = async () => {
-    if (!settings.openaiApiKey) {
-      alert('Please enter your OpenAI API key first.');
-      return;
-    }
+  // Load the models available to the entered credentials (settings are passed in because state may not be updated yet)
+  const handleDiscoverModels = async (target: AppSettings) => {
+    if (!MODEL_DISCOVERY_PROVIDERS.includes(target.aiProvider)) return;
 
-    setTestingConnection(true);
+    setDiscoveringModels(true);
+    setModelDiscoveryError(null);
+    setModelDiscoveryNotice(null);
     try {
-      const baseUrl = settings.openaiBaseUrl || 'https://api.openai.com/v1';
-      const response = await fetch(`${baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${settings.openaiApiKey}`,
-        },
-        body: JSON.stringify({
-          model: settings.openaiModel,
-          messages: [{ role: 'user', content: 'Hi' }],
-          max_tokens: 10,
-        }),
-      });
-
-      if (response.ok) {
-        alert('Connection successful! Your OpenAI API key is working.');
-        setTimeout(() => window.focus(), 100);
+      const result = await ipcRenderer.invoke('provider:listModels', target);
+      if (result.success) {
+        setDiscoveredModels(prev => ({ ...prev, [target.aiProvider]: result.models }));
+        setModelDiscoveryNotice(result.notice || null);
       } else {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error?.message || `HTTP ${response.status}`);
+        setModelDiscoveryError(result.error);
       }
     } catch (error: any) {
-      console.error('OpenAI connection test error:', error);
-      let errorMessage = '❌ Connection failed!\n\n';
-      
-      if (error.message?.includes('401')) {
-        errorMessage += 'Invalid API key. Please check your OpenAI API key.';
-      } else if (error.message?.includes('429')) {
-        errorMessage += 'Rate limited. Please try again later.';
-      } else if (error.message?.includes('model')) {
-        errorMessage += 'Model not available. Please check your model selection.';
-      } else {
-        errorMessage += error.message || 'Unknown error occurred.';
-      }
-      
-      alert(errorMessage);
-      setTimeout(() => window.focus(), 100);
+      setModelDiscoveryError(error.message);
     } finally {
-      setTestingConnection(false);
+      setDiscoveringModels(false);
     }
   };
 
@@ -386,17 +329,23 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave }
   };
 
   const handleTest = () => {
-    if (settings.aiProvider === 'openai') {
-      handleTestOpenAI();
-    } else if (settings.aiProvider === 'ollama') {
+    if (settings.aiProvider === 'ollama') {
       handleTestOllama();
     } else {
-      handleTestBedrock();
+      handleTestProvider();
     }
   };
 
   const handleProviderChange = async (provider: AIProvider) => {
     setSettings({ ...settings, aiProvider: provider });
+    setCustomModel(false);
+    setModelDiscoveryError(null);
+    setModelDiscoveryNotice(null);
+
+    const target = { ...settings, aiProvider: provider };
+    if (!discoveredModels[provider] && !validateProviderSettings(target)) {
+      handleDiscoverModels(target);
+    }
     
     // Auto-detect models when switching to Ollama
     if (provider === 'ollama') {
@@ -416,8 +365,123 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave }
     }
   };
 
+  const toggleFallback = (provider: AIProvider) => {
+    const current = settings.fallbackProviders || [];
+    setSettings({
+      ...settings,
+      fallbackProviders: current.includes(provider)
+        ? current.filter(p => p !== provider)
+        : [...current, provider],
+    });
+  };
+
+  const moveFallback = (provider: AIProvider, offset: number) => {
+    const order = (settings.fallbackProviders || []).filter(p => p !== settings.aiProvider);
+    const index = order.indexOf(provider);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= order.length) return;
+
+    [order[index], order[target]] = [order[target], order[index]];
+    setSettings({ ...settings, fallbackProviders: order });
+  };
+
+  const renderModelOptions = (models: { id: string; name: string; group?: string }[]) => {
+    const groups = Array.from(new Set(models.map(m => m.group || '')));
+    if (groups.length === 1 && !groups[0]) {
+      return models.map((model) => (
+        <option key={model.id} value={model.id}>{model.name}</option>
+      ));
+    }
+    return groups.map(group => (
+      <optgroup key={group} label={group || 'Other'}>
+        {models.filter(m => (m.group || '') === group).map((model) => (
+          <option key={model.id} value={model.id}>{model.name}</option>
+        ))}
+      </optgroup>
+    ));
+  };
+
+  // Model dropdown filled from the provider's API, with the built-in list as a fallback and a custom ID input
+  const renderModelPicker = (field: ModelField, suggestedModels: { id: string; name: string }[]) => {
+    const discovered = discoveredModels[settings.aiProvider] || [];
+    const knownModels = discovered.length > 0 ? discovered : suggestedModels;
+    const value = settings[field];
+    const isCustom = customModel || !knownModels.some(m => m.id === value);
+
+    return (
+      <>
+        <div className="model-selector-row">
+          {isCustom ? (
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => setSettings({ ...settings, [field]: e.target.value.trim() })}
+              placeholder="Enter a model ID"
+              disabled={!settings.aiEnabled}
+            />
+          ) : (
+            <select
+              value={value}
+              onChange={(e) => {
+                if (e.target.value === CUSTOM_MODEL_OPTION) {
+                  setCustomModel(true);
+                } else {
+                  setSettings({ ...settings, [field]: e.target.value });
+                }
+              }}
+              disabled={!settings.aiEnabled}
+            >
+              {renderModelOptions(knownModels)}
+              <option value={CUSTOM_MODEL_OPTION}>Custom model ID...</option>
+            </select>
+          )}
+          <button
+            className="settings-btn secondary detect-btn"
+            onClick={() => handleDiscoverModels(settings)}
+            disabled={!settings.aiEnabled || discoveringModels}
+          >
+            {discoveringModels ? 'Loading...' : 'Refresh'}
+          </button>
+        </div>
+        {isCustom && (
+          <button
+            className="settings-link-btn"
+            onClick={() => {
+              setCustomModel(false);
+              if (!knownModels.some(m => m.id === value) && knownModels.length > 0) {
+                setSettings({ ...settings, [field]: knownModels[0].id });
+              }
+            }}
+            disabled={!settings.aiEnabled}
+          >
+            Choose from list
+          </button>
+        )}
+        {modelDiscoveryError ? (
+          <span className="settings-hint warning">⚠ Could not load models: {modelDiscoveryError}</span>
+        ) : modelDiscoveryNotice ? (
+          <span className="settings-hint warning">⚠ {modelDiscoveryNotice}</span>
+        ) : (
+          <span className="settings-hint">
+            {discovered.length > 0
+              ? `${discovered.length} models available to your account`
+              : 'Showing suggested models - enter credentials and click Refresh to load the models available to your account.'}
+          </span>
+        )}
+      </>
+    );
+  };
+
   if (!isOpen) return null;
 
+  const configError = settings.aiEnabled ? validateProviderSettings(settings) : null;
+  // Enabled fallbacks first (in chain order), then the remaining providers
+  const enabledFallbacks = (settings.fallbackProviders || []).filter(p => p !== settings.aiProvider);
+  const fallbackOrder = [
+    ...enabledFallbacks,
+    ...(Object.keys(PROVIDER_LABELS) as AIProvider[]).filter(p => p !== settings.aiProvider && !enabledFallbacks.includes(p)),
+  ];
+
   return (
     <div className="settings-overlay" onClick={onClose}>
       <div className="settings-panel" onClick={(e) => e.stopPropagation()}>
@@ -472,6 +536,20 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave }
                 >
                   OpenAI
                 </button>
+                <button
+                  className={`provider-tab ${settings.aiProvider === 'anthropic' ? 'active' : ''}`}
+                  onClick={() => handleProviderChange('anthropic')}
+                  disabled={!settings.aiEnabled}
+                >
+                  Anthropic
+                </button>
+                <button
+                  className={`provider-tab ${settings.aiProvider === 'azure' ? 'active' : ''}`}
+                  onClick={() => handleProviderChange('azure')}
+                  disabled={!settings.aiEnabled}
+                >
+                  Azure OpenAI
+                </button>
                 <button
                   className={`provider-tab ${settings.aiProvider === 'ollama' ? 'active' : ''}`}
                   onClick={() => handleProviderChange('ollama')}
@@ -502,18 +580,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave }
                 </div>
 
                 <div className="settings-field">
-                  <label>Claude Model</label>
-                  <select
-                    value={settings.bedrockModel}
-                    onChange={(e) => setSettings({ ...settings, bedrockModel: e.target.value })}
-                    disabled={!settings.aiEnabled}
-                  >
-                    {BEDROCK_MODELS.map((model) => (
-                      <option key={model.id} value={model.id}>
-                        {model.name}
-                      </option>
-                    ))}
-                  </select>
+                  <label>Model</label>
+                  {renderModelPicker('bedrockModel', BEDROCK_MODELS)}
                 </div>
 
                 <div className="settings-field">
@@ -545,17 +613,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave }
               <>
                 <div className="settings-field">
                   <label>OpenAI Model</label>
-                  <select
-                    value={settings.openaiModel}
-                    onChange={(e) => setSettings({ ...settings, openaiModel: e.target.value })}
-                    disabled={!settings.aiEnabled}
-                  >
-                    {OPENAI_MODELS.map((model) => (
-                      <option key={model.id} value={model.id}>
-                        {model.name}
-                      </option>
-                    ))}
-                  </select>
+                  {renderModelPicker('openaiModel', OPENAI_MODELS)}
                 </div>
 
                 <div className="settings-field">
@@ -578,7 +636,94 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave }
                     placeholder="https://api.openai.com/v1"
                     disabled={!settings.aiEnabled}
                   />
-                  <span className="settings-hint">For OpenAI-compatible APIs (Azure, local LLMs, etc.)</span>
+                  <span className="settings-hint">For OpenAI-compatible APIs (proxies, local LLMs, etc.)</span>
+                </div>
+              </>
+            )}
+
+            {/* Anthropic Settings */}
+            {settings.aiProvider === 'anthropic' && (
+              <>
+                <div className="settings-field">
+                  <label>Claude Model</label>
+                  {renderModelPicker('anthropicModel', ANTHROPIC_MODELS)}
+                </div>
+
+                <div className="settings-field">
+                  <label>Anthropic API Key</label>
+                  <input
+                    type={showSecrets ? 'text' : 'password'}
+                    value={settings.anthropicApiKey}
+                    onChange={(e) => setSettings({ ...settings, anthropicApiKey: e.target.value })}
+                    placeholder="sk-ant-..."
+                    disabled={!settings.aiEnabled}
+                  />
+                  <span className="settings-hint">Create a key in the Anthropic Console</span>
+                </div>
+              </>
+            )}
+
+            {/* Azure OpenAI Settings */}
+            {settings.aiProvider === 'azure' && (
+              <>
+                <div className="settings-field">
+                  <label>Endpoint</label>
+                  <input
+                    type="text"
+                    value={settings.azureEndpoint}
+                    onChange={(e) => setSettings({ ...settings, azureEndpoint: e.target.value })}
+                    placeholder="https://my-resource.openai.azure.com"
+                    disabled={!settings.aiEnabled}
+                  />
+                </div>
+
+                <div className="settings-field">
+                  <label>Azure OpenAI API Key</label>
+                  <input
+                    type={showSecrets ? 'text' : 'password'}
+                    value={settings.azureApiKey}
+                    onChange={(e) => setSettings({ ...settings, azureApiKey: e.target.value })}
+                    placeholder="Enter your API key"
+                    disabled={!settings.aiEnabled}
+                  />
+                </div>
+
+                <div className="settings-field">
+                  <label>Deployment Name</label>
+                  <input
+                    type="text"
+                    value={settings.azureDeployment}
+                    onChange={(e) => setSettings({ ...settings, azureDeployment: e.target.value })}
+                    placeholder="my-gpt-4o"
+                    disabled={!settings.aiEnabled}
+                  />
+                </div>
+
+                <div className="settings-field">
+                  <label>Deployed Model</label>
+                  <select
+                    value={settings.azureModel}
+                    onChange={(e) => setSettings({ ...settings, azureModel: e.target.value })}
+                    disabled={!settings.aiEnabled}
+                  >
+                    {AZURE_OPENAI_MODELS.map((model) => (
+                      <option key={model.id} value={model.id}>
+                        {model.name}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="settings-hint">The model behind the deployment - used for cost tracking</span>
+                </div>
+
+                <div className="settings-field">
+                  <label>API Version</label>
+                  <input
+                    type="text"
+                    value={settings.azureApiVersion}
+                    onChange={(e) => setSettings({ ...settings, azureApiVersion: e.target.value })}
+                    placeholder="2024-10-21"
+                    disabled={!settings.aiEnabled}
+                  />
                 </div>
               </>
             )}
@@ -679,6 +824,208 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave }
               </>
             )}
 
+            {configError && (
+              <span className="settings-hint warning">⚠ {configError}</span>
+            )}
+
+            <div className="settings-field">
+              <label>Fallback Providers</label>
+              <div className="fallback-list">
+                {fallbackOrder.map(provider => {
+                  const position = enabledFallbacks.indexOf(provider);
+                  const providerError = validateProviderSettings({ ...settings, aiProvider: provider });
+                  return (
+                    <div key={provider} className="fallback-item">
+                      <label>
+                        <input
+                          type="checkbox"
+                          checked={position !== -1}
+                          onChange={() => toggleFallback(provider)}
+                          disabled={!settings.aiEnabled}
+                        />
+                        {position !== -1 && <span className="fallback-position">{position + 1}.</span>}
+                        {PROVIDER_LABELS[provider]}
+                      </label>
+                      {position !== -1 && providerError && (
+                        <span className="fallback-warning" title={providerError}>not configured</span>
+                      )}
+                      {position !== -1 && (
+                        <div className="fallback-actions">
+                          <button
+                            onClick={() => moveFallback(provider, -1)}
+                            disabled={!settings.aiEnabled || position === 0}
+                            title="Move up"
+                          >
+                            ▲
+                          </button>
+                          <button
+                            onClick={() => moveFallback(provider, 1)}
+                            disabled={!settings.aiEnabled || position === enabledFallbacks.length - 1}
+                            title="Move down"
+                          >
+                            ▼
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              <span className="settings-hint">
+                If {PROVIDER_LABELS[settings.aiProvider]} keeps failing (throttling, quota, outages), the chat continues with these providers in order, using the settings from their tabs. Unconfigured providers are skipped.
+              </span>
+            </div>
+
+            <div className="settings-field">
+              <label>Context Budget (tokens)</label>
+              <input
+                type="number"
+                min={2048}
+                step={1024}
+                value={getContextBudget(settings)}
+                onChange={(e) => setSettings({
+                  ...settings,
+                  contextBudgets: { ...settings.contextBudgets, [settings.aiProvider]: parseInt(e.target.value, 10) || 0 },
+                })}
+                disabled={!settings.aiEnabled}
+              />
+              <span className="settings-hint">
+                Older messages are summarized when the conversation approaches this size.
+                {settings.aiProvider === 'ollama' && ' Also sets the Ollama context window - larger values need more memory.'}
+              </span>
+            </div>
+
+            <div className="settings-field">
+              <label>Semantic Search Embeddings</label>
+              <select
+                value={settings.embeddingSource}
+                onChange={(e) => setSettings({ ...settings, embeddingSource: e.target.value as EmbeddingSource })}
+                disabled={!settings.aiEnabled}
+              >
+                <option value="provider">Same as the AI provider</option>
+                <option value="ollama">Ollama (local)</option>
+              </select>
+              <span className="settings-hint">
+                Used by the semantic_search tool and auto-attached chat context. Bedrock uses Titan Text Embeddings V2 and OpenAI uses text-embedding-3-small; Anthropic has no embedding API, so Ollama is used. The index is kept in <code>.collie/index/</code> and is rebuilt when the embedding model changes.
+              </span>
+            </div>
+
+            {settings.embeddingSource === 'provider' && settings.aiProvider === 'azure' && (
+              <div className="settings-field">
+                <label>Azure Embedding Deployment</label>
+                <input
+                  type="text"
+                  value={settings.azureEmbeddingDeployment}
+                  onChange={(e) => setSettings({ ...settings, azureEmbeddingDeployment: e.target.value })}
+                  placeholder="e.g. text-embedding-3-small"
+                  disabled={!settings.aiEnabled}
+                />
+                <span className="settings-hint">
+                  A deployment of an embedding model on the same Azure OpenAI resource.
+                </span>
+              </div>
+            )}
+
+            {(settings.embeddingSource === 'ollama' || settings.aiProvider === 'anthropic' || settings.aiProvider === 'ollama') && (
+              <div className="settings-field">
+                <label>Ollama Embedding Model</label>
+                <input
+                  type="text"
+                  value={settings.ollamaEmbeddingModel}
+                  onChange={(e) => setSettings({ ...settings, ollamaEmbeddingModel: e.target.value })}
+                  placeholder={DEFAULT_SETTINGS.ollamaEmbeddingModel}
+                  disabled={!settings.aiEnabled}
+                />
+                <span className="settings-hint">
+                  Install it with <code>ollama pull {settings.ollamaEmbeddingModel || DEFAULT_SETTINGS.ollamaEmbeddingModel}</code>. Served from {settings.ollamaBaseUrl}.
+                </span>
+              </div>
+            )}
+
+            <div className="settings-field">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={!!workspacePath && (settings.inlineCompletionWorkspaces || []).includes(workspacePath)}
+                  onChange={(e) => {
+                    const others = (settings.inlineCompletionWorkspaces || []).filter(p => p !== workspacePath);
+                    setSettings({
+                      ...settings,
+                      inlineCompletionWorkspaces: e.target.checked && workspacePath ? [...others, workspacePath] : others,
+                    });
+                  }}
+                  disabled={!settings.aiEnabled || !workspacePath}
+                />
+                Editor autocomplete in this workspace
+              </label>
+              <span className="settings-hint">
+                {workspacePath
+                  ? <>Ghost-text suggestions while you write Markdown in <code>{workspacePath.split(/[\\/]/).pop()}</code>. Press Tab to accept.</>
+                  : 'Open a workspace to turn autocomplete on for it.'}
+              </span>
+            </div>
+
+            <div className="settings-field">
+              <label>Autocomplete Model (Ollama)</label>
+              <input
+                type="text"
+                value={settings.inlineCompletionModel}
+                onChange={(e) => setSettings({ ...settings, inlineCompletionModel: e.target.value })}
+                placeholder={settings.aiProvider === 'ollama' ? settings.ollamaModel : 'e.g. qwen2.5:1.5b'}
+                disabled={!settings.aiEnabled}
+              />
+              <span className="settings-hint">
+                Suggestions are requested whenever you pause typing, so a small local model keeps them fast and free. Served from {settings.ollamaBaseUrl}. Leave empty to use {settings.aiProvider === 'ollama' ? 'the chat model' : 'the AI provider'}.
+              </span>
+            </div>
+
+            <div className="settings-field">
+              <label>Protected Paths</label>
+              <textarea
+                rows={4}
+                value={(settings.agentDeniedPaths ?? DEFAULT_DENIED_PATHS).join('\n')}
+                onChange={(e) => setSettings({ ...settings, agentDeniedPaths: e.target.value.split('\n') })}
+                placeholder={DEFAULT_DENIED_PATHS.join('\n')}
+                disabled={!settings.aiEnabled}
+              />
+              <span className="settings-hint">
+                One per line. The assistant's file tools can't read or change these (names match anywhere, <code>docs/private</code> matches from the workspace root, <code>*</code> is a wildcard). Files outside the workspace are always off-limits.
+              </span>
+            </div>
+
+            <div className="settings-field">
+              <label>Parallel Stakeholder Reviews</label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_SIMULATION_CONCURRENCY}
+                value={settings.simulatorConcurrency || DEFAULT_SETTINGS.simulatorConcurrency}
+                onChange={(e) => setSettings({
+                  ...settings,
+                  simulatorConcurrency: Math.min(Math.max(1, parseInt(e.target.value) || 1), MAX_SIMULATION_CONCURRENCY),
+                })}
+                disabled={!settings.aiEnabled}
+              />
+              <span className="settings-hint">
+                How many stakeholders the simulator reviews at the same time. Lower it if the provider rate-limits you or a local model slows down.
+              </span>
+            </div>
+
+            <div className="settings-field">
+              <label>Monthly Spending Limit (USD)</label>
+              <input
+                type="number"
+                min={0}
+                step={5}
+                value={settings.monthlySpendLimit || 0}
+                onChange={(e) => setSettings({ ...settings, monthlySpendLimit: Math.max(0, parseFloat(e.target.value) || 0) })}
+                disabled={!settings.aiEnabled}
+              />
+              <span className="settings-hint">
+                Soft limit - shows a warning in the chat and status bar once reached. 0 = no limit.
+              </span>
+            </div>
+
             <div className="settings-field">
               <label>
                 <input
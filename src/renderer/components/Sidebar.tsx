@@ -1,14 +1,21 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { useAppContext } from '../context/AppContext';
 import FileTree from './FileTree';
+import SearchPanel from './SearchPanel';
 import { FileItem, EditorFile } from '../../shared/types';
 import { isMediaFile } from './MediaViewer';
 import './Sidebar.css';
 
 const { ipcRenderer } = window.require('electron');
 
-const Sidebar: React.FC = () => {
-  const { workspacePath, fileTree, addOpenFile, refreshFileTree } = useAppContext();
+const path = window.require('path');
+
+interface SidebarProps {
+  view: 'explorer' | 'search';
+}
+
+const Sidebar: React.FC<SidebarProps> = ({ view }) => {
+  const { workspacePath, fileTree, addOpenFile, refreshFileTree, setRevealLocation } = useAppContext();
   const [isCreatingNew, setIsCreatingNew] = useState(false);
   const [newItemName, setNewItemName] = useState('');
   const [newItemType, setNewItemType] = useState<'file' | 'folder'>('file');
@@ -66,6 +73,23 @@ const Sidebar: React.FC = () => {
     }
   };
 
+  // Open a search result and move the cursor to the match
+  const handleOpenMatch = async (relativePath: string, line: number, column: number) => {
+    if (!workspacePath) return;
+    const fullPath = path.join(workspacePath, relativePath);
+    try {
+      const content = await ipcRenderer.invoke('fs:readFile', fullPath);
+      addOpenFile({
+        path: fullPath,
+        content: content,
+        language: fullPath.split('.').pop()?.toLowerCase() || 'txt'
+      });
+      setRevealLocation({ path: fullPath, line, column });
+    } catch (error) {
+      console.error('Error opening search result:', error);
+    }
+  };
+
   const handleCreateNew = async () => {
     if (!newItemName || !workspacePath) return;
 
@@ -90,8 +114,8 @@ const Sidebar: React.FC = () => {
   return (
     <div className="sidebar" ref={sidebarRef} style={{ width: `${width}px` }}>
       <div className="sidebar-header">
-        Explorer
-        {workspacePath && (
+        {view === 'search' ? 'Search' : 'Explorer'}
+        {workspacePath && view === 'explorer' && (
           <button
             className="new-item-btn"
             onClick={() => setIsCreatingNew(!isCreatingNew)}
@@ -102,7 +126,7 @@ const Sidebar: React.FC = () => {
         )}
       </div>
       
-      {isCreatingNew && (
+      {isCreatingNew && view === 'explorer' && (
         <div className="new-file-controls">
           <input
             type="text"
@@ -152,7 +176,9 @@ const Sidebar: React.FC = () => {
       )}
       
       <div className="sidebar-content">
-        {workspacePath ? (
+        {workspacePath && view === 'search' ? (
+          <SearchPanel workspacePath={workspacePath} onOpenMatch={handleOpenMatch} />
+        ) : workspacePath ? (
           <FileTree
             items={fileTree}
             onFileClick={handleFileClick}
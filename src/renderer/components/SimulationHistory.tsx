@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import './SimulationHistory.css';
+import {
+  SimulationRun,
+  SimulationRunDiff,
+  SimulationRunSummary,
+  diffSimulationRuns,
+  getRevisionNumbers,
+} from '../../shared/simulation-history';
+
+import deleteIcon from '../assets/icons/delete.svg';
+
+const { ipcRenderer } = window.require('electron');
+
+interface SimulationHistoryProps {
+  workspacePath: string;
+  documentPath: string;
+  prdContent: string;
+  onOpenRun: (run: SimulationRun) => void;
+  onBack: () => void;
+}
+
+interface Comparison {
+  before: SimulationRun;
+  after: SimulationRun;
+  diff: SimulationRunDiff;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = { top: 12, right: 16, bottom: 28, left: 32 };
+
+const formatDate = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+// Blockers and concerns per run, oldest on the left
+const ReadinessChart: React.FC<{ runs: SimulationRunSummary[]; revisions: Map<string, number> }> = ({ runs, revisions }) => {
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const maxValue = Math.max(1, ...runs.map(run => Math.max(run.summary.totalBlockers, run.summary.totalConcerns)));
+
+  const x = (index: number) => CHART_PADDING.left + (runs.length === 1 ? plotWidth / 2 : (index / (runs.length - 1)) * plotWidth);
+  const y = (value: number) => CHART_PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+  const series = [
+    { key: 'blockers', label: 'Blockers', color: '#f87171', value: (run: SimulationRunSummary) => run.summary.totalBlockers },
+    { key: 'concerns', label: 'Concerns', color: '#fbbf24', value: (run: SimulationRunSummary) => run.summary.totalConcerns },
+  ];
+
+  return (
+    <div className="simulation-chart">
+      <div className="simulation-chart-legend">
+        {series.map(s => (
+          <span key={s.key}><span className="simulation-chart-swatch" style={{ backgroundColor: s.color }} />{s.label}</span>
+        ))}
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} role="img" aria-label="Blockers and concerns per run">
+        {[0, maxValue].map(value => (
+          <g key={value}>
+            <line x1={CHART_PADDING.left} x2={CHART_WIDTH - CHART_PADDING.right} y1={y(value)} y2={y(value)} className="simulation-chart-grid" />
+            <text x={CHART_PADDING.left - 8} y={y(value) + 4} textAnchor="end" className="simulation-chart-label">{value}</text>
+          </g>
+        ))}
+        {series.map(s => (
+          <g key={s.key}>
+            <polyline
+              points={runs.map((run, i) => `${x(i)},${y(s.value(run))}`).join(' ')}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={2}
+            />
+            {runs.map((run, i) => (
+              <circle key={run.id} cx={x(i)} cy={y(s.value(run))} r={3.5} fill={s.color}>
+                <title>{`${s.label}: ${s.value(run)} (rev ${revisions.get(run.contentHash)}, ${formatDate(run.createdAt)})`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+        {runs.map((run, i) => (
+          <text key={run.id} x={x(i)} y={CHART_HEIGHT - 8} textAnchor="middle" className="simulation-chart-label">
+            R{revisions.get(run.contentHash)}
+          </text>
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+const SimulationHistory: React.FC<SimulationHistoryProps> = ({ workspacePath, documentPath, prdContent, onOpenRun, onBack }) => {
+  const [runs, setRuns] = useState<SimulationRunSummary[]>([]);
+  const [currentHash, setCurrentHash] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+
+  useEffect(() => {
+    const loadRuns = async () => {
+      setLoading(true);
+      try {
+        const result = await ipcRenderer.invoke('simulationHistory:list', workspacePath, documentPath, prdContent);
+        if (result.success) {
+          setRuns(result.runs);
+          setCurrentHash(result.currentHash);
+        } else {
+          setError(result.error || 'Could not load the history');
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRuns();
+  }, [workspacePath, documentPath]);
+
+  const loadRun = async (id: string): Promise<SimulationRun | null> => {
+    const result = await ipcRenderer.invoke('simulationHistory:load', workspacePath, documentPath, id);
+    if (!result.success) {
+      setError(result.error || 'Could not load the run');
+      return null;
+    }
+    return result.run;
+  };
+
+  const handleOpen = async (id: string) => {
+    const run = await loadRun(id);
+    if (run) onOpenRun(run);
+  };
+
+  const handleDelete = async (run: SimulationRunSummary) => {
+    if (!confirm(`Delete the run from ${new Date(run.createdAt).toLocaleString()}?`)) return;
+
+    const result = await ipcRenderer.invoke('simulationHistory:delete', workspacePath, documentPath, run.id);
+    if (result.success) {
+      setRuns(prev => prev.filter(r => r.id !== run.id));
+      setSelected(prev => prev.filter(id => id !== run.id));
+      if (comparison && (comparison.before.id === run.id || comparison.after.id === run.id)) {
+        setComparison(null);
+      }
+    }
+  };
+
+  // Keep the two most recently ticked runs
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-2));
+  };
+
+  const compareSelected = async () => {
+    const loaded = await Promise.all(selected.map(loadRun));
+    if (loaded.some(run => !run)) return;
+    const [before, after] = (loaded as SimulationRun[]).sort((a, b) => a.createdAt - b.createdAt);
+    setComparison({ before, after, diff: diffSimulationRuns(before, after) });
+  };
+
+  const revisions = getRevisionNumbers(runs);
+  const chronological = [...runs].reverse();
+  const fileName = documentPath.split(/[\\/]/).pop();
+
+  const describeRun = (run: SimulationRun) => `Rev ${revisions.get(run.contentHash)} · ${formatDate(run.createdAt)}`;
+
+  return (
+    <div className="simulation-history">
+      <div className="simulation-history-header">
+        <button className="simulation-history-back" onClick={onBack}>← Back</button>
+        <h3>History of {fileName}</h3>
+      </div>
+
+      {error && <div className="simulator-error">{error}</div>}
+
+      {loading ? (
+        <div className="simulation-history-empty">Loading...</div>
+      ) : runs.length === 0 ? (
+        <div className="simulation-history-empty">No saved runs for this document yet. Runs are saved when they finish.</div>
+      ) : (
+        <>
+          <ReadinessChart runs={chronological} revisions={revisions} />
+
+          <div className="simulation-history-toolbar">
+            <span>Select two runs to see which blockers were resolved or introduced.</span>
+            <button onClick={compareSelected} disabled={selected.length !== 2}>Compare</button>
+          </div>
+
+          {comparison && (
+            <div className="simulation-diff">
+              <div className="simulation-diff-title">
+                {describeRun(comparison.before)} → {describeRun(comparison.after)}
+                <button className="simulation-diff-close" onClick={() => setComparison(null)} title="Close">×</button>
+              </div>
+
+              {[
+                { key: 'resolved', title: '✅ Resolved', items: comparison.diff.resolved },
+                { key: 'introduced', title: '🚨 Introduced', items: comparison.diff.introduced },
+                { key: 'remaining', title: '⏳ Still Open', items: comparison.diff.remaining.map(pair => pair.after) },
+              ].map(section => (
+                <div key={section.key} className={`simulation-diff-section ${section.key}`}>
+                  <h4>{section.title} ({section.items.length})</h4>
+                  {section.items.length > 0 && (
+                    <ul>
+                      {section.items.map((item, i) => (
+                        <li key={i}>
+                          <span className="simulation-diff-who">{item.emoji} {item.stakeholderName}:</span> {item.text}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+
+              {comparison.diff.notCompared.length > 0 && (
+                <p className="simulation-diff-note">
+                  Not compared (not reviewed in both runs): {comparison.diff.notCompared.join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="simulation-history-list">
+            {runs.map(run => (
+              <div key={run.id} className={`simulation-history-item ${selected.includes(run.id) ? 'selected' : ''}`}>
+                <input type="checkbox" checked={selected.includes(run.id)} onChange={() => toggleSelected(run.id)} />
+                <div className="simulation-history-info" onClick={() => handleOpen(run.id)} title="Open this run">
+                  <span className="simulation-history-title">
+                    <span className="simulation-history-rev">Rev {revisions.get(run.contentHash)}</span>
+                    {run.contentHash === currentHash && <span className="simulation-history-current">current</span>}
+                    {formatDate(run.createdAt)} · {run.mode === 'meeting' ? 'Review meeting' : 'Individual reviews'}
+                    {run.cancelled && ' (cancelled)'}
+                  </span>
+                  <span className="simulation-history-meta" title={run.stakeholderNames.join(', ')}>
+                    {run.stakeholderNames.length} {run.stakeholderNames.length === 1 ? 'stakeholder' : 'stakeholders'}
+                    {' · '}{run.summary.totalBlockers} blockers · {run.summary.totalConcerns} concerns
+                  </span>
+                </div>
+                {run.decision && (
+                  <span className={`simulation-history-decision ${run.decision}`}>{run.decision === 'go' ? 'Go' : 'No-Go'}</span>
+                )}
+                <span className={`simulation-history-risk ${run.summary.riskLevel}`}>{run.summary.riskLevel} risk</span>
+                <button className="simulation-history-delete" onClick={() => handleDelete(run)} title="Delete">
+                  <img src={deleteIcon} alt="Delete" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SimulationHistory;
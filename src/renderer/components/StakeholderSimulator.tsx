@@ -1,79 +1,177 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import './StakeholderSimulator.css';
 import { Stakeholder } from '../../shared/types';
+import {
+  FeedbackItem,
+  StakeholderFeedback,
+  SimulationResult,
+  SimulationProgress,
+  getFeedbackAnnotations,
+  summarizeFeedback,
+} from '../../shared/stakeholder-simulator';
+import {
+  DEFAULT_MEETING_ROUNDS,
+  MAX_MEETING_ROUNDS,
+  MeetingResult,
+  MeetingTurn,
+  ReplyStance,
+  getFinalVerdicts,
+} from '../../shared/review-meeting';
+import { findDocumentAnchor } from '../../shared/text-edits';
+import { SimulationRun } from '../../shared/simulation-history';
+import SimulationHistory from './SimulationHistory';
 import simulateIcon from '../assets/icons/simulate.svg';
 
 const { ipcRenderer } = window.require('electron');
 
-interface StakeholderFeedback {
-  stakeholderId: string;
-  stakeholderName: string;
-  stakeholderRole: string;
-  emoji: string;
-  blockers: string[];
-  concerns: string[];
-  questions: string[];
-  suggestions: string[];
-  verdict: 'approve' | 'concerns' | 'block';
-}
-
-interface SimulationResult {
-  feedback: StakeholderFeedback[];
-  summary: {
-    totalBlockers: number;
-    totalConcerns: number;
-    readyForReview: boolean;
-    riskLevel: 'low' | 'medium' | 'high';
-  };
-}
+const STANCE_LABELS: Record<ReplyStance, string> = { agree: 'agrees', disagree: 'disagrees', add: 'adds' };
 
 interface StakeholderSimulatorProps {
   isOpen: boolean;
   onClose: () => void;
   prdContent: string;
+  documentPath?: string; // File the PRD content comes from
+  workspacePath?: string | null; // Runs are saved in the workspace when one is open
   stakeholders: Stakeholder[];
+  concurrency?: number; // Reviews run at the same time
+  onFeedbackChange?: (path: string, feedback: StakeholderFeedback[]) => void;
+  onJumpToFeedback?: (path: string, item: FeedbackItem) => void;
+  showInEditor?: boolean; // Whether feedback is annotated in the editor
+  onShowInEditorChange?: (show: boolean) => void;
 }
 
 const StakeholderSimulator: React.FC<StakeholderSimulatorProps> = ({
   isOpen,
   onClose,
   prdContent,
-  stakeholders
+  documentPath,
+  workspacePath,
+  stakeholders,
+  concurrency,
+  onFeedbackChange,
+  onJumpToFeedback,
+  showInEditor,
+  onShowInEditorChange
 }) => {
   const [selectedStakeholders, setSelectedStakeholders] = useState<string[]>([]);
   const [isRunning, setIsRunning] = useState(false);
-  const [progress, setProgress] = useState<{ current: number; total: number; stakeholder: string } | null>(null);
-  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [progress, setProgress] = useState<SimulationProgress | null>(null);
+  const [liveFeedback, setLiveFeedback] = useState<StakeholderFeedback[]>([]);
+  const [result, setResult] = useState<SimulationResult | MeetingResult | null>(null);
+  const [mode, setMode] = useState<'reviews' | 'meeting'>('reviews');
+  const [meetingRounds, setMeetingRounds] = useState(DEFAULT_MEETING_ROUNDS);
+  const [liveTurns, setLiveTurns] = useState<MeetingTurn[]>([]);
+  const [wasCancelled, setWasCancelled] = useState(false);
   const [error, setError] = useState<string | null>(null);
-
-  // Reset state when opened
+  const runIdRef = useRef<string | null>(null);
+  // File the current results are for
+  const reviewedPathRef = useRef<string | null>(null);
+  // Run IDs of single-stakeholder retries, by stakeholder
+  const retryRunsRef = useRef(new Map<string, string>());
+  const [retrying, setRetrying] = useState<string[]>([]);
+  const [view, setView] = useState<'simulator' | 'history'>('simulator');
+  // Saved run the current results belong to, so a retried review updates it
+  const savedRunRef = useRef<Pick<SimulationRun, 'id' | 'stakeholders' | 'cancelled'> | null>(null);
+  // Results opened from the history were reviewed against an older version of the document
+  const [pastRunAt, setPastRunAt] = useState<number | null>(null);
+  const resultRef = useRef(result);
+  resultRef.current = result;
+
+  // Reset state when opened, keeping the results if they are for the same document
+  // (e.g. after jumping to a feedback item and coming back)
   useEffect(() => {
     if (isOpen) {
       setSelectedStakeholders(stakeholders.map(s => s.id));
-      setResult(null);
       setError(null);
       setProgress(null);
+      setView('simulator');
+      if (documentPath !== reviewedPathRef.current) {
+        setResult(null);
+        setLiveFeedback([]);
+        setLiveTurns([]);
+        savedRunRef.current = null;
+        setPastRunAt(null);
+      }
     }
   }, [isOpen, stakeholders]);
 
-  // Listen for progress updates
+  // Share the feedback so the editor can annotate the reviewed document
+  useEffect(() => {
+    if (reviewedPathRef.current) {
+      onFeedbackChange?.(reviewedPathRef.current, result ? result.feedback : liveFeedback);
+    }
+  }, [result, liveFeedback]);
+
+  // Listen for progress and for each review as soon as it is done
   useEffect(() => {
-    const handleProgress = (_: any, data: any) => {
-      setProgress(data);
+    const handleProgress = (_: any, data: SimulationProgress) => {
+      if (data.runId === runIdRef.current) {
+        setProgress(data);
+      }
+    };
+
+    const handleFeedback = (_: any, data: { runId: string; feedback: StakeholderFeedback }) => {
+      if (data.runId === runIdRef.current) {
+        setLiveFeedback(prev => [...prev, data.feedback]);
+      }
+    };
+
+    const handleTurn = (_: any, data: { runId: string; turn: MeetingTurn }) => {
+      if (data.runId === runIdRef.current) {
+        setLiveTurns(prev => [...prev, data.turn]);
+      }
     };
 
     ipcRenderer.on('simulator:progress', handleProgress);
+    ipcRenderer.on('simulator:feedback', handleFeedback);
+    ipcRenderer.on('simulator:turn', handleTurn);
     return () => {
       ipcRenderer.removeListener('simulator:progress', handleProgress);
+      ipcRenderer.removeListener('simulator:feedback', handleFeedback);
+      ipcRenderer.removeListener('simulator:turn', handleTurn);
     };
   }, []);
 
+  // Closing the simulator stops a review that is still running
+  useEffect(() => {
+    if (!isOpen && runIdRef.current) {
+      ipcRenderer.invoke('simulator:cancel', runIdRef.current);
+      runIdRef.current = null;
+      setIsRunning(false);
+      setIsCancelling(false);
+    }
+    if (!isOpen && retryRunsRef.current.size > 0) {
+      retryRunsRef.current.forEach(runId => ipcRenderer.invoke('simulator:cancel', runId));
+      retryRunsRef.current.clear();
+      setRetrying([]);
+    }
+  }, [isOpen]);
+
   const toggleStakeholder = (id: string) => {
     setSelectedStakeholders(prev =>
       prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]
     );
   };
 
+  // Keep the run in the document's history; a failed save only costs the history entry
+  const saveRun = async (
+    documentFile: string,
+    content: string,
+    run: Pick<SimulationRun, 'id' | 'stakeholders' | 'cancelled'>,
+    runResult: SimulationResult | MeetingResult
+  ) => {
+    if (!workspacePath) return;
+    try {
+      const response = await ipcRenderer.invoke('simulationHistory:save', workspacePath, documentFile, content, { ...run, result: runResult });
+      if (!response.success) {
+        console.error('[SIMULATOR] Failed to save run:', response.error);
+      }
+    } catch (err: any) {
+      console.error('[SIMULATOR] Failed to save run:', err.message);
+    }
+  };
+
   const runSimulation = async () => {
     if (selectedStakeholders.length === 0) {
       setError('Please select at least one stakeholder');
@@ -85,28 +183,119 @@ const StakeholderSimulator: React.FC<StakeholderSimulatorProps> = ({
       return;
     }
 
+    if (mode === 'meeting' && selectedStakeholders.length < 2) {
+      setError('A review meeting needs at least two stakeholders');
+      return;
+    }
+
+    const runId = Date.now().toString();
+    const selectedList = stakeholders.filter(s => selectedStakeholders.includes(s.id));
+    runIdRef.current = runId;
+    reviewedPathRef.current = documentPath || null;
     setIsRunning(true);
     setError(null);
     setResult(null);
+    setWasCancelled(false);
+    setPastRunAt(null);
+    savedRunRef.current = null;
+    setLiveFeedback([]);
+    setLiveTurns([]);
+    setProgress({ runId, completed: 0, total: selectedList.length, reviewing: [] });
 
     try {
-      const selectedList = stakeholders.filter(s => selectedStakeholders.includes(s.id));
-      const response = await ipcRenderer.invoke(
-        'simulator:run',
-        prdContent,
-        selectedList
-      );
+      const response = mode === 'meeting'
+        ? await ipcRenderer.invoke('simulator:meeting', runId, prdContent, selectedList, meetingRounds, concurrency)
+        : await ipcRenderer.invoke('simulator:run', runId, prdContent, selectedList, concurrency);
+      // Closed while running
+      if (runIdRef.current !== runId) return;
 
       if (response.success) {
-        setResult(response.result);
+        // Cancelled before any review came back: back to the reviewer selection
+        if (!response.cancelled || response.result.feedback.length > 0) {
+          setResult(response.result);
+          setWasCancelled(response.cancelled);
+          if (documentPath) {
+            savedRunRef.current = { id: runId, stakeholders: selectedList, cancelled: response.cancelled };
+            saveRun(documentPath, prdContent, savedRunRef.current, response.result);
+          }
+        }
       } else {
         setError(response.error || 'Simulation failed');
       }
     } catch (err: any) {
       setError(err.message || 'Unknown error');
     } finally {
-      setIsRunning(false);
-      setProgress(null);
+      if (runIdRef.current === runId) {
+        runIdRef.current = null;
+        setIsRunning(false);
+        setIsCancelling(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  // Review one stakeholder again after a failed review and swap the new review into the results
+  const retryReview = async (stakeholderId: string) => {
+    const stakeholder = stakeholders.find(s => s.id === stakeholderId);
+    if (!stakeholder || retryRunsRef.current.has(stakeholderId)) return;
+
+    const runId = `${Date.now()}-${stakeholderId}`;
+    retryRunsRef.current.set(stakeholderId, runId);
+    setRetrying(prev => [...prev, stakeholderId]);
+
+    try {
+      const response = await ipcRenderer.invoke('simulator:run', runId, prdContent, [stakeholder], 1);
+      // Closed or results cleared while retrying
+      if (retryRunsRef.current.get(stakeholderId) !== runId) return;
+
+      const review: StakeholderFeedback | undefined = response.success ? response.result.feedback[0] : undefined;
+      const current = resultRef.current;
+      if (review && current) {
+        const feedback = current.feedback.map(fb => fb.stakeholderId === stakeholderId ? review : fb);
+        const updated = { ...current, feedback, summary: summarizeFeedback(feedback) };
+        setResult(updated);
+        if (savedRunRef.current && reviewedPathRef.current) {
+          saveRun(reviewedPathRef.current, prdContent, savedRunRef.current, updated);
+        }
+      } else if (!response.success) {
+        setError(response.error || 'Retry failed');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Unknown error');
+    } finally {
+      if (retryRunsRef.current.get(stakeholderId) === runId) {
+        retryRunsRef.current.delete(stakeholderId);
+        setRetrying(prev => prev.filter(id => id !== stakeholderId));
+      }
+    }
+  };
+
+  const clearResults = () => {
+    retryRunsRef.current.forEach(runId => ipcRenderer.invoke('simulator:cancel', runId));
+    retryRunsRef.current.clear();
+    setRetrying([]);
+    setResult(null);
+    setLiveFeedback([]);
+    setLiveTurns([]);
+    savedRunRef.current = null;
+    setPastRunAt(null);
+  };
+
+  const openSavedRun = (run: SimulationRun) => {
+    clearResults();
+    reviewedPathRef.current = documentPath || null;
+    savedRunRef.current = { id: run.id, stakeholders: run.stakeholders, cancelled: run.cancelled };
+    setResult(run.result);
+    setWasCancelled(run.cancelled);
+    setPastRunAt(run.createdAt);
+    setError(null);
+    setView('simulator');
+  };
+
+  const cancelSimulation = () => {
+    if (runIdRef.current) {
+      setIsCancelling(true);
+      ipcRenderer.invoke('simulator:cancel', runIdRef.current);
     }
   };
 
@@ -134,15 +323,249 @@ const StakeholderSimulator: React.FC<StakeholderSimulatorProps> = ({
     }
   };
 
+  // A review that never arrived, kept apart from real feedback so it can't be mistaken for a concern
+  const renderFailedCard = (fb: StakeholderFeedback) => {
+    // A meeting has moved on without this review, so a new one wouldn't fit the transcript;
+    // a saved run was reviewed against a document that may since have changed
+    const canRetry = !!result && !('turns' in result) && !pastRunAt && stakeholders.some(s => s.id === fb.stakeholderId);
+    const isRetrying = retrying.includes(fb.stakeholderId);
+
+    return (
+      <div key={fb.stakeholderId} className="feedback-card review-failed">
+        <div className="feedback-header">
+          <span className="feedback-name">
+            {fb.emoji} {fb.stakeholderName}
+          </span>
+          <span className="feedback-role">{fb.stakeholderRole}</span>
+          <span className="verdict-badge failed">
+            {fb.error!.kind === 'parse' ? '❗ Unreadable Review' : '❗ Review Failed'}
+          </span>
+        </div>
+
+        <p className="review-failed-message">
+          {fb.error!.kind === 'parse'
+            ? 'The response did not match the review format, even after asking the model to correct it.'
+            : 'The review request failed.'}
+        </p>
+        <pre className="review-failed-detail">{fb.error!.message}</pre>
+
+        {fb.error!.rawResponse && (
+          <details className="review-failed-raw">
+            <summary>Show raw response</summary>
+            <pre>{fb.error!.rawResponse}</pre>
+          </details>
+        )}
+
+        {canRetry && (
+          <button className="review-retry-btn" onClick={() => retryReview(fb.stakeholderId)} disabled={isRetrying}>
+            {isRetrying ? 'Retrying...' : '↻ Retry Review'}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  // Items that cite a heading or passage still in the open document jump there when clicked
+  const canJump = !!onJumpToFeedback && !!documentPath && documentPath === reviewedPathRef.current;
+
+  const renderItem = (item: FeedbackItem, index: number) => {
+    const reference = item.section || (item.quote && `“${item.quote}”`);
+    const anchor = canJump && reference ? findDocumentAnchor(prdContent, item) : null;
+
+    return (
+      <li
+        key={index}
+        className={anchor ? 'feedback-item anchored' : 'feedback-item'}
+        onClick={anchor ? () => onJumpToFeedback!(documentPath!, item) : undefined}
+        title={anchor ? 'Show in document' : reference ? 'Not found in the current document' : undefined}
+      >
+        {item.text}
+        {reference && <span className="feedback-item-reference">§ {reference}</span>}
+      </li>
+    );
+  };
+
+  const renderFeedbackCard = (fb: StakeholderFeedback) => fb.error ? renderFailedCard(fb) : (
+    <div key={fb.stakeholderId} className={`feedback-card verdict-${fb.verdict}`}>
+      <div className="feedback-header">
+        <span className="feedback-name">
+          {fb.emoji} {fb.stakeholderName}
+        </span>
+        <span className="feedback-role">{fb.stakeholderRole}</span>
+        {getVerdictBadge(fb.verdict)}
+      </div>
+
+      {fb.blockers.length > 0 && (
+        <div className="feedback-section blockers">
+          <h4>🚨 Blockers</h4>
+          <ul>
+            {fb.blockers.map(renderItem)}
+          </ul>
+        </div>
+      )}
+
+      {fb.concerns.length > 0 && (
+        <div className="feedback-section concerns">
+          <h4>⚠️ Concerns</h4>
+          <ul>
+            {fb.concerns.map(renderItem)}
+          </ul>
+        </div>
+      )}
+
+      {fb.questions.length > 0 && (
+        <div className="feedback-section questions">
+          <h4>❓ Questions</h4>
+          <ul>
+            {fb.questions.map(renderItem)}
+          </ul>
+        </div>
+      )}
+
+      {fb.suggestions.length > 0 && (
+        <div className="feedback-section suggestions">
+          <h4>💡 Suggestions</h4>
+          <ul>
+            {fb.suggestions.map(renderItem)}
+          </ul>
+        </div>
+      )}
+
+      {fb.blockers.length === 0 && fb.concerns.length === 0 && 
+       fb.questions.length === 0 && fb.suggestions.length === 0 && (
+        <p className="feedback-empty">No issues raised ✨</p>
+      )}
+    </div>
+  );
+
+  // Meeting transcript: each opening review starts a thread, with the replies addressed to it below
+  const renderTranscript = (feedback: StakeholderFeedback[], turns: MeetingTurn[]) => {
+    const replies = turns.flatMap(turn => turn.replies.map((reply, i) => ({ turn, reply, key: `${turn.round}-${turn.stakeholderId}-${i}` })));
+    const unthreaded = replies.filter(({ reply }) => !reply.toId || !feedback.some(fb => fb.stakeholderId === reply.toId));
+    const finalVerdicts = getFinalVerdicts(feedback, turns);
+
+    const renderReplies = (items: typeof replies) => items.length > 0 && (
+      <div className="meeting-replies">
+        {items.map(({ turn, reply, key }) => (
+          <div key={key} className={`meeting-reply stance-${reply.stance}`}>
+            <div className="meeting-reply-header">
+              <span className="meeting-reply-author">{turn.emoji} {turn.stakeholderName}</span>
+              <span className="meeting-reply-stance">{STANCE_LABELS[reply.stance]}{reply.toId ? '' : ` (to ${reply.toName})`}</span>
+              <span className="meeting-reply-round">Round {turn.round}</span>
+            </div>
+            <p>{reply.message}</p>
+          </div>
+        ))}
+      </div>
+    );
+
+    return (
+      <div className="meeting-transcript">
+        {feedback.map(fb => (
+          <div key={fb.stakeholderId} className="meeting-thread">
+            {renderFeedbackCard(fb)}
+            {renderReplies(replies.filter(({ reply }) => reply.toId === fb.stakeholderId))}
+          </div>
+        ))}
+
+        {unthreaded.length > 0 && (
+          <div className="meeting-thread">
+            <h4 className="meeting-thread-title">💬 General Discussion</h4>
+            {renderReplies(unthreaded)}
+          </div>
+        )}
+
+        {turns.length > 0 && (
+          <div className="meeting-verdicts">
+            <h4>Where Everyone Landed</h4>
+            {feedback.filter(fb => finalVerdicts.has(fb.stakeholderId)).map(fb => {
+              const verdict = finalVerdicts.get(fb.stakeholderId)!;
+              return (
+                <div key={fb.stakeholderId} className="meeting-verdict-row">
+                  <span>{fb.emoji} {fb.stakeholderName}</span>
+                  {verdict !== fb.verdict && <span className="meeting-verdict-change">changed from {fb.verdict}</span>}
+                  {getVerdictBadge(verdict)}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderOutcome = (meeting: MeetingResult) => {
+    if (!meeting.outcome) {
+      return meeting.outcomeError ? <div className="simulator-error">{meeting.outcomeError}</div> : null;
+    }
+    const { decision, rationale, agreedActions, disagreements } = meeting.outcome;
+
+    return (
+      <div className={`meeting-outcome ${decision}`}>
+        <div className="meeting-decision">{decision === 'go' ? '✅ Go' : '🛑 No-Go'}</div>
+        <p className="meeting-rationale">{rationale}</p>
+
+        {agreedActions.length > 0 && (
+          <div className="meeting-outcome-section">
+            <h4>Agreed Actions</h4>
+            <ul>
+              {agreedActions.map((item, i) => (
+                <li key={i}>
+                  {item.action}
+                  {item.owner && <span className="meeting-action-owner"> — {item.owner}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {disagreements.length > 0 && (
+          <div className="meeting-outcome-section">
+            <h4>Open Disagreements</h4>
+            {disagreements.map((item, i) => (
+              <div key={i} className="meeting-disagreement">
+                <strong>{item.topic}</strong>
+                <ul>
+                  {item.positions.map((position, j) => (
+                    <li key={j}><span className="meeting-position-name">{position.stakeholder}:</span> {position.position}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="simulator-overlay" onClick={onClose}>
       <div className="simulator-panel" onClick={e => e.stopPropagation()}>
         <div className="simulator-header">
           <h2><img src={simulateIcon} alt="" className="simulator-title-icon" /> Stakeholder Simulator</h2>
-          <button className="simulator-close" onClick={onClose}>×</button>
+          <div className="simulator-header-actions">
+            {workspacePath && documentPath && !isRunning && view === 'simulator' && (
+              <button className="simulator-history-btn" onClick={() => setView('history')} title="Past runs of this document">
+                🕘 History
+              </button>
+            )}
+            <button className="simulator-close" onClick={onClose}>×</button>
+          </div>
         </div>
 
         <div className="simulator-content">
+          {view === 'history' && workspacePath && documentPath && (
+            <SimulationHistory
+              workspacePath={workspacePath}
+              documentPath={documentPath}
+              prdContent={prdContent}
+              onOpenRun={openSavedRun}
+              onBack={() => setView('simulator')}
+            />
+          )}
+
+          {view === 'simulator' && (
+          <>
           {/* Setup Phase */}
           {!result && !isRunning && (
             <>
@@ -175,14 +598,42 @@ const StakeholderSimulator: React.FC<StakeholderSimulatorProps> = ({
                     ))}
                   </div>
 
+                  <h3>Mode</h3>
+                  <div className="simulator-modes">
+                    <label className={`simulator-mode ${mode === 'reviews' ? 'active' : ''}`}>
+                      <input type="radio" checked={mode === 'reviews'} onChange={() => setMode('reviews')} />
+                      <span>
+                        <strong>Individual Reviews</strong>
+                        <span className="simulator-mode-hint">Each stakeholder reviews the PRD on their own</span>
+                      </span>
+                    </label>
+                    <label className={`simulator-mode ${mode === 'meeting' ? 'active' : ''}`}>
+                      <input type="radio" checked={mode === 'meeting'} onChange={() => setMode('meeting')} />
+                      <span>
+                        <strong>Review Meeting</strong>
+                        <span className="simulator-mode-hint">Stakeholders respond to each other, then a moderator sums up</span>
+                      </span>
+                    </label>
+                  </div>
+                  {mode === 'meeting' && (
+                    <label className="simulator-rounds">
+                      Discussion rounds
+                      <select value={meetingRounds} onChange={e => setMeetingRounds(Number(e.target.value))}>
+                        {Array.from({ length: MAX_MEETING_ROUNDS }, (_, i) => i + 1).map(n => (
+                          <option key={n} value={n}>{n}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+
                   {error && <div className="simulator-error">{error}</div>}
 
                   <button
                     className="simulator-run-btn"
                     onClick={runSimulation}
-                    disabled={selectedStakeholders.length === 0}
+                    disabled={selectedStakeholders.length < (mode === 'meeting' ? 2 : 1)}
                   >
-                    🚀 Run Simulation
+                    {mode === 'meeting' ? '🗣️ Run Review Meeting' : '🚀 Run Simulation'}
                   </button>
                 </>
               )}
@@ -191,27 +642,63 @@ const StakeholderSimulator: React.FC<StakeholderSimulatorProps> = ({
 
           {/* Running Phase */}
           {isRunning && progress && (
-            <div className="simulator-running">
-              <div className="simulator-spinner" />
-              <p className="simulator-progress-text">
-                Reviewing as <strong>{progress.stakeholder}</strong>...
-              </p>
-              <p className="simulator-progress-count">
-                {progress.current} of {progress.total} stakeholders
-              </p>
-              <div className="simulator-progress-bar">
-                <div
-                  className="simulator-progress-fill"
-                  style={{ width: `${(progress.current / progress.total) * 100}%` }}
-                />
+            <>
+              <div className="simulator-running">
+                <div className="simulator-spinner" />
+                {progress.stage && <p className="simulator-progress-stage">{progress.stage}</p>}
+                <p className="simulator-progress-text">
+                  {isCancelling
+                    ? 'Cancelling...'
+                    : progress.reviewing.length > 0
+                      ? <>Reviewing as <strong>{progress.reviewing.join(', ')}</strong>...</>
+                      : 'Starting reviews...'}
+                </p>
+                <p className="simulator-progress-count">
+                  {progress.completed} of {progress.total} {progress.stage ? 'steps' : 'stakeholders'} done
+                </p>
+                <div className="simulator-progress-bar">
+                  <div
+                    className="simulator-progress-fill"
+                    style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+                  />
+                </div>
+                <button className="simulator-cancel-btn" onClick={cancelSimulation} disabled={isCancelling}>
+                  Cancel
+                </button>
               </div>
-            </div>
+
+              {liveFeedback.length > 0 && (mode === 'meeting'
+                ? renderTranscript(liveFeedback, liveTurns)
+                : (
+                  <div className="feedback-list">
+                    {liveFeedback.map(renderFeedbackCard)}
+                  </div>
+                )
+              )}
+            </>
           )}
 
           {/* Results Phase */}
           {result && (
             <div className="simulator-results">
+              {pastRunAt && savedRunRef.current && (
+                <div className="simulator-past-run-note">
+                  Saved run from {new Date(pastRunAt).toLocaleString()}
+                  {' '}- reviewed by {savedRunRef.current.stakeholders.map(s => s.name).join(', ')}.
+                </div>
+              )}
+              {wasCancelled && (
+                <div className="simulator-cancelled-note">
+                  Cancelled - {result.feedback.length} of {savedRunRef.current?.stakeholders.length ?? selectedStakeholders.length} stakeholders reviewed.
+                </div>
+              )}
+              {'turns' in result && renderOutcome(result)}
               {getRiskBadge(result.summary.riskLevel)}
+              {result.summary.failedReviews > 0 && (
+                <div className="simulator-failed-note">
+                  {result.summary.failedReviews} of {result.feedback.length} reviews failed and are not counted in the risk level.
+                </div>
+              )}
 
               <div className="results-summary">
                 <div className="summary-stat">
@@ -226,68 +713,43 @@ const StakeholderSimulator: React.FC<StakeholderSimulatorProps> = ({
                   <span className="stat-value">{result.feedback.filter(f => f.verdict === 'approve').length}</span>
                   <span className="stat-label">Approvals</span>
                 </div>
-              </div>
-
-              <div className="feedback-list">
-                {result.feedback.map(fb => (
-                  <div key={fb.stakeholderId} className={`feedback-card verdict-${fb.verdict}`}>
-                    <div className="feedback-header">
-                      <span className="feedback-name">
-                        {fb.emoji} {fb.stakeholderName}
-                      </span>
-                      <span className="feedback-role">{fb.stakeholderRole}</span>
-                      {getVerdictBadge(fb.verdict)}
-                    </div>
-
-                    {fb.blockers.length > 0 && (
-                      <div className="feedback-section blockers">
-                        <h4>🚨 Blockers</h4>
-                        <ul>
-                          {fb.blockers.map((item, i) => <li key={i}>{item}</li>)}
-                        </ul>
-                      </div>
-                    )}
-
-                    {fb.concerns.length > 0 && (
-                      <div className="feedback-section concerns">
-                        <h4>⚠️ Concerns</h4>
-                        <ul>
-                          {fb.concerns.map((item, i) => <li key={i}>{item}</li>)}
-                        </ul>
-                      </div>
-                    )}
-
-                    {fb.questions.length > 0 && (
-                      <div className="feedback-section questions">
-                        <h4>❓ Questions</h4>
-                        <ul>
-                          {fb.questions.map((item, i) => <li key={i}>{item}</li>)}
-                        </ul>
-                      </div>
-                    )}
-
-                    {fb.suggestions.length > 0 && (
-                      <div className="feedback-section suggestions">
-                        <h4>💡 Suggestions</h4>
-                        <ul>
-                          {fb.suggestions.map((item, i) => <li key={i}>{item}</li>)}
-                        </ul>
-                      </div>
-                    )}
-
-                    {fb.blockers.length === 0 && fb.concerns.length === 0 && 
-                     fb.questions.length === 0 && fb.suggestions.length === 0 && (
-                      <p className="feedback-empty">No issues raised ✨</p>
-                    )}
+                {result.summary.failedReviews > 0 && (
+                  <div className="summary-stat failed">
+                    <span className="stat-value">{result.summary.failedReviews}</span>
+                    <span className="stat-label">Failed</span>
                   </div>
-                ))}
+                )}
               </div>
 
-              <button className="simulator-run-again-btn" onClick={() => setResult(null)}>
+              {onShowInEditorChange && canJump && (
+                <label className="simulator-annotate-toggle">
+                  <input
+                    type="checkbox"
+                    checked={!!showInEditor}
+                    onChange={e => onShowInEditorChange(e.target.checked)}
+                  />
+                  Show feedback in the editor ({getFeedbackAnnotations(prdContent, result.feedback).length} anchored items)
+                </label>
+              )}
+
+              {'turns' in result ? (
+                <>
+                  <h3 className="meeting-transcript-title">Transcript</h3>
+                  {renderTranscript(result.feedback, result.turns)}
+                </>
+              ) : (
+                <div className="feedback-list">
+                  {result.feedback.map(renderFeedbackCard)}
+                </div>
+              )}
+
+              <button className="simulator-run-again-btn" onClick={clearResults}>
                 ← Run Again
               </button>
             </div>
           )}
+          </>
+          )}
         </div>
       </div>
     </div>
@@ -1,9 +1,27 @@
 import React from 'react';
 import { useAppContext } from '../context/AppContext';
+import { MonthlyUsage } from '../../shared/types';
+import { formatTokenCount, formatCost } from '../utils/helpers';
 
-const StatusBar: React.FC = () => {
+interface StatusBarProps {
+  mcpStatus?: 'connected' | 'disconnected' | 'error' | 'loading';
+  mcpCounts?: { total: number; connected: number };
+  monthlyUsage?: MonthlyUsage | null;
+  spendLimit?: number;
+}
+
+const StatusBar: React.FC<StatusBarProps> = ({ mcpStatus, mcpCounts, monthlyUsage, spendLimit = 0 }) => {
   const { currentFile, workspacePath, openFiles } = useAppContext();
 
+  const getMcpStatusIcon = () => {
+    switch (mcpStatus) {
+      case 'connected': return '●';
+      case 'error': return '✕';
+      case 'loading': return '◌';
+      default: return '○';
+    }
+  };
+
   const getFileLanguage = () => {
     if (!currentFile) return 'No file open';
     const ext = currentFile.path.split('.').pop()?.toLowerCase();
@@ -54,8 +72,21 @@ const StatusBar: React.FC = () => {
         {openFiles.length > 0 && (
           <span>{openFiles.length} file{openFiles.length !== 1 ? 's' : ''} open</span>
         )}
+        {mcpCounts && mcpCounts.total > 0 && (
+          <span title={`MCP servers: ${mcpStatus}`}>
+            {getMcpStatusIcon()} MCP {mcpCounts.connected}/{mcpCounts.total}
+          </span>
+        )}
       </div>
       <div className="status-bar-right">
+        {monthlyUsage && monthlyUsage.inputTokens + monthlyUsage.outputTokens > 0 && (
+          <span
+            className={spendLimit > 0 && monthlyUsage.cost >= spendLimit ? 'status-bar-warning' : ''}
+            title={`AI usage this month: ${formatTokenCount(monthlyUsage.inputTokens)} input / ${formatTokenCount(monthlyUsage.outputTokens)} output tokens`}
+          >
+            AI {formatCost(monthlyUsage.cost)}{spendLimit > 0 && ` / ${formatCost(spendLimit)}`} this month
+          </span>
+        )}
         {currentFile && (
           <>
             <span>{getLineCount()} lines</span>
@@ -1,25 +1,61 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import './ToolCallConfirmation.css';
 import alertIcon from '../assets/icons/alert.svg';
+import FileDiffPreview from './FileDiffPreview';
+import { editMarkdownSection, replaceExactText } from '../../shared/text-edits';
 
 export interface ToolCall {
   id: string;
   name: string;
   description: string;
   parameters: any;
+  inputReady?: boolean; // False while the model is still writing the tool's input
 }
 
 interface ToolCallConfirmationProps {
   toolCall: ToolCall;
-  onAccept: () => void;
+  workspacePath?: string | null;
+  onAccept: (content?: string) => void; // File content as reviewed in the diff, for file-changing tools
   onDeny: () => void;
 }
 
+// What a file-changing tool would write: the new content, or an edit of the current content
+const getProposedContent = (toolCall: ToolCall): string | ((original: string) => string) | null => {
+  const params = toolCall.parameters || {};
+  switch (toolCall.name) {
+    case 'write_file':
+      return typeof params.content === 'string' ? params.content : null;
+    case 'edit_file':
+      return typeof params.old_text === 'string'
+        ? (original: string) => replaceExactText(original, params.old_text, params.new_text ?? '', params.replace_all === true)
+        : null;
+    case 'edit_markdown_section':
+      return typeof params.heading === 'string'
+        ? (original: string) => editMarkdownSection(original, params.heading, params.mode || 'replace', params.content ?? '')
+        : null;
+    default:
+      return null;
+  }
+};
+
 const ToolCallConfirmation: React.FC<ToolCallConfirmationProps> = ({ 
   toolCall, 
+  workspacePath,
   onAccept, 
   onDeny 
 }) => {
+  const [approvedContent, setApprovedContent] = useState<string | null>(null);
+
+  // Writes and edits are reviewed as a diff against the file on disk instead of raw parameters
+  const filePath = toolCall.parameters?.file_path || toolCall.parameters?.path;
+  const proposedContent = useMemo(() => getProposedContent(toolCall), [toolCall]);
+  const showDiff = !!workspacePath && !!filePath && proposedContent !== null;
+  // Tool calls are announced before their input streams in; there is nothing to approve yet
+  const inputReady = toolCall.inputReady !== false;
+
+  const handleAccept = () => {
+    onAccept(showDiff && approvedContent !== null ? approvedContent : undefined);
+  };
 
   const formatParameters = (params: any) => {
     if (!params) return null;
@@ -58,7 +94,21 @@ const ToolCallConfirmation: React.FC<ToolCallConfirmationProps> = ({
         {toolCall.description}
       </div>
 
-      {toolCall.parameters && Object.keys(toolCall.parameters).length > 0 && (
+      {showDiff ? (
+        <>
+          <div className="tool-call-parameters">
+            {formatParameters({ file_path: filePath })}
+          </div>
+          <FileDiffPreview
+            workspacePath={workspacePath!}
+            filePath={filePath}
+            proposedContent={proposedContent!}
+            onChange={setApprovedContent}
+          />
+        </>
+      ) : !inputReady ? (
+        <div className="tool-call-pending">Waiting for the tool input...</div>
+      ) : toolCall.parameters && Object.keys(toolCall.parameters).length > 0 && (
         <div className="tool-call-parameters">
           <div className="tool-params-label">Parameters:</div>
           {formatParameters(toolCall.parameters)}
@@ -74,14 +124,15 @@ const ToolCallConfirmation: React.FC<ToolCallConfirmationProps> = ({
         </button>
         <button 
           className="tool-call-btn accept"
-          onClick={onAccept}
+          onClick={handleAccept}
+          disabled={!inputReady}
         >
           ✓ Accept
         </button>
       </div>
 
       {/* Show specific warning for write_file with missing content */}
-      {toolCall.name === 'write_file' && (!toolCall.parameters?.content) && (
+      {toolCall.name === 'write_file' && inputReady && (!toolCall.parameters?.content) && (
         <div className="tool-call-error">
           ❌ ERROR: Missing 'content' parameter. The AI did not provide file content. Click Deny and ask the AI to provide the complete file content.
         </div>
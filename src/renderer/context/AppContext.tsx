@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, ReactNode } from 'react';
-import { EditorFile, FileItem } from '../../shared/types';
+import { EditorFile, EditorLocation, FileItem } from '../../shared/types';
 
 const { ipcRenderer } = window.require('electron');
 
@@ -16,6 +16,8 @@ interface AppContextType {
   updateFileContent: (path: string, content: string) => void;
   setFileTree: (tree: FileItem[]) => void;
   refreshFileTree: () => Promise<void>;
+  revealLocation: EditorLocation | null;
+  setRevealLocation: (location: EditorLocation | null) => void;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -25,6 +27,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [openFiles, setOpenFiles] = useState<EditorFile[]>([]);
   const [workspacePath, setWorkspacePath] = useState<string | null>(null);
   const [fileTree, setFileTree] = useState<FileItem[]>([]);
+  const [revealLocation, setRevealLocation] = useState<EditorLocation | null>(null);
 
   const addOpenFile = (file: EditorFile) => {
     setOpenFiles(prevFiles => {
@@ -87,7 +90,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         closeFile,
         updateFileContent,
         setFileTree,
-        refreshFileTree
+        refreshFileTree,
+        revealLocation,
+        setRevealLocation
       }}
     >
       {children}
@@ -22,3 +22,15 @@ export const debounce = <T extends (...args: any[]) => any>(
   };
 };
 
+
+export const formatTokenCount = (tokens: number): string => {
+  if (tokens < 1000) return `${tokens}`;
+  if (tokens < 1000000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1000000).toFixed(2)}M`;
+};
+
+export const formatCost = (cost: number | null): string => {
+  if (cost === null) return 'n/a';
+  if (cost === 0) return '$0';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+};
@@ -0,0 +1,188 @@
+// Review meeting mode for the stakeholder simulator. The opening round is the usual individual
+// reviews; in each discussion round every stakeholder reads the transcript so far and replies to
+// the others, and a moderator then sums up agreed actions, open disagreements and a go/no-go.
+import { z } from 'zod';
+import { Stakeholder } from './types';
+import {
+  FEEDBACK_CATEGORIES,
+  SimulationResult,
+  StakeholderFeedback,
+  getStakeholderPrompt,
+  toStructuredOutputTool,
+} from './stakeholder-simulator';
+
+export const DEFAULT_MEETING_ROUNDS = 2;
+export const MAX_MEETING_ROUNDS = 3;
+
+export type ReplyStance = 'agree' | 'disagree' | 'add';
+export type Verdict = StakeholderFeedback['verdict'];
+
+// One stakeholder's contribution to a discussion round
+export interface MeetingTurn {
+  round: number; // 2 onwards; round 1 is the opening reviews
+  stakeholderId: string;
+  stakeholderName: string;
+  stakeholderRole: string;
+  emoji: string;
+  verdict: Verdict; // Where the stakeholder stands after this round
+  replies: MeetingReply[];
+}
+
+export interface MeetingReply {
+  toId: string | null; // Stakeholder replied to; null when the name didn't match anyone
+  toName: string;
+  stance: ReplyStance;
+  message: string;
+}
+
+export interface MeetingOutcome {
+  decision: 'go' | 'no-go';
+  rationale: string;
+  agreedActions: { action: string; owner?: string }[];
+  disagreements: { topic: string; positions: { stakeholder: string; position: string }[] }[];
+}
+
+export interface MeetingResult extends SimulationResult {
+  rounds: number;
+  turns: MeetingTurn[];
+  outcome: MeetingOutcome | null;
+  outcomeError?: string; // Why the moderator pass produced no outcome
+}
+
+export const MeetingTurnSchema = z.object({
+  replies: z.array(z.object({
+    to: z.string().describe('Name of the stakeholder you are replying to'),
+    stance: z.enum(['agree', 'disagree', 'add']).describe('Whether you agree, disagree or add to their point'),
+    message: z.string().describe('What you say to them, in one to three sentences'),
+  })).default([]).describe('Your replies to points the other stakeholders made'),
+  verdict: z.enum(['approve', 'concerns', 'block']).describe('Your verdict on the PRD after this discussion'),
+});
+
+export const MEETING_TURN_TOOL = toStructuredOutputTool(
+  'submit_meeting_turn',
+  'Submit what you say in this round of the review meeting.',
+  MeetingTurnSchema
+);
+
+export const MeetingOutcomeSchema = z.object({
+  decision: z.enum(['go', 'no-go']).describe('Whether the PRD can go ahead as the meeting left it'),
+  rationale: z.string().describe('Why, in one to three sentences'),
+  agreedActions: z.array(z.object({
+    action: z.string().describe('A change to the PRD or a follow-up the stakeholders agreed on'),
+    owner: z.string().optional().describe('Name of the stakeholder who asked for it or should own it'),
+  })).default([]),
+  disagreements: z.array(z.object({
+    topic: z.string().describe('What the stakeholders could not agree on'),
+    positions: z.array(z.object({
+      stakeholder: z.string(),
+      position: z.string(),
+    })).default([]),
+  })).default([]),
+});
+
+export const MEETING_OUTCOME_TOOL = toStructuredOutputTool(
+  'submit_meeting_outcome',
+  'Submit the outcome of the review meeting.',
+  MeetingOutcomeSchema
+);
+
+export const MODERATOR_SYSTEM_PROMPT = `You are a neutral moderator summing up a PRD review meeting.
+Only report actions the stakeholders actually agreed on and disagreements that are still open at the end.
+Respond only with valid JSON as requested.`;
+
+const STANCE_LABELS: Record<ReplyStance, string> = {
+  agree: 'agrees with',
+  disagree: 'disagrees with',
+  add: 'adds to',
+};
+
+const describeStakeholder = (s: { stakeholderName: string; stakeholderRole: string }) =>
+  `${s.stakeholderName} (${s.stakeholderRole})`;
+
+// The meeting so far as plain text, for the next round and the moderator
+export function formatTranscript(feedback: StakeholderFeedback[], turns: MeetingTurn[]): string {
+  const openings = feedback.filter(fb => !fb.error).map(fb => {
+    const points = FEEDBACK_CATEGORIES
+      .filter(({ key }) => fb[key].length > 0)
+      .map(({ key, label }) => `${label}s:\n${fb[key].map(item => `- ${item.text}`).join('\n')}`);
+    return `${describeStakeholder(fb)} - verdict: ${fb.verdict}\n${points.join('\n') || 'No issues raised.'}`;
+  });
+
+  const rounds = [...new Set(turns.map(turn => turn.round))].sort((a, b) => a - b).map(round => {
+    const lines = turns
+      .filter(turn => turn.round === round)
+      .flatMap(turn => [
+        ...turn.replies.map(reply => `${describeStakeholder(turn)} ${STANCE_LABELS[reply.stance]} ${reply.toName}: ${reply.message}`),
+        `${describeStakeholder(turn)} - verdict now: ${turn.verdict}`,
+      ]);
+    return `--- Round ${round} ---\n${lines.join('\n')}`;
+  });
+
+  return [`--- Round 1: opening reviews ---\n${openings.join('\n\n')}`, ...rounds].join('\n\n');
+}
+
+export function buildMeetingTurnPrompt(
+  stakeholder: Stakeholder,
+  prdContent: string,
+  transcript: string,
+  round: number,
+  rounds: number,
+  others: string[]
+): string {
+  const { prompt } = getStakeholderPrompt(stakeholder);
+
+  return `${prompt}
+
+You are in a review meeting about the PRD below with: ${others.join(', ')}.
+
+=== PRD DOCUMENT ===
+${prdContent}
+=== END PRD ===
+
+=== MEETING SO FAR ===
+${transcript}
+=== END MEETING ===
+
+This is round ${round} of ${rounds + 1} of the meeting (round 1 was the opening reviews). Respond to the other stakeholders:
+- Push back where their demands conflict with your priorities (deadlines vs. compliance, scope vs. quality, ...)
+- Support points you agree with and add what they missed
+- Reply to at most 3 points, each addressed to one stakeholder by name, in one to three sentences
+- Don't repeat your own opening review
+- Update your verdict if the discussion changed your mind
+
+Respond with ONLY valid JSON: {"replies":[{"to":"<name>","stance":"agree"|"disagree"|"add","message":"..."}],"verdict":"approve"|"concerns"|"block"}`;
+}
+
+export function buildModeratorPrompt(prdContent: string, transcript: string): string {
+  return `Sum up this PRD review meeting.
+
+=== PRD DOCUMENT ===
+${prdContent}
+=== END PRD ===
+
+=== MEETING TRANSCRIPT ===
+${transcript}
+=== END TRANSCRIPT ===
+
+Respond with ONLY valid JSON with these fields:
+- "decision": "go" if the PRD can move ahead once the agreed actions are done, "no-go" if blockers or open disagreements stop it
+- "rationale": why, in one to three sentences
+- "agreedActions": array of {"action": "...", "owner": "<stakeholder name>"} for the changes and follow-ups the stakeholders agreed on
+- "disagreements": array of {"topic": "...", "positions": [{"stakeholder": "<name>", "position": "..."}]} for what is still disputed`;
+}
+
+// Match a name the model wrote to one of the stakeholders
+export function findStakeholderByName<T extends { id: string; name: string }>(stakeholders: T[], name: string): T | undefined {
+  const wanted = name.trim().toLowerCase();
+  if (!wanted) return undefined;
+  return stakeholders.find(s => s.name.toLowerCase() === wanted)
+    || stakeholders.find(s => wanted.includes(s.name.toLowerCase()) || s.name.toLowerCase().includes(wanted));
+}
+
+// Where each stakeholder stands at the end: their last turn, or their opening review
+export function getFinalVerdicts(feedback: StakeholderFeedback[], turns: MeetingTurn[]): Map<string, Verdict> {
+  const verdicts = new Map<string, Verdict>();
+  feedback.filter(fb => !fb.error).forEach(fb => verdicts.set(fb.stakeholderId, fb.verdict));
+  [...turns].sort((a, b) => a.round - b.round).forEach(turn => verdicts.set(turn.stakeholderId, turn.verdict));
+  return verdicts;
+}
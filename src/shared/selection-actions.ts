@@ -0,0 +1,74 @@
+// AI actions on the editor selection. Rewrites come back as replacement text that the editor
+// shows as an inline diff; "Ask Collie" hands the selection to the chat panel instead.
+
+export type SelectionActionId = 'rewrite' | 'concise' | 'acceptance-criteria';
+
+export interface SelectionAction {
+  id: SelectionActionId;
+  label: string;
+  instruction: string;
+}
+
+// Where the selection sits, so the model can match the document's tone and structure
+export interface SelectionContext {
+  fileName: string;
+  headingPath: string;
+  text: string;
+}
+
+export const SELECTION_ACTIONS: SelectionAction[] = [
+  {
+    id: 'rewrite',
+    label: 'Rewrite Selection',
+    instruction: 'Rewrite the text to be clearer and better structured. Keep the meaning, the facts and the level of detail.',
+  },
+  {
+    id: 'concise',
+    label: 'Make More Concise',
+    instruction: 'Make the text more concise. Remove repetition and filler but keep every requirement, number and decision.',
+  },
+  {
+    id: 'acceptance-criteria',
+    label: 'Expand into Acceptance Criteria',
+    instruction: 'Expand the text into testable acceptance criteria as a Markdown list, using "Given / When / Then" where it fits. Cover the main flow, edge cases and error states.',
+  },
+];
+
+export const SELECTION_ACTION_SYSTEM_PROMPT = `You edit passages of product documents (PRDs, specs, user stories) written in Markdown.
+Reply with the replacement text only - no preamble, no explanation and no code fence around it.
+Keep the Markdown conventions of the original (heading levels, list markers, emphasis).`;
+
+export const getSelectionAction = (id: string): SelectionAction | undefined =>
+  SELECTION_ACTIONS.find(action => action.id === id);
+
+const describeLocation = (context: SelectionContext) =>
+  context.headingPath ? `${context.fileName}, under "${context.headingPath}"` : context.fileName;
+
+export const buildSelectionActionPrompt = (action: SelectionAction, context: SelectionContext): string =>
+  `${action.instruction}
+
+The text is from ${describeLocation(context)}:
+
+<selection>
+${context.text}
+</selection>`;
+
+// Chat message for "Ask Collie about selection"; the user adds the question
+export const buildSelectionQuestion = (context: SelectionContext): string => {
+  const fence = context.text.includes('```') ? '~~~' : '```';
+  return `About this passage from ${describeLocation(context)}:\n\n${fence}\n${context.text}\n${fence}\n\n`;
+};
+
+// Models sometimes add thinking, a fence or the selection tags despite the instructions
+export const cleanSelectionActionResult = (response: string, original: string): string => {
+  let text = response.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+
+  const fenced = text.match(/^(```|~~~)[\w-]*\n([\s\S]*?)\n\1$/);
+  if (fenced) text = fenced[2];
+  const tagged = text.match(/^<selection>\n?([\s\S]*?)\n?<\/selection>$/);
+  if (tagged) text = tagged[1];
+
+  // Keep the selection's trailing line break so the following text doesn't move up
+  const trailing = original.match(/\s*$/)![0];
+  return text.replace(/\s+$/, '') + trailing;
+};
@@ -1,4 +1,15 @@
-export type AIProvider = 'bedrock' | 'openai' | 'ollama';
+export type AIProvider = 'bedrock' | 'openai' | 'anthropic' | 'azure' | 'ollama';
+
+// Where semantic search embeddings come from: the selected provider's embedding model or a local Ollama model
+export type EmbeddingSource = 'provider' | 'ollama';
+
+export const PROVIDER_LABELS: Record<AIProvider, string> = {
+  bedrock: 'AWS Bedrock',
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  azure: 'Azure OpenAI',
+  ollama: 'Ollama',
+};
 
 export interface AppSettings {
   profileName: string;
@@ -14,11 +25,60 @@ export interface AppSettings {
   openaiApiKey: string;
   openaiModel: string;
   openaiBaseUrl?: string; // For OpenAI-compatible endpoints
+  // Anthropic API settings
+  anthropicApiKey: string;
+  anthropicModel: string;
+  // Azure OpenAI settings
+  azureEndpoint: string; // e.g. https://my-resource.openai.azure.com
+  azureApiKey: string;
+  azureDeployment: string;
+  azureApiVersion: string;
+  azureModel: string; // Model behind the deployment, used for pricing
   // Ollama settings (local LLM)
   ollamaModel: string;
   ollamaBaseUrl: string;
+  // Semantic search settings
+  embeddingSource: EmbeddingSource;
+  ollamaEmbeddingModel: string;
+  azureEmbeddingDeployment: string; // Azure serves embeddings from their own deployment
+  // Editor autocomplete (ghost text)
+  inlineCompletionWorkspaces: string[]; // Workspace paths where it is turned on
+  inlineCompletionModel: string; // Ollama model; empty uses the AI provider
+  // Stakeholder reviews run at the same time in the simulator
+  simulatorConcurrency: number;
+  // Providers to fail over to, in order, when the selected provider keeps failing
+  fallbackProviders: AIProvider[];
+  // Workspace paths the assistant's file tools may not read or change
+  agentDeniedPaths: string[];
+  // Conversation size (tokens) per provider before older turns are summarized
+  contextBudgets: Record<AIProvider, number>;
+  // Soft monthly spending limit in USD (0 = no limit)
+  monthlySpendLimit: number;
 }
 
+// Stakeholder reviews the simulator runs at the same time
+export const DEFAULT_SIMULATION_CONCURRENCY = 3;
+export const MAX_SIMULATION_CONCURRENCY = 8;
+
+// The app's own workspace data (checkpoints, sessions, search index, simulation history)
+export const APP_DATA_DIR = '.collie';
+
+// Names match at any depth, paths with a slash match from the workspace root; * is a wildcard
+export const DEFAULT_DENIED_PATHS = ['.git', '.env', '.env.*', '.mcp.json', APP_DATA_DIR];
+
+export const DEFAULT_CONTEXT_BUDGETS: Record<AIProvider, number> = {
+  bedrock: 150000,
+  openai: 100000,
+  anthropic: 150000,
+  azure: 100000,
+  ollama: 8192,
+};
+
+// Context budget for the selected provider, falling back to the default for older settings files
+export const getContextBudget = (settings: { aiProvider: AIProvider; contextBudgets?: Record<AIProvider, number> }): number => {
+  return settings.contextBudgets?.[settings.aiProvider] || DEFAULT_CONTEXT_BUDGETS[settings.aiProvider];
+};
+
 export const DEFAULT_SETTINGS: AppSettings = {
   profileName: 'Default Profile',
   aiProvider: 'bedrock',
@@ -32,29 +92,158 @@ export const DEFAULT_SETTINGS: AppSettings = {
   openaiApiKey: '',
   openaiModel: 'gpt-5.1',
   openaiBaseUrl: '',
+  // Anthropic defaults
+  anthropicApiKey: '',
+  anthropicModel: 'claude-sonnet-4-5',
+  // Azure OpenAI defaults
+  azureEndpoint: '',
+  azureApiKey: '',
+  azureDeployment: '',
+  azureApiVersion: '2024-10-21',
+  azureModel: 'gpt-4o',
   // Ollama defaults
   ollamaModel: 'qwen3:4b',
   ollamaBaseUrl: 'http://localhost:11434',
+  // Semantic search defaults
+  embeddingSource: 'provider',
+  ollamaEmbeddingModel: 'nomic-embed-text',
+  azureEmbeddingDeployment: '',
+  // Editor autocomplete defaults
+  inlineCompletionWorkspaces: [],
+  inlineCompletionModel: '',
+  simulatorConcurrency: DEFAULT_SIMULATION_CONCURRENCY,
+  fallbackProviders: [],
+  agentDeniedPaths: [...DEFAULT_DENIED_PATHS],
+  contextBudgets: { ...DEFAULT_CONTEXT_BUDGETS },
+  monthlySpendLimit: 0,
 };
 
+// Prices are USD per 1M tokens
 export const BEDROCK_MODELS = [
   {
     id: 'global.anthropic.claude-opus-4-5-20251101-v1:0',
-    name: 'Claude Opus 4.5'
+    name: 'Claude Opus 4.5',
+    inputPrice: 5,
+    outputPrice: 25
+  },
+  {
+    id: 'global.anthropic.claude-sonnet-4-5-20250929-v1:0',
+    name: 'Claude Sonnet 4.5',
+    inputPrice: 3,
+    outputPrice: 15
+  },
+  {
+    id: 'us.anthropic.claude-sonnet-4-20250514-v1:0',
+    name: 'Claude Sonnet 4',
+    inputPrice: 3,
+    outputPrice: 15
   }
 ];
 
 export const OPENAI_MODELS = [
   {
     id: 'gpt-5.1',
-    name: 'GPT-5.1'
+    name: 'GPT-5.1',
+    inputPrice: 1.25,
+    outputPrice: 10
   },
   {
     id: 'gpt-4o',
-    name: 'GPT-4o'
+    name: 'GPT-4o',
+    inputPrice: 2.5,
+    outputPrice: 10
+  }
+];
+
+export const ANTHROPIC_MODELS = [
+  {
+    id: 'claude-opus-4-5',
+    name: 'Claude Opus 4.5',
+    inputPrice: 5,
+    outputPrice: 25
+  },
+  {
+    id: 'claude-sonnet-4-5',
+    name: 'Claude Sonnet 4.5',
+    inputPrice: 3,
+    outputPrice: 15
+  },
+  {
+    id: 'claude-haiku-4-5',
+    name: 'Claude Haiku 4.5',
+    inputPrice: 1,
+    outputPrice: 5
   }
 ];
 
+// Base models an Azure deployment can serve
+export const AZURE_OPENAI_MODELS = [
+  ...OPENAI_MODELS,
+  {
+    id: 'gpt-4.1',
+    name: 'GPT-4.1',
+    inputPrice: 2,
+    outputPrice: 8
+  }
+];
+
+// Prices of models that aren't listed above, such as discovered Bedrock models and inference
+// profiles ("eu.anthropic.claude-3-5-haiku-20241022-v1:0") or dated model ids; first match wins
+const PRICE_FAMILIES = [
+  { pattern: /claude-opus-4-5/, inputPrice: 5, outputPrice: 25 },
+  { pattern: /claude-opus-4/, inputPrice: 15, outputPrice: 75 },
+  { pattern: /claude-(sonnet-4|3-7-sonnet|3-5-sonnet)/, inputPrice: 3, outputPrice: 15 },
+  { pattern: /claude-haiku-4-5/, inputPrice: 1, outputPrice: 5 },
+  { pattern: /claude-3-5-haiku/, inputPrice: 0.8, outputPrice: 4 },
+  { pattern: /claude-3-haiku/, inputPrice: 0.25, outputPrice: 1.25 },
+];
+
+// Cost in USD for a model call, 0 for local models and null when the model has no known price
+export const calculateCost = (
+  provider: AIProvider,
+  modelId: string,
+  inputTokens: number,
+  outputTokens: number
+): number | null => {
+  if (provider === 'ollama') return 0;
+
+  const model = [...BEDROCK_MODELS, ...OPENAI_MODELS, ...AZURE_OPENAI_MODELS, ...ANTHROPIC_MODELS].find(m => m.id === modelId)
+    || PRICE_FAMILIES.find(family => family.pattern.test(modelId));
+  if (!model) return null;
+  return (inputTokens * model.inputPrice + outputTokens * model.outputPrice) / 1000000;
+};
+
+// Returns a message describing what is missing or malformed for the selected provider, or null when it is ready to use
+export const validateProviderSettings = (settings: AppSettings): string | null => {
+  switch (settings.aiProvider) {
+    case 'openai':
+      return settings.openaiApiKey ? null : 'Enter your OpenAI API key.';
+    case 'anthropic':
+      if (!settings.anthropicApiKey) return 'Enter your Anthropic API key.';
+      if (!settings.anthropicApiKey.startsWith('sk-ant-')) return 'Anthropic API keys start with "sk-ant-".';
+      return settings.anthropicModel ? null : 'Select an Anthropic model.';
+    case 'azure':
+      if (!settings.azureEndpoint) return 'Enter your Azure OpenAI endpoint.';
+      if (!/^https:\/\/[^\s/]+/.test(settings.azureEndpoint)) return 'The Azure OpenAI endpoint must be an https:// URL.';
+      if (!settings.azureApiKey) return 'Enter your Azure OpenAI API key.';
+      if (!settings.azureDeployment) return 'Enter the name of your Azure OpenAI deployment.';
+      return /^\d{4}-\d{2}-\d{2}(-preview)?$/.test(settings.azureApiVersion)
+        ? null
+        : 'The Azure API version must look like 2024-10-21.';
+    case 'ollama':
+      return settings.ollamaModel ? null : 'Select an Ollama model.';
+    default:
+      return settings.awsAccessKeyId && settings.awsSecretAccessKey ? null : 'Enter your AWS credentials.';
+  }
+};
+
+// Fallback providers that are usable - the selected provider and unconfigured ones are skipped
+export const getFallbackProviders = (settings: AppSettings): AIProvider[] => {
+  return (settings.fallbackProviders || []).filter(provider =>
+    provider !== settings.aiProvider && !validateProviderSettings({ ...settings, aiProvider: provider })
+  );
+};
+
 // All models that support tool calling with download sizes
 // Organized by: Recommended → By Family
 export const OLLAMA_MODELS = [
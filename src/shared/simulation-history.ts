@@ -0,0 +1,112 @@
+// Saved stakeholder simulation runs, so a PRD's readiness can be followed across revisions.
+import { SimulationResult } from './stakeholder-simulator';
+import { MeetingResult } from './review-meeting';
+
+export interface SimulationRun {
+  id: string;
+  createdAt: number;
+  documentPath: string; // Relative to the workspace, with forward slashes
+  contentHash: string;  // SHA-256 of the PRD text that was reviewed
+  stakeholders: { id: string; name: string; role: string }[];
+  result: SimulationResult | MeetingResult;
+  cancelled: boolean;
+}
+
+// What the history list and the trend chart need, without the feedback itself
+export interface SimulationRunSummary {
+  id: string;
+  createdAt: number;
+  contentHash: string;
+  mode: 'reviews' | 'meeting';
+  stakeholderNames: string[];
+  summary: SimulationResult['summary'];
+  decision?: 'go' | 'no-go';
+  cancelled: boolean;
+}
+
+export const toRunSummary = (run: SimulationRun): SimulationRunSummary => ({
+  id: run.id,
+  createdAt: run.createdAt,
+  contentHash: run.contentHash,
+  mode: 'turns' in run.result ? 'meeting' : 'reviews',
+  stakeholderNames: run.stakeholders.map(s => s.name),
+  summary: run.result.summary,
+  decision: 'turns' in run.result ? run.result.outcome?.decision : undefined,
+  cancelled: run.cancelled,
+});
+
+// Number the document versions 1, 2, 3... in the order they were first reviewed
+export function getRevisionNumbers(runs: SimulationRunSummary[]): Map<string, number> {
+  const revisions = new Map<string, number>();
+  [...runs].sort((a, b) => a.createdAt - b.createdAt).forEach(run => {
+    if (!revisions.has(run.contentHash)) {
+      revisions.set(run.contentHash, revisions.size + 1);
+    }
+  });
+  return revisions;
+}
+
+export interface BlockerChange {
+  stakeholderName: string;
+  emoji: string;
+  text: string;
+}
+
+export interface SimulationRunDiff {
+  resolved: BlockerChange[];   // Raised in the earlier run but not in the later one
+  introduced: BlockerChange[]; // New in the later run
+  remaining: { before: BlockerChange; after: BlockerChange }[];
+  notCompared: string[];       // Stakeholders missing from, or whose review failed in, one of the runs
+}
+
+// Two blockers count as the same when they share at least this share of their words
+const SAME_BLOCKER_SIMILARITY = 0.5;
+
+const toWords = (text: string) => new Set(
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(word => word.length > 2)
+);
+
+const similarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+// Compare the blockers each stakeholder raised in two runs. The model words the same issue
+// differently every time, so blockers are paired by word overlap rather than exact text.
+export function diffSimulationRuns(before: SimulationRun, after: SimulationRun): SimulationRunDiff {
+  const diff: SimulationRunDiff = { resolved: [], introduced: [], remaining: [], notCompared: [] };
+  const stakeholderIds = new Set([...before.result.feedback, ...after.result.feedback].map(fb => fb.stakeholderId));
+
+  stakeholderIds.forEach(id => {
+    const old = before.result.feedback.find(fb => fb.stakeholderId === id);
+    const current = after.result.feedback.find(fb => fb.stakeholderId === id);
+    if (!old || !current || old.error || current.error) {
+      diff.notCompared.push((old || current)!.stakeholderName);
+      return;
+    }
+
+    const toChange = (text: string): BlockerChange => ({ stakeholderName: current.stakeholderName, emoji: current.emoji, text });
+    const oldBlockers = old.blockers.map(item => ({ text: item.text, words: toWords(item.text) }));
+    const unmatched = current.blockers.map(item => ({ text: item.text, words: toWords(item.text) }));
+
+    // Best pair first, so a loose match doesn't take the blocker a close one needs
+    const pairs = oldBlockers.flatMap((a, i) => unmatched.map((b, j) => ({ i, j, score: similarity(a.words, b.words) })))
+      .filter(pair => pair.score >= SAME_BLOCKER_SIMILARITY)
+      .sort((a, b) => b.score - a.score);
+    const pairedOld = new Set<number>();
+    const pairedNew = new Set<number>();
+    for (const { i, j } of pairs) {
+      if (pairedOld.has(i) || pairedNew.has(j)) continue;
+      pairedOld.add(i);
+      pairedNew.add(j);
+      diff.remaining.push({ before: toChange(oldBlockers[i].text), after: toChange(unmatched[j].text) });
+    }
+
+    oldBlockers.forEach((blocker, i) => { if (!pairedOld.has(i)) diff.resolved.push(toChange(blocker.text)); });
+    unmatched.forEach((blocker, j) => { if (!pairedNew.has(j)) diff.introduced.push(toChange(blocker.text)); });
+  });
+
+  return diff;
+}
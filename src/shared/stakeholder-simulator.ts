@@ -1,4 +1,6 @@
+import { z } from 'zod';
 import { Stakeholder } from './types';
+import { DocumentAnchor, findDocumentAnchor } from './text-edits';
 
 // Role-based prompt templates for common stakeholder types
 // The key is matched against stakeholder.role (case-insensitive, partial match)
@@ -186,17 +188,39 @@ Style: Professional, thorough, constructive.`
   };
 }
 
+// One point a stakeholder raised, with the heading and/or passage of the PRD it refers to
+export interface FeedbackItem {
+  text: string;
+  section?: string; // Heading text as written in the PRD
+  quote?: string;   // Short exact quote from the PRD
+}
+
+export type FeedbackCategory = 'blockers' | 'concerns' | 'questions' | 'suggestions';
+
+export const FEEDBACK_CATEGORIES: { key: FeedbackCategory; label: string; emoji: string }[] = [
+  { key: 'blockers', label: 'Blocker', emoji: '🚨' },
+  { key: 'concerns', label: 'Concern', emoji: '⚠️' },
+  { key: 'questions', label: 'Question', emoji: '❓' },
+  { key: 'suggestions', label: 'Suggestion', emoji: '💡' },
+];
+
 // Simulation result structure
 export interface StakeholderFeedback {
   stakeholderId: string;
   stakeholderName: string;
   stakeholderRole: string;
   emoji: string;
-  blockers: string[];      // Must fix before approval
-  concerns: string[];      // Should address
-  questions: string[];     // Need clarification
-  suggestions: string[];   // Nice to have
+  blockers: FeedbackItem[];      // Must fix before approval
+  concerns: FeedbackItem[];      // Should address
+  questions: FeedbackItem[];     // Need clarification
+  suggestions: FeedbackItem[];   // Nice to have
   verdict: 'approve' | 'concerns' | 'block';
+  // Set when no valid review came back; the lists are then empty and the review is left out of the summary
+  error?: {
+    kind: 'parse' | 'request';
+    message: string;
+    rawResponse?: string;
+  };
 }
 
 export interface SimulationResult {
@@ -204,11 +228,168 @@ export interface SimulationResult {
   summary: {
     totalBlockers: number;
     totalConcerns: number;
+    failedReviews: number;
     readyForReview: boolean;
     riskLevel: 'low' | 'medium' | 'high';
   };
 }
 
+// Progress of a running simulation, sent as each reviewer starts and finishes
+export interface SimulationProgress {
+  runId: string;
+  completed: number;
+  total: number;
+  reviewing: string[]; // Names of the stakeholders being reviewed right now
+  stage?: string;      // Meeting phase, e.g. "Round 2 of 3"
+}
+
+// Totals and risk level for the reviews received so far
+export function summarizeFeedback(allFeedback: StakeholderFeedback[]): SimulationResult['summary'] {
+  const feedback = allFeedback.filter(f => !f.error);
+  const totalBlockers = feedback.reduce((sum, f) => sum + f.blockers.length, 0);
+  const totalConcerns = feedback.reduce((sum, f) => sum + f.concerns.length, 0);
+  const hasBlocker = feedback.some(f => f.verdict === 'block');
+
+  let riskLevel: 'low' | 'medium' | 'high' = 'low';
+  if (hasBlocker || totalBlockers > 0) riskLevel = 'high';
+  else if (totalConcerns > 3) riskLevel = 'medium';
+
+  return {
+    totalBlockers,
+    totalConcerns,
+    failedReviews: allFeedback.length - feedback.length,
+    readyForReview: totalBlockers === 0 && !hasBlocker,
+    riskLevel
+  };
+}
+
+// Small models still send plain strings now and then; those are kept without an anchor
+const FeedbackItemSchema = z.preprocess(
+  value => typeof value === 'string' ? { text: value } : value,
+  z.object({
+    text: z.string().describe('The feedback itself'),
+    section: z.string().optional().describe('The PRD heading this is about, copied exactly'),
+    quote: z.string().optional().describe('A short passage from the PRD this is about, copied exactly (a few words to one sentence)'),
+  })
+);
+
+// The shape every review must have, whichever provider wrote it
+export const StakeholderReviewSchema = z.object({
+  blockers: z.array(FeedbackItemSchema).default([]).describe('Critical issues that must be fixed before approval'),
+  concerns: z.array(FeedbackItemSchema).default([]).describe('Issues worth addressing but not critical'),
+  questions: z.array(FeedbackItemSchema).default([]).describe('Things that need clarifying'),
+  suggestions: z.array(FeedbackItemSchema).default([]).describe('Nice-to-have improvements'),
+  verdict: z.enum(['approve', 'concerns', 'block']).describe('Overall verdict on the PRD'),
+});
+
+export type StakeholderReview = z.infer<typeof StakeholderReviewSchema>;
+
+// Tool the model is made to call (or, for Ollama, the response format) so the answer comes back as structured data
+export interface StructuredOutputTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export function toStructuredOutputTool(name: string, description: string, schema: z.ZodType): StructuredOutputTool {
+  const inputSchema: Record<string, unknown> = z.toJSONSchema(schema);
+  // Some providers reject tool schemas that name a JSON Schema draft
+  delete inputSchema.$schema;
+  return { name, description, inputSchema };
+}
+
+export const STAKEHOLDER_REVIEW_TOOL = toStructuredOutputTool(
+  'submit_review',
+  'Submit your review of the PRD.',
+  StakeholderReviewSchema
+);
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+// Validate structured output given as tool input or as response text. Text may be wrapped in
+// thinking, a code fence or a sentence or two, so the outermost braces are tried as well.
+export function parseStructuredResponse<T>(raw: unknown, schema: z.ZodType<T>): StructuredParseResult<T> {
+  let value = raw;
+  if (typeof raw === 'string') {
+    const text = raw
+      .replace(/<think>[\s\S]*?<\/think>/g, '')
+      .replace(/^\s*```(?:json)?\s*\n?|\n?```\s*$/g, '')
+      .trim();
+    try {
+      value = JSON.parse(text);
+    } catch (error: any) {
+      const start = text.indexOf('{');
+      const end = text.lastIndexOf('}');
+      if (start === -1 || end <= start) {
+        return { success: false, error: `The response is not JSON: ${error.message}` };
+      }
+      try {
+        value = JSON.parse(text.substring(start, end + 1));
+      } catch (innerError: any) {
+        return { success: false, error: `The response is not valid JSON: ${innerError.message}` };
+      }
+    }
+  }
+
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: z.prettifyError(result.error) };
+}
+
+// Second attempt after an invalid response: show the model what it sent and what was wrong
+export function buildRepairPrompt(rawResponse: string, error: string, tool: StructuredOutputTool): string {
+  return `Your previous answer could not be used because it did not match the required format.
+
+=== YOUR RESPONSE ===
+${rawResponse}
+=== END RESPONSE ===
+
+Problems:
+${error}
+
+Return the same answer as a single JSON object that matches this JSON schema:
+${JSON.stringify(tool.inputSchema)}
+
+Respond with ONLY the JSON object.`;
+}
+
+// A feedback item placed in the document, for the editor's annotations
+export interface FeedbackAnnotation {
+  anchor: DocumentAnchor;
+  category: FeedbackCategory;
+  item: FeedbackItem;
+  stakeholderName: string;
+  stakeholderRole: string;
+  emoji: string;
+}
+
+// Anchor the feedback items that cite a heading or passage still present in the document
+export function getFeedbackAnnotations(content: string, feedback: StakeholderFeedback[]): FeedbackAnnotation[] {
+  const annotations: FeedbackAnnotation[] = [];
+  for (const fb of feedback) {
+    if (fb.error) continue;
+    for (const { key } of FEEDBACK_CATEGORIES) {
+      for (const item of fb[key]) {
+        const anchor = findDocumentAnchor(content, item);
+        if (anchor) {
+          annotations.push({
+            anchor,
+            category: key,
+            item,
+            stakeholderName: fb.stakeholderName,
+            stakeholderRole: fb.stakeholderRole,
+            emoji: fb.emoji,
+          });
+        }
+      }
+    }
+  }
+  return annotations;
+}
+
 // Build the full simulation prompt
 export function buildSimulationPrompt(stakeholder: Stakeholder, prdContent: string): string {
   const { emoji, prompt } = getStakeholderPrompt(stakeholder);
@@ -227,14 +408,19 @@ INSTRUCTIONS:
 3. Respond with ONLY valid JSON (no markdown code blocks, no extra text)
 
 Your response must be a JSON object with these fields:
-- "blockers": array of strings - critical issues that MUST be fixed (use empty array [] if none)
-- "concerns": array of strings - issues worth addressing but not critical (use empty array [] if none)
-- "questions": array of strings - things you need clarified (use empty array [] if none)
-- "suggestions": array of strings - nice-to-have improvements (use empty array [] if none)
+- "blockers": array of items - critical issues that MUST be fixed (use empty array [] if none)
+- "concerns": array of items - issues worth addressing but not critical (use empty array [] if none)
+- "questions": array of items - things you need clarified (use empty array [] if none)
+- "suggestions": array of items - nice-to-have improvements (use empty array [] if none)
 - "verdict": one of "approve", "concerns", or "block"
 
+Each item is an object with:
+- "text": your feedback
+- "section": the heading of the PRD section it is about, copied exactly (leave out if it is about the whole document)
+- "quote": a short passage it is about (a few words to one sentence), copied exactly from the PRD (leave out if there is none)
+
 EXAMPLE of good response (do NOT copy this content, write your own based on the PRD):
-{"blockers":[],"concerns":["The timeline seems aggressive for the scope"],"questions":["What is the expected load?"],"suggestions":["Add error handling section"],"verdict":"concerns"}
+{"blockers":[],"concerns":[{"text":"The timeline seems aggressive for the scope","section":"Timeline","quote":"Launch by end of Q1"}],"questions":[{"text":"What is the expected load?","section":"Technical Requirements"}],"suggestions":[{"text":"Add an error handling section"}],"verdict":"concerns"}
 
 IMPORTANT: Write specific feedback about THIS PRD. Empty arrays are fine if there are no issues.`;
 }
@@ -0,0 +1,249 @@
+// Finding and editing places in Markdown documents: the targeted edits behind the edit_file and
+// edit_markdown_section tools (shared so the chat panel can preview the exact result before the user
+// approves it), heading parsing for the semantic index and the editor's selection actions, and
+// locating the passages and sections that stakeholder feedback refers to.
+
+export type MarkdownSectionMode = 'replace' | 'insert' | 'append';
+
+// Raised when an edit can't be anchored; the message is returned to the model as-is
+export class TextEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TextEditError';
+  }
+}
+
+const countOccurrences = (content: string, search: string): number => {
+  let count = 0;
+  for (let index = content.indexOf(search); index !== -1; index = content.indexOf(search, index + search.length)) {
+    count++;
+  }
+  return count;
+};
+
+// Replace an exact piece of text, which must occur exactly once unless replaceAll is set
+export const replaceExactText = (content: string, oldText: string, newText: string, replaceAll = false): string => {
+  if (!oldText) {
+    throw new TextEditError('old_text must not be empty. To create or overwrite a whole file, use write_file.');
+  }
+
+  // Models always send \n; match files saved with Windows line endings too
+  let search = oldText;
+  let replacement = newText;
+  if (content.includes('\r\n') && !content.includes(search)) {
+    search = oldText.replace(/\r?\n/g, '\r\n');
+    replacement = newText.replace(/\r?\n/g, '\r\n');
+  }
+
+  const count = countOccurrences(content, search);
+  if (count === 0) {
+    const hint = countOccurrences(content, search.trim()) > 0
+      ? ' The text exists without the leading/trailing whitespace you included.'
+      : ' Read the file again and copy the text exactly, including whitespace and line breaks.';
+    throw new TextEditError(`old_text was not found in the file.${hint}`);
+  }
+  if (count > 1 && !replaceAll) {
+    throw new TextEditError(`old_text matches ${count} places in the file. Include more surrounding text so it matches exactly once, or set replace_all to true.`);
+  }
+
+  return replaceAll ? content.split(search).join(replacement) : content.replace(search, () => replacement);
+};
+
+export interface Heading {
+  level: number;
+  text: string;
+  line: number; // 0-based
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+const normalizeHeading = (text: string) => text.replace(/^#+\s*/, '').trim().toLowerCase();
+
+// ATX headings outside fenced code blocks
+export const parseHeadings = (lines: string[]): Heading[] => {
+  const headings: Heading[] = [];
+  let inFence = false;
+
+  lines.forEach((line, index) => {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    const match = !inFence && line.match(HEADING_PATTERN);
+    if (match) {
+      headings.push({ level: match[1].length, text: match[2], line: index });
+    }
+  });
+  return headings;
+};
+
+// The section ends at the next heading of the same or a higher level
+const getSectionEnd = (headings: Heading[], heading: Heading, lineCount: number): number => {
+  const next = headings.find(h => h.line > heading.line && h.level <= heading.level);
+  return next ? next.line : lineCount;
+};
+
+// Resolve "Requirements > Functional" to a heading, each step searching inside the previous section
+const findSection = (lines: string[], headingPath: string): { heading: Heading; end: number } => {
+  const steps = headingPath.split('>').map(step => step.replace(/^#+\s*/, '').trim()).filter(Boolean);
+  if (steps.length === 0) {
+    throw new TextEditError('heading must not be empty. Use the heading text, e.g. "Requirements" or "Requirements > Functional".');
+  }
+
+  const headings = parseHeadings(lines);
+  let scope = { start: -1, end: lines.length, level: 0 };
+  let found: Heading | null = null;
+
+  for (const step of steps) {
+    const matches = headings.filter(h =>
+      h.line > scope.start && h.line < scope.end && h.level > scope.level && normalizeHeading(h.text) === normalizeHeading(step)
+    );
+
+    if (matches.length === 0) {
+      const available = headings.map(h => `${'#'.repeat(h.level)} ${h.text}`).slice(0, 40).join('\n');
+      throw new TextEditError(`Heading "${step}" was not found${found ? ` under "${found.text}"` : ''}. Available headings:\n${available || '(none)'}`);
+    }
+    if (matches.length > 1) {
+      throw new TextEditError(`Heading "${step}" appears ${matches.length} times. Use a heading path to pick one, e.g. "Parent heading > ${matches[0].text}".`);
+    }
+
+    found = matches[0];
+    scope = { start: found.line, end: getSectionEnd(headings, found, lines.length), level: found.level };
+  }
+
+  return { heading: found!, end: scope.end };
+};
+
+// The path of each heading, outermost first, e.g. "Requirements > Functional"
+export const getHeadingPaths = (headings: Heading[]): string[] => {
+  const stack: Heading[] = [];
+  return headings.map(heading => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) stack.pop();
+    stack.push(heading);
+    return stack.map(h => h.text).join(' > ');
+  });
+};
+
+// Headings that contain a line (0-based), outermost first
+export const getHeadingPath = (content: string, line: number): string => {
+  const headings = parseHeadings(content.split(/\r?\n/));
+  const index = headings.filter(heading => heading.line <= line).length - 1;
+  return index >= 0 ? getHeadingPaths(headings)[index] : '';
+};
+
+// Where a piece of review feedback points in a document. Lines and columns are 1-based, as in Monaco.
+export interface DocumentAnchor {
+  kind: 'quote' | 'section';
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+const offsetToPosition = (content: string, offset: number) => {
+  const lines = content.substring(0, offset).split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+// Headings as models tend to cite them: numbered, emphasised or only part of the text
+const looseHeading = (text: string) => normalizeHeading(text).replace(/^[\d.]+\s*/, '').replace(/[*_`]/g, '').trim();
+
+const findQuote = (content: string, quote: string): DocumentAnchor | null => {
+  const text = quote.trim()
+    .replace(/^["'“”‘’]+|["'“”‘’]+$/g, '')
+    .replace(/^(\.\.\.|…)|(\.\.\.|…)$/g, '')
+    .trim();
+  if (text.length < 3) return null;
+
+  let start = content.indexOf(text);
+  let length = text.length;
+  if (start === -1) {
+    // Ignore case and differences in whitespace, e.g. a quote that spans a line break
+    const words = text.split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const match = new RegExp(words.join('\\s+'), 'i').exec(content);
+    if (!match) return null;
+    start = match.index;
+    length = match[0].length;
+  }
+
+  const from = offsetToPosition(content, start);
+  const to = offsetToPosition(content, start + length);
+  return { kind: 'quote', startLine: from.line, startColumn: from.column, endLine: to.line, endColumn: to.column };
+};
+
+const findSectionHeading = (lines: string[], section: string): Heading | null => {
+  try {
+    return findSection(lines, section).heading;
+  } catch {
+    const step = looseHeading(section.split('>').pop() || '');
+    if (step.length < 3) return null;
+    const headings = parseHeadings(lines);
+    return headings.find(h => looseHeading(h.text) === step)
+      || headings.find(h => looseHeading(h.text).includes(step) || step.includes(looseHeading(h.text)))
+      || null;
+  }
+};
+
+// Resolve a quoted passage, or failing that a heading, to a range in the document
+export const findDocumentAnchor = (content: string, target: { quote?: string; section?: string }): DocumentAnchor | null => {
+  const quoted = target.quote ? findQuote(content, target.quote) : null;
+  if (quoted) return quoted;
+
+  if (!target.section) return null;
+  const lines = content.split(/\r?\n/);
+  const heading = findSectionHeading(lines, target.section);
+  return heading
+    ? { kind: 'section', startLine: heading.line + 1, startColumn: 1, endLine: heading.line + 1, endColumn: lines[heading.line].length + 1 }
+    : null;
+};
+
+const trimBlankLines = (lines: string[]): string[] => {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return lines.slice(start, end);
+};
+
+// Join non-empty blocks of lines with a single blank line between them
+const joinBlocks = (blocks: string[][]): string[] => {
+  const result: string[] = [];
+  for (const block of blocks.map(trimBlankLines).filter(b => b.length > 0)) {
+    if (result.length > 0) result.push('');
+    result.push(...block);
+  }
+  return result;
+};
+
+// Replace a section's content, or insert at its start / append at its end (after any subsections).
+// The heading line itself is kept.
+export const editMarkdownSection = (
+  content: string,
+  headingPath: string,
+  mode: MarkdownSectionMode,
+  newContent: string
+): string => {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const hasTrailingNewline = content.endsWith('\n');
+  const lines = content.split(/\r?\n/);
+  if (hasTrailingNewline) lines.pop();
+
+  const { heading, end } = findSection(lines, headingPath);
+  const existing = lines.slice(heading.line + 1, end);
+  const added = newContent.split(/\r?\n/);
+
+  const body = mode === 'replace'
+    ? joinBlocks([added])
+    : mode === 'insert'
+      ? joinBlocks([added, existing])
+      : joinBlocks([existing, added]);
+  const after = lines.slice(end);
+
+  const result = [
+    ...lines.slice(0, heading.line + 1),
+    ...(body.length > 0 ? ['', ...body] : []),
+    ...(after.length > 0 ? ['', ...after] : []),
+  ];
+  return result.join(eol) + (hasTrailingNewline ? eol : '');
+};
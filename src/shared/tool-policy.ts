@@ -0,0 +1,52 @@
+// Per-server (and built-in) tool policy, declared in the workspace .mcp.json:
+// {
+//   "builtInTools": { "autoApprove": ["read_file"], "disabledTools": ["delete_file"] },
+//   "mcpServers": { "jira": { "command": "...", "autoApprove": ["*"] } }
+// }
+export interface ToolPolicy {
+  autoApprove?: string[];   // Tool names that run without confirmation ("*" = all)
+  disabledTools?: string[]; // Tool names hidden from the agent ("*" = all)
+}
+
+// Built-in agent tools, in the order they are registered
+export const BUILT_IN_TOOLS = [
+  { name: 'list_directory', description: 'List workspace files' },
+  { name: 'read_file', description: 'Read a file' },
+  { name: 'search_workspace', description: 'Search text across workspace files' },
+  { name: 'semantic_search', description: 'Find related passages in documents' },
+  { name: 'write_file', description: 'Create or overwrite a file' },
+  { name: 'edit_file', description: 'Replace exact text in a file' },
+  { name: 'edit_markdown_section', description: 'Edit a markdown section by heading' },
+  { name: 'create_directory', description: 'Create a directory' },
+  { name: 'delete_file', description: 'Delete a file or directory' },
+  { name: 'read_templates', description: 'Read document templates' },
+  { name: 'create_todo_list', description: 'Create a task todo list' },
+  { name: 'update_todo', description: 'Update a todo item' },
+  { name: 'read_todo_list', description: 'Read the todo list' },
+  { name: 'create_mockup', description: 'Draw a UI mockup image' },
+];
+
+// Built-in tools that run without confirmation unless the workspace overrides it
+export const DEFAULT_AUTO_APPROVE_TOOLS = [
+  'create_todo_list',
+  'update_todo',
+  'read_todo_list',
+  'read_templates',
+  'create_mockup',
+];
+
+const matchesToolList = (list: string[] | undefined, toolName: string): boolean => {
+  return !!list && (list.includes('*') || list.includes(toolName));
+};
+
+export const isToolAutoApproved = (
+  policy: ToolPolicy | undefined,
+  toolName: string,
+  defaults: string[] = []
+): boolean => {
+  return matchesToolList(policy?.autoApprove ?? defaults, toolName);
+};
+
+export const isToolDisabled = (policy: ToolPolicy | undefined, toolName: string): boolean => {
+  return matchesToolList(policy?.disabledTools, toolName);
+};
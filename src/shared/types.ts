@@ -1,3 +1,5 @@
+import { ChatMessage } from './settings';
+
 export interface FileItem {
   name: string;
   path: string;
@@ -5,6 +7,15 @@ export interface FileItem {
   children?: FileItem[];
 }
 
+// A position to scroll the editor to once the file is open (search results, feedback anchors)
+export interface EditorLocation {
+  path: string;
+  line: number; // 1-based
+  column?: number;
+  endLine?: number; // Select up to here instead of placing the cursor
+  endColumn?: number;
+}
+
 export interface EditorFile {
   path: string;
   content: string;
@@ -29,4 +40,125 @@ export interface TodoItem {
   status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
   createdAt: number;
   updatedAt: number;
-}
\ No newline at end of file
+}
+// Agent conversation history in the provider's native message format
+export interface AgentHistory {
+  format: 'strands' | 'ollama';
+  messages: any[];
+}
+
+export interface ChatSessionSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+// Persisted chat session (<workspace>/.collie/sessions/<id>.json)
+export interface ChatSession extends ChatSessionSummary {
+  messages: ChatMessage[]; // UI transcript, including tool_use/tool_result blocks
+  agentHistory?: AgentHistory;
+}
+
+// Token counts for one model call (or a sum of calls); cost is null when the model has no known price
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cost: number | null;
+}
+
+// Spend for the current calendar month, across all sessions
+export interface MonthlyUsage extends TokenUsage {
+  month: string; // YYYY-MM
+  cost: number;
+}
+
+// A model discovered from a provider's API
+export interface ProviderModel {
+  id: string;
+  name: string;
+  group?: string; // e.g. Bedrock inference profiles vs foundation models
+}
+
+// A file the agent wrote or deleted during one turn, with a snapshot of its previous state
+export interface FileChange {
+  id: string;
+  path: string; // Relative to the workspace
+  action: 'write' | 'delete';
+  existed: boolean; // False when the agent created the file, so reverting removes it
+  afterHash?: string | null; // Content hash when the turn ended (null if the path was gone), to spot later edits
+  reverted?: boolean;
+}
+
+// Changes made during one agent turn (<workspace>/.collie/checkpoints/<sessionId>/<turnId>)
+export interface TurnCheckpoint {
+  sessionId: string;
+  turnId: string;
+  changes: FileChange[];
+}
+
+// Full-text search over the workspace, used by the search panel and the search_workspace tool
+export interface WorkspaceSearchOptions {
+  query: string;
+  isRegex?: boolean;
+  caseSensitive?: boolean;
+  include?: string[]; // Globs, e.g. "*.md" (any folder) or "docs/**"
+  exclude?: string[];
+  maxResults?: number;
+  contextLines?: number;
+}
+
+export interface WorkspaceSearchMatch {
+  line: number; // 1-based
+  column: number; // 1-based
+  text: string;
+  before?: string[];
+  after?: string[];
+}
+
+export interface WorkspaceSearchFile {
+  path: string; // Relative to the workspace
+  matches: WorkspaceSearchMatch[];
+}
+
+export interface WorkspaceSearchResults {
+  files: WorkspaceSearchFile[];
+  matchCount: number;
+  truncated: boolean; // Stopped at maxResults
+}
+
+// A passage found by semantic search over the workspace documents (<workspace>/.collie/index/)
+export interface SemanticSearchResult {
+  path: string; // Relative to the workspace
+  heading: string; // Heading path, e.g. "Requirements > Functional"; empty before the first heading
+  startLine: number; // 1-based
+  endLine: number;
+  text: string;
+  score: number; // Cosine similarity to the query
+}
+
+export interface SemanticIndexStatus {
+  fileCount: number;
+  chunkCount: number;
+  embedder: string | null; // e.g. "ollama:nomic-embed-text"
+  updatedAt: number | null;
+}
+
+// A file or folder attached to a chat message with a #mention; its content is sent with the message
+export interface ChatAttachment {
+  path: string; // Relative to the workspace
+  isDirectory: boolean;
+  files: { path: string; content: string }[]; // For a folder, the Markdown files inside it
+  tokens: number; // Estimated size of the content
+  omitted?: number; // Folder files left out because of the size limits
+  error?: string;
+}
+
+// Text around the cursor for a ghost-text suggestion in the editor
+export interface InlineCompletionRequest {
+  fileName: string;
+  headingPath: string; // Section the cursor is in, e.g. "Requirements > Functional"
+  prefix: string; // Document text before the cursor
+  suffix: string; // Document text after the cursor
+}